@@ -2,29 +2,41 @@ import React, { useState, useEffect } from 'react';
 import { Layout } from './components/Layout';
 import { Dashboard } from './components/Dashboard';
 import { InvoiceList } from './components/InvoiceList';
+import { QuoteList } from './components/QuoteList';
 import { ClientManager } from './components/ClientManager';
 import { ExpenseManager } from './components/ExpenseManager';
+import { ShipmentManager } from './components/ShipmentManager';
+import { ReminderQueue } from './components/ReminderQueue';
 import { StorageService } from './services/storage';
+import { PublicInvoiceView } from './components/PublicInvoiceView';
+
+// ?view=<token> opens a client's shared invoice instead of the app
+const SHARED_TOKEN = new URLSearchParams(window.location.search).get('view');
 
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState('dashboard');
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    // Fetch data from Google Sheet on load
+    if (SHARED_TOKEN) return;
+    // Render as soon as the on-device copy is loaded; Layout syncs with the Sheet afterwards
     const loadData = async () => {
-        await StorageService.init();
+        await StorageService.hydrate();
         setIsLoading(false);
     };
     loadData();
   }, []);
 
+  if (SHARED_TOKEN) {
+    return <PublicInvoiceView token={SHARED_TOKEN} />;
+  }
+
   if (isLoading) {
     return (
         <div className="flex flex-col items-center justify-center h-screen bg-slate-50 text-slate-600">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand mb-4"></div>
             <h2 className="text-xl font-bold text-slate-800">Cargando KASSTYLE...</h2>
-            <p className="text-sm">Sincronizando con Google Sheets</p>
+            <p className="text-sm">Cargando datos locales</p>
         </div>
     );
   }
@@ -33,12 +45,18 @@ const App: React.FC = () => {
     switch (activeTab) {
       case 'dashboard':
         return <Dashboard />;
+      case 'quotes':
+        return <QuoteList />;
       case 'invoices':
         return <InvoiceList />;
       case 'clients':
         return <ClientManager />;
+      case 'reminders':
+        return <ReminderQueue />;
       case 'expenses':
         return <ExpenseManager />;
+      case 'shipments':
+        return <ShipmentManager />;
       default:
         return <Dashboard />;
     }
@@ -1,17 +1,63 @@
 // --- CONFIGURACIÓN ---
-// Versión: 4.3 (Corrección de Guardado de Gastos)
+// Versión: 6.3 (Clave de acceso para leer y escribir la hoja completa)
 //
 // --- LIBRERÍAS REQUERIDAS ---
 // Por favor, agrega la siguiente biblioteca en el editor de Apps Script (Recursos > Bibliotecas):
 // ID: 1ZpY_UxTyIHZMW2_Yu90Yoq9XPlks9iAdgKOUXgP46d2Ks4ZeFt-JSRe5
 // Versión: 7
+//
+// --- CLAVE DE ACCESO ---
+// En el editor: Configuración del proyecto > Propiedades del script, agrega ACCESS_KEY con una
+// clave larga. La app la pide una vez por dispositivo. Sin ella no se lee ni se escribe nada,
+// salvo la vista pública de una factura compartida (?view=).
+
+// schemaVersion: versión del esquema de la app con la que se escribió la fila (ver services/schema.ts)
+const CLIENT_HEADERS = ['id', 'name', 'phone', 'email', 'address', 'notes', 'updatedAt', 'schemaVersion', 'paymentTermDays'];
+const INVOICE_HEADERS = ['id', 'clientId', 'createdAt', 'updatedAt', 'status', 'exchangeRate', 'logisticsCost', 'amountPaid', 'grandTotalUsd', 'items', 'schemaVersion', 'payments', 'shippingRateId', 'invoiceNumber', 'shareToken', 'publicView', 'paymentTermDays'];
 
-const CLIENT_HEADERS = ['id', 'name', 'phone', 'email', 'address', 'notes'];
-const INVOICE_HEADERS = ['id', 'clientId', 'createdAt', 'updatedAt', 'status', 'exchangeRate', 'logisticsCost', 'amountPaid', 'grandTotalUsd', 'items'];
-const EXPENSE_HEADERS = ['id', 'description', 'amount', 'category', 'date'];
+// Columnas que guardan listas como JSON
+const JSON_LIST_COLUMNS = ['items', 'payments', 'invoiceIds'];
+// Columnas que guardan un objeto como JSON (vacías si no hay)
+const JSON_OBJECT_COLUMNS = ['publicView'];
+const EXPENSE_HEADERS = ['id', 'description', 'amount', 'category', 'date', 'updatedAt', 'schemaVersion'];
+const RATE_HEADERS = ['id', 'date', 'rate', 'source', 'updatedAt', 'schemaVersion'];
+const SHIPMENT_HEADERS = ['id', 'guideNumber', 'carrier', 'shipDate', 'arrivalDate', 'totalWeightKg', 'freightCost', 'notes', 'updatedAt', 'schemaVersion'];
+const QUOTE_HEADERS = ['id', 'clientId', 'createdAt', 'updatedAt', 'validUntil', 'status', 'exchangeRate', 'logisticsCost', 'shippingRateId', 'grandTotalUsd', 'items', 'notes', 'invoiceId', 'acceptedAt', 'schemaVersion'];
+const REMINDER_HEADERS = ['id', 'clientId', 'invoiceIds', 'sentAt', 'channel', 'amountUsd', 'message', 'updatedAt', 'schemaVersion'];
+const CREDIT_HEADERS = ['id', 'clientId', 'date', 'kind', 'amount', 'currency', 'exchangeRate', 'amountUsd', 'method', 'invoiceId', 'notes', 'updatedAt', 'schemaVersion'];
 const SETTINGS_HEADERS = ['key', 'value'];
 
+// Protocolo de cambios (ver services/changeSet.ts en la app)
+const CHANGESET_PROTOCOL = 'changes-v1';
+
+const DEFAULT_SETTINGS = { exchangeRate: 40.5, pricePerKg: 15.43, invoicePrefix: 'FAC-', invoiceYearlyReset: true };
+
+// Numeración de facturas (mismo formato que services/invoiceNumbers.ts)
+const DRAFT_STATUS = 'Borrador';
+const SEQUENCE_DIGITS = 5;
+// Clave de Settings con el último número emitido por serie ({ "FAC-2026-": 42 })
+const COUNTERS_KEY = 'invoiceCounters';
+
+// Entidades sincronizables: hoja, columnas y cómo convertir el registro a fila
+const ENTITIES = {
+  clients: { sheet: 'Clients', headers: CLIENT_HEADERS, serialize: rec => rec },
+  invoices: { sheet: 'Invoices', headers: INVOICE_HEADERS, serialize: serializeInvoice },
+  expenses: { sheet: 'Expenses', headers: EXPENSE_HEADERS, serialize: serializeExpense },
+  exchangeRates: { sheet: 'ExchangeRates', headers: RATE_HEADERS, serialize: serializeExchangeRate },
+  shipments: { sheet: 'Shipments', headers: SHIPMENT_HEADERS, serialize: serializeShipment },
+  quotes: { sheet: 'Quotes', headers: QUOTE_HEADERS, serialize: serializeQuote },
+  reminders: { sheet: 'Reminders', headers: REMINDER_HEADERS, serialize: serializeReminder },
+  credits: { sheet: 'Credits', headers: CREDIT_HEADERS, serialize: serializeCredit }
+};
+
 function doGet(e) {
+  // Enlace público de una factura: responde solo con su vista pública, nunca con el resto
+  if (e && e.parameter && e.parameter.view) return getSharedInvoice(String(e.parameter.view));
+  if (!isAuthorized(e && e.parameter && e.parameter.key)) {
+    return ContentService.createTextOutput(JSON.stringify({ error: ACCESS_DENIED_MESSAGE, code: 'unauthorized' }))
+      .setMimeType(ContentService.MimeType.JSON);
+  }
+
   const lock = LockService.getScriptLock();
   lock.tryLock(10000); 
 
@@ -21,6 +67,11 @@ function doGet(e) {
     const clients = readSheetRows(ss, 'Clients', CLIENT_HEADERS);
     const invoices = readSheetRows(ss, 'Invoices', INVOICE_HEADERS);
     const expenses = readSheetRows(ss, 'Expenses', EXPENSE_HEADERS);
+    const exchangeRates = readSheetRows(ss, 'ExchangeRates', RATE_HEADERS);
+    const shipments = readSheetRows(ss, 'Shipments', SHIPMENT_HEADERS);
+    const quotes = readSheetRows(ss, 'Quotes', QUOTE_HEADERS);
+    const reminders = readSheetRows(ss, 'Reminders', REMINDER_HEADERS);
+    const credits = readSheetRows(ss, 'Credits', CREDIT_HEADERS);
     const settings = readSettingsSheet(ss);
 
     // Sanitize Numbers
@@ -30,7 +81,9 @@ function doGet(e) {
         logisticsCost: safeNumber(inv.logisticsCost),
         amountPaid: safeNumber(inv.amountPaid), 
         grandTotalUsd: safeNumber(inv.grandTotalUsd),
-        exchangeRate: safeNumber(inv.exchangeRate)
+        exchangeRate: safeNumber(inv.exchangeRate),
+        invoiceNumber: String(inv.invoiceNumber || ''),
+        shareToken: String(inv.shareToken || '')
       };
     });
 
@@ -39,10 +92,46 @@ function doGet(e) {
         amount: safeNumber(exp.amount)
     }));
 
+    const safeRates = exchangeRates.map(r => ({
+        ...r,
+        date: readTextDate(r.date),
+        rate: safeNumber(r.rate)
+    }));
+
+    const safeShipments = shipments.map(s => ({
+        ...s,
+        totalWeightKg: safeNumber(s.totalWeightKg),
+        freightCost: safeNumber(s.freightCost)
+    }));
+
+    const safeQuotes = quotes.map(q => ({
+        ...q,
+        logisticsCost: safeNumber(q.logisticsCost),
+        grandTotalUsd: safeNumber(q.grandTotalUsd),
+        exchangeRate: safeNumber(q.exchangeRate)
+    }));
+
+    const safeReminders = reminders.map(r => ({
+        ...r,
+        amountUsd: safeNumber(r.amountUsd)
+    }));
+
+    const safeCredits = credits.map(c => ({
+        ...c,
+        amount: safeNumber(c.amount),
+        exchangeRate: safeNumber(c.exchangeRate),
+        amountUsd: safeNumber(c.amountUsd)
+    }));
+
     const result = {
       clients: clients,
       invoices: safeInvoices,
       expenses: safeExpenses,
+      exchangeRates: safeRates,
+      shipments: safeShipments,
+      quotes: safeQuotes,
+      reminders: safeReminders,
+      credits: safeCredits,
       settings: settings
     };
 
@@ -57,6 +146,32 @@ function doGet(e) {
   }
 }
 
+const ACCESS_DENIED_MESSAGE = 'Clave de acceso inválida: ingrésala de nuevo en la app.';
+
+// Sin ACCESS_KEY configurada se rechaza todo: el enlace del script viaja en cada enlace compartido
+function isAuthorized(key) {
+  const expected = PropertiesService.getScriptProperties().getProperty('ACCESS_KEY');
+  return !!expected && typeof key === 'string' && key === expected;
+}
+
+// Lectura sin bloqueo: solo busca la fila. Un token desconocido devuelve invoice: null
+// (la app muestra "enlace no válido"), sin revelar nada más de la hoja.
+function getSharedInvoice(token) {
+  try {
+    const ss = SpreadsheetApp.getActiveSpreadsheet();
+    const invoices = token.length >= 32 ? readSheetRows(ss, 'Invoices', INVOICE_HEADERS) : [];
+    const invoice = invoices.find(inv => String(inv.shareToken || '') === token);
+    const view = invoice && invoice.publicView
+      ? { ...invoice.publicView, invoiceNumber: String(invoice.invoiceNumber || '') || undefined, status: invoice.status }
+      : null;
+    return ContentService.createTextOutput(JSON.stringify({ invoice: view }))
+      .setMimeType(ContentService.MimeType.JSON);
+  } catch (err) {
+    return ContentService.createTextOutput(JSON.stringify({ error: err.toString() }))
+      .setMimeType(ContentService.MimeType.JSON);
+  }
+}
+
 function doPost(e) {
   const lock = LockService.getScriptLock();
   // Aumentamos el tiempo de espera del lock para evitar colisiones
@@ -67,55 +182,26 @@ function doPost(e) {
     // Parseo robusto del body
     const jsonString = e.postData.contents;
     const body = JSON.parse(jsonString);
-    
-    // 1. Clients
-    if (body.clients) {
-      try {
-        writeSheetRows(ss, 'Clients', CLIENT_HEADERS, body.clients);
-      } catch (err) { console.error("Error writing Clients", err); }
-    }
-    
-    // 2. Invoices
-    if (body.invoices) {
-      try {
-        const processedInvoices = body.invoices.map(inv => ({
-          ...inv,
-          items: JSON.stringify(inv.items || []),
-          logisticsCost: safeNumber(inv.logisticsCost),
-          amountPaid: safeNumber(inv.amountPaid),
-          grandTotalUsd: safeNumber(inv.grandTotalUsd),
-          exchangeRate: safeNumber(inv.exchangeRate)
-        }));
-        writeSheetRows(ss, 'Invoices', INVOICE_HEADERS, processedInvoices);
-      } catch (err) { console.error("Error writing Invoices", err); }
-    }
 
-    // 3. Expenses - CRITICAL: Independent Block
-    if (body.expenses) {
-      try {
-        const processedExpenses = body.expenses.map(exp => ({
-            ...exp,
-            amount: safeNumber(exp.amount),
-            date: exp.date ? String(exp.date) : new Date().toISOString()
-        }));
-        writeSheetRows(ss, 'Expenses', EXPENSE_HEADERS, processedExpenses);
-        // Force flush specifically after expenses to ensure persistence
-        SpreadsheetApp.flush();
-      } catch (err) { console.error("Error writing Expenses", err); }
+    if (!isAuthorized(body.key)) {
+      return ContentService.createTextOutput(JSON.stringify({ status: 'error', message: ACCESS_DENIED_MESSAGE, code: 'unauthorized' }))
+        .setMimeType(ContentService.MimeType.JSON);
     }
-    
-    // 4. Settings
-    if (body.settings) {
-       try {
-        writeSettingsSheet(ss, body.settings);
-       } catch (err) { console.error("Error writing Settings", err); }
+
+    // Delta: solo los registros que cambiaron
+    if (body.protocol === CHANGESET_PROTOCOL) {
+      const result = applyChanges(ss, body.changes || []);
+      SpreadsheetApp.flush();
+      return ContentService.createTextOutput(JSON.stringify({ status: 'success', applied: result.applied, conflicts: result.conflicts, invoiceNumbers: result.invoiceNumbers }))
+        .setMimeType(ContentService.MimeType.JSON);
     }
     
-    // Force final flush
-    SpreadsheetApp.flush();
-
-    return ContentService.createTextOutput(JSON.stringify({ status: 'success' }))
-      .setMimeType(ContentService.MimeType.JSON);
+    // Las versiones viejas de la app mandaban el snapshot completo: reescribirlo con las columnas
+    // actuales borraría abonos, números y enlaces públicos. Se rechaza sin tocar la hoja.
+    return ContentService.createTextOutput(JSON.stringify({
+      status: 'error',
+      message: 'Versión de la app desactualizada: actualiza la app (recarga la página) para sincronizar.'
+    })).setMimeType(ContentService.MimeType.JSON);
 
   } catch (error) {
     return ContentService.createTextOutput(JSON.stringify({ status: 'error', message: error.toString() }))
@@ -140,6 +226,80 @@ function safeNumber(val) {
   }
 }
 
+function serializeInvoice(inv) {
+  return {
+    ...inv,
+    items: JSON.stringify(inv.items || []),
+    payments: JSON.stringify(inv.payments || []),
+    shareToken: inv.shareToken || '',
+    publicView: inv.publicView ? JSON.stringify(inv.publicView) : '',
+    logisticsCost: safeNumber(inv.logisticsCost),
+    amountPaid: safeNumber(inv.amountPaid),
+    grandTotalUsd: safeNumber(inv.grandTotalUsd),
+    exchangeRate: safeNumber(inv.exchangeRate)
+  };
+}
+
+function serializeExpense(exp) {
+  return {
+    ...exp,
+    amount: safeNumber(exp.amount),
+    date: exp.date ? String(exp.date) : new Date().toISOString()
+  };
+}
+
+function serializeShipment(shipment) {
+  return {
+    ...shipment,
+    totalWeightKg: safeNumber(shipment.totalWeightKg),
+    freightCost: safeNumber(shipment.freightCost)
+  };
+}
+
+function serializeQuote(quote) {
+  return {
+    ...quote,
+    items: JSON.stringify(quote.items || []),
+    logisticsCost: safeNumber(quote.logisticsCost),
+    grandTotalUsd: safeNumber(quote.grandTotalUsd),
+    exchangeRate: safeNumber(quote.exchangeRate)
+  };
+}
+
+function serializeReminder(reminder) {
+  return {
+    ...reminder,
+    invoiceIds: JSON.stringify(reminder.invoiceIds || []),
+    amountUsd: safeNumber(reminder.amountUsd)
+  };
+}
+
+function serializeCredit(credit) {
+  return {
+    ...credit,
+    amount: safeNumber(credit.amount),
+    exchangeRate: safeNumber(credit.exchangeRate),
+    amountUsd: safeNumber(credit.amountUsd)
+  };
+}
+
+// La fecha (AAAA-MM-DD) se escribe como texto: con el apóstrofo Sheets no la convierte en Date
+function serializeExchangeRate(rate) {
+  return {
+    ...rate,
+    date: "'" + String(rate.date),
+    rate: safeNumber(rate.rate)
+  };
+}
+
+// Filas escritas a mano pueden traer la fecha como Date
+function readTextDate(val) {
+  if (val instanceof Date) {
+    return Utilities.formatDate(val, Session.getScriptTimeZone(), 'yyyy-MM-dd');
+  }
+  return String(val || '');
+}
+
 // --- FUNCIONES DE LECTURA ---
 
 function readSheetRows(ss, sheetName, headers) {
@@ -153,108 +313,248 @@ function readSheetRows(ss, sheetName, headers) {
   // Get range based on header length to ensure we try to read all expected columns
   const data = sheet.getRange(2, 1, lastRow - 1, headers.length).getValues();
   
-  return data.map(row => {
-    const obj = {};
-    headers.forEach((header, index) => {
-      let value = row[index];
-      
-      if (header === 'items') {
-        if (typeof value === 'string' && value.trim().startsWith('[')) {
-          try {
-            value = JSON.parse(value);
-          } catch (e) { value = []; }
-        } else {
-          value = []; 
-        }
+  return data.map(row => rowToObject(row, headers));
+}
+
+function rowToObject(row, headers) {
+  const obj = {};
+  headers.forEach((header, index) => {
+    let value = row[index];
+    
+    if (JSON_OBJECT_COLUMNS.indexOf(header) >= 0) {
+      try {
+        value = typeof value === 'string' && value.trim().startsWith('{') ? JSON.parse(value) : '';
+      } catch (e) { value = ''; }
+    } else if (JSON_LIST_COLUMNS.indexOf(header) >= 0) {
+      if (typeof value === 'string' && value.trim().startsWith('[')) {
+        try {
+          value = JSON.parse(value);
+        } catch (e) { value = []; }
+      } else {
+        value = []; 
       }
-      obj[header] = value;
-    });
-    return obj;
+    }
+    obj[header] = value;
   });
+  return obj;
 }
 
 function readSettingsSheet(ss) {
   const sheet = ss.getSheetByName('Settings');
-  if (!sheet) return { exchangeRate: 40.5, pricePerKg: 15.43 };
+  if (!sheet) return { ...DEFAULT_SETTINGS };
   
   const data = sheet.getDataRange().getValues();
-  const settings = { exchangeRate: 40.5, pricePerKg: 15.43 };
+  const settings = { ...DEFAULT_SETTINGS };
   
   for (let i = 1; i < data.length; i++) {
     const key = data[i][0];
     const val = data[i][1];
-    if (key) settings[key] = safeNumber(val);
+    if (key) settings[key] = parseSettingValue(val);
   }
   return settings;
 }
 
-// --- FUNCIONES DE ESCRITURA ---
+// Listas y objetos (p. ej. tariffRules, shippingRates) se guardan como JSON; los textos
+// (invoicePrefix) y las casillas (invoiceYearlyReset) se dejan tal cual; el resto son números
+function parseSettingValue(val) {
+  if (typeof val === 'boolean') return val;
+  if (typeof val === 'string' && /^\s*[\[{]/.test(val)) {
+    try {
+      return JSON.parse(val);
+    } catch (e) { return val; }
+  }
+  if (typeof val === 'string' && (val === '' || isNaN(Number(val.replace(',', '.'))))) return val;
+  return safeNumber(val);
+}
 
-function writeSheetRows(ss, sheetName, headers, dataArray) {
-  let sheet = ss.getSheetByName(sheetName);
-  
-  // Create sheet if not exists
-  if (!sheet) {
-    sheet = ss.insertSheet(sheetName);
-    sheet.getRange(1, 1, 1, headers.length).setValues([headers]);
-    sheet.getRange(1, 1, 1, headers.length).setFontWeight("bold");
-    sheet.setFrozenRows(1);
-  } else {
-    // Check if headers match. If the user has old columns, we update them.
-    const lastCol = Math.max(sheet.getLastColumn(), headers.length);
-    const currentHeaders = sheet.getRange(1, 1, 1, lastCol).getValues()[0];
-    
-    // Check if any header is different or missing
-    let headersChanged = false;
-    if (lastCol !== headers.length) headersChanged = true;
-    else {
-        headersChanged = currentHeaders.some((h, i) => h !== headers[i]);
-    }
-    
-    if (headersChanged) {
-       // Force update headers row
-       sheet.getRange(1, 1, 1, headers.length).setValues([headers]);
-       // If sheet had more columns before, clear the extra ones on the right
-       if (lastCol > headers.length) {
-         sheet.getRange(1, headers.length + 1, sheet.getMaxRows(), lastCol - headers.length).clearContent();
-       }
+function serializeSettingValue(value) {
+  return (value !== null && typeof value === 'object') ? JSON.stringify(value) : value;
+}
+
+// --- SINCRONIZACIÓN POR CAMBIOS ---
+
+// Aplica upserts/deletes fila por fila. Devuelve "entidad:id" de lo aplicado y los
+// cambios rechazados porque la fila cambió desde la versión que editó el dispositivo.
+function applyChanges(ss, changes) {
+  const applied = [];
+  const conflicts = [];
+  const invoiceNumbers = {};
+  const byEntity = {};
+  changes.forEach(change => {
+    (byEntity[change.entity] = byEntity[change.entity] || []).push(change);
+  });
+
+  Object.keys(byEntity).forEach(entity => {
+    const entityChanges = byEntity[entity];
+
+    if (entity === 'settings') {
+      entityChanges.forEach(change => {
+        if (change.op === 'upsert' && change.record) {
+          upsertSetting(ss, change.record.key, change.record.value);
+        }
+        applied.push(entity + ':' + change.id);
+      });
+      return;
     }
-  }
 
-  // Clear old data to prevent ghosts
-  // Start from row 2, and clear all subsequent rows
-  const maxRows = sheet.getMaxRows();
-  if (maxRows > 1) {
-    sheet.getRange(2, 1, maxRows - 1, headers.length).clearContent();
-  }
+    const def = ENTITIES[entity];
+    if (!def) return;
+
+    const sheet = ensureSheet(ss, def.sheet, def.headers);
+    const rowById = readRowIndex(sheet);
+    const deletions = [];
+    const numbering = entity === 'invoices' ? readNumbering(ss, sheet) : null;
 
-  if (!dataArray || dataArray.length === 0) return;
+    entityChanges.forEach(change => {
+      const existingRow = rowById[change.id];
+      let current = null;
 
-  // Transform objects to arrays based on header order
-  const rows = dataArray.map(obj => {
-    return headers.map(header => {
-      const val = obj[header];
-      return (val === undefined || val === null) ? '' : val;
+      if (existingRow) {
+        current = rowToObject(sheet.getRange(existingRow, 1, 1, def.headers.length).getValues()[0], def.headers);
+        if (!sameVersion(current.updatedAt, change.baseUpdatedAt)) {
+          conflicts.push({ entity: entity, id: change.id, record: current });
+          return;
+        }
+      } else if (change.op === 'upsert' && change.baseUpdatedAt) {
+        // El dispositivo editó algo que otro ya borró
+        conflicts.push({ entity: entity, id: change.id, record: null });
+        return;
+      }
+
+      if (change.op === 'delete') {
+        if (existingRow) deletions.push(existingRow);
+      } else if (change.record) {
+        const record = numbering ? numberInvoice(change.record, current, numbering) : change.record;
+        if (record.invoiceNumber) invoiceNumbers[change.id] = record.invoiceNumber;
+        const serialized = def.serialize(record);
+        const row = def.headers.map(h => {
+          const val = serialized[h];
+          return (val === undefined || val === null) ? '' : val;
+        });
+        if (existingRow) {
+          sheet.getRange(existingRow, 1, 1, def.headers.length).setValues([row]);
+        } else {
+          sheet.appendRow(row);
+          rowById[change.id] = sheet.getLastRow();
+        }
+      }
+      applied.push(entity + ':' + change.id);
     });
+
+    // De abajo hacia arriba para que los índices no se desplacen
+    deletions.sort((a, b) => b - a).forEach(rowNum => sheet.deleteRow(rowNum));
+    if (numbering && numbering.changed) upsertSetting(ss, COUNTERS_KEY, numbering.counters);
   });
 
-  if (rows.length > 0) {
-    sheet.getRange(2, 1, rows.length, headers.length).setValues(rows);
+  return { applied: applied, conflicts: conflicts, invoiceNumbers: invoiceNumbers };
+}
+
+// --- NUMERACIÓN DE FACTURAS ---
+
+// Configuración de la serie, contadores y números ya emitidos; se lee una vez por lote (dentro del lock)
+function readNumbering(ss, sheet) {
+  const column = INVOICE_HEADERS.indexOf('invoiceNumber') + 1;
+  // Como texto, para que Sheets no convierta "00012" en 12
+  sheet.getRange(2, column, Math.max(sheet.getMaxRows() - 1, 1), 1).setNumberFormat('@');
+  const lastRow = sheet.getLastRow();
+  const numbers = lastRow < 2 ? [] : sheet.getRange(2, column, lastRow - 1, 1).getDisplayValues()
+    .map(row => String(row[0]))
+    .filter(n => n);
+  const settings = readSettingsSheet(ss);
+  const counters = settings[COUNTERS_KEY];
+  return {
+    settings: settings,
+    counters: counters && typeof counters === 'object' ? { ...counters } : {},
+    timeZone: Session.getScriptTimeZone(),
+    numbers: numbers,
+    changed: false
+  };
+}
+
+// La serie anual sale de la fecha de la factura, no del reloj del servidor al sincronizar
+function invoiceYear(record, timeZone) {
+  const date = new Date(record.createdAt);
+  return Utilities.formatDate(isNaN(date.getTime()) ? new Date() : date, timeZone, 'yyyy');
+}
+
+// El número lo pone el servidor: se conserva el ya emitido y se asigna uno nuevo al salir de Borrador
+function numberInvoice(record, current, numbering) {
+  let invoiceNumber = current && current.invoiceNumber ? String(current.invoiceNumber) : '';
+  if (!invoiceNumber && record.status !== DRAFT_STATUS) {
+    invoiceNumber = nextInvoiceNumber(numbering, invoiceYear(record, numbering.timeZone));
+  }
+  return { ...record, invoiceNumber: invoiceNumber };
+}
+
+// El contador de la serie más uno: un número emitido nunca se reutiliza, aunque se borre su
+// factura. Los números en la hoja cuentan también, para series anteriores al contador.
+function nextInvoiceNumber(numbering, year) {
+  const settings = numbering.settings;
+  const yearly = settings.invoiceYearlyReset !== false && settings.invoiceYearlyReset !== 'false';
+  const prefix = settings.invoicePrefix === undefined || settings.invoicePrefix === null ? '' : String(settings.invoicePrefix);
+  const series = prefix + (yearly ? year + '-' : '');
+  let last = safeNumber(numbering.counters[series]);
+  numbering.numbers.forEach(number => {
+    const rest = number.indexOf(series) === 0 ? number.slice(series.length) : '';
+    if (/^\d+$/.test(rest)) last = Math.max(last, parseInt(rest, 10));
+  });
+  numbering.counters[series] = last + 1;
+  numbering.changed = true;
+  return series + String(last + 1).padStart(SEQUENCE_DIGITS, '0');
+}
+
+// Sheets convierte las fechas ISO en Date: se comparan como instantes (tolerancia 1s)
+function sameVersion(a, b) {
+  const emptyA = a === undefined || a === null || a === '';
+  const emptyB = b === undefined || b === null || b === '';
+  if (emptyA || emptyB) return emptyA && emptyB;
+  const ta = a instanceof Date ? a.getTime() : Date.parse(String(a));
+  const tb = b instanceof Date ? b.getTime() : Date.parse(String(b));
+  if (isNaN(ta) || isNaN(tb)) return String(a) === String(b);
+  return Math.abs(ta - tb) < 1000;
+}
+
+// Mapa id -> número de fila (la columna 1 siempre es el id)
+function readRowIndex(sheet) {
+  const index = {};
+  const lastRow = sheet.getLastRow();
+  if (lastRow < 2) return index;
+  const ids = sheet.getRange(2, 1, lastRow - 1, 1).getValues();
+  ids.forEach((row, i) => {
+    if (row[0]) index[String(row[0])] = i + 2;
+  });
+  return index;
+}
+
+function ensureSheet(ss, sheetName, headers) {
+  let sheet = ss.getSheetByName(sheetName);
+  if (!sheet) {
+    sheet = ss.insertSheet(sheetName);
+    sheet.getRange(1, 1, 1, headers.length).setValues([headers]);
+    sheet.getRange(1, 1, 1, headers.length).setFontWeight("bold");
+    sheet.setFrozenRows(1);
+    return sheet;
+  }
+  // Las columnas nuevas siempre se agregan al final, así que basta con reescribir la cabecera
+  const currentHeaders = sheet.getRange(1, 1, 1, headers.length).getValues()[0];
+  if (currentHeaders.some((h, i) => h !== headers[i])) {
+    sheet.getRange(1, 1, 1, headers.length).setValues([headers]);
   }
+  return sheet;
 }
 
-function writeSettingsSheet(ss, settingsObj) {
+function upsertSetting(ss, key, value) {
   let sheet = ss.getSheetByName('Settings');
   if (!sheet) {
     sheet = ss.insertSheet('Settings');
-    sheet.appendRow(['key', 'value']);
-  } else {
-    sheet.clearContents();
-    sheet.appendRow(['key', 'value']);
+    sheet.appendRow(SETTINGS_HEADERS);
   }
-  
-  const rows = Object.entries(settingsObj).map(([k, v]) => [k, v]);
-  if (rows.length > 0) {
-    sheet.getRange(2, 1, rows.length, 2).setValues(rows);
+  const data = sheet.getDataRange().getValues();
+  for (let i = 1; i < data.length; i++) {
+    if (data[i][0] === key) {
+      sheet.getRange(i + 1, 2).setValue(serializeSettingValue(value));
+      return;
+    }
   }
-}
\ No newline at end of file
+  sheet.appendRow([key, serializeSettingValue(value)]);
+}
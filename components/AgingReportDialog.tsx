@@ -0,0 +1,154 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Client, Invoice } from '../types';
+import { StorageService } from '../services/storage';
+import { Button } from './Button';
+import { X, FileDown, ChevronDown, ChevronRight } from 'lucide-react';
+import { InvoiceDetailModal } from './InvoiceDetailModal';
+import { invoiceLabel } from '../services/invoiceNumbers';
+import { AGING_BUCKETS, AgingBasis, agingCsv, agingCsvFileName, buildAgingReport } from '../services/aging';
+
+interface AgingReportDialogProps {
+  onClose: () => void;
+}
+
+const formatUSD = (amount: number) => `$${(amount || 0).toFixed(2)}`;
+
+// Warmer the longer the debt has been waiting
+const BUCKET_COLORS = ['text-slate-700', 'text-amber-600', 'text-orange-600', 'text-red-600'];
+
+const downloadCsv = (content: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const AgingReportDialog: React.FC<AgingReportDialogProps> = ({ onClose }) => {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [basis, setBasis] = useState<AgingBasis>('invoice');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
+
+  useEffect(() => {
+    const load = () => {
+      setInvoices(StorageService.getInvoices());
+      setClients(StorageService.getClients());
+    };
+    load();
+    const unsubscribe = StorageService.subscribe(load);
+    return () => unsubscribe();
+  }, []);
+
+  const report = useMemo(() => buildAgingReport(invoices, clients, basis), [invoices, clients, basis]);
+
+  const selectedClient = selectedInvoice ? clients.find(c => c.id === selectedInvoice.clientId) : undefined;
+
+  const handleExport = () => {
+    downloadCsv(agingCsv(report), agingCsvFileName());
+  };
+
+  const basisButton = (value: AgingBasis, label: string) => (
+    <button
+      onClick={() => setBasis(value)}
+      className={`px-3 py-1 rounded-full border text-xs font-medium ${basis === value ? 'bg-brand text-white border-brand' : 'border-slate-200 text-slate-600 hover:text-brand'}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-5xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <div>
+            <h3 className="font-bold text-slate-800">Antigüedad de Saldos</h3>
+            <p className="text-xs text-slate-500">Deuda pendiente por cliente, de la más vieja a la más reciente.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X size={20} /></button>
+        </div>
+
+        <div className="px-6 py-3 border-b border-slate-100 flex flex-wrap items-center gap-2 text-sm text-slate-600">
+          <span>Contar días desde</span>
+          {basisButton('invoice', 'La factura')}
+          {basisButton('lastPayment', 'El último abono')}
+          <Button size="sm" variant="secondary" onClick={handleExport} disabled={report.rows.length === 0} className="ml-auto flex items-center gap-1">
+            <FileDown size={14} /> Exportar CSV
+          </Button>
+        </div>
+
+        <div className="overflow-auto flex-1">
+          <table className="w-full text-left border-collapse text-sm">
+            <thead className="sticky top-0">
+              <tr className="bg-slate-50 border-b border-slate-200">
+                <th className="px-4 py-3 text-xs font-semibold text-slate-500 uppercase tracking-wider">Cliente</th>
+                {AGING_BUCKETS.map(b => (
+                  <th key={b.label} className="px-4 py-3 text-xs font-semibold text-slate-500 uppercase tracking-wider text-right whitespace-nowrap">{b.label}</th>
+                ))}
+                <th className="px-4 py-3 text-xs font-semibold text-slate-500 uppercase tracking-wider text-right">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {report.rows.map(row => {
+                const isOpen = expanded === row.clientId;
+                return (
+                  <React.Fragment key={row.clientId}>
+                    <tr onClick={() => setExpanded(isOpen ? null : row.clientId)} className="hover:bg-purple-50/50 cursor-pointer">
+                      <td className="px-4 py-3 font-medium text-slate-800">
+                        <span className="flex items-center gap-1">
+                          {isOpen ? <ChevronDown size={14} className="text-slate-400" /> : <ChevronRight size={14} className="text-slate-400" />}
+                          {row.clientName}
+                          <span className="text-xs font-normal text-slate-400 ml-1">({row.invoices.length})</span>
+                        </span>
+                      </td>
+                      {row.buckets.map((amount, i) => (
+                        <td key={i} className={`px-4 py-3 text-right ${amount ? BUCKET_COLORS[i] : 'text-slate-300'}`}>{amount ? formatUSD(amount) : '—'}</td>
+                      ))}
+                      <td className="px-4 py-3 text-right font-bold text-slate-900">{formatUSD(row.total)}</td>
+                    </tr>
+                    {isOpen && row.invoices.map(entry => (
+                      <tr key={entry.invoice.id} onClick={() => setSelectedInvoice(entry.invoice)} className="bg-slate-50/70 hover:bg-purple-50 cursor-pointer text-xs">
+                        <td className="pl-10 pr-4 py-2 text-slate-600">
+                          <span className="font-medium text-slate-700">{invoiceLabel(entry.invoice)}</span>
+                          <span className="ml-2 text-slate-400">
+                            {entry.invoice.status} · {entry.days} días desde {new Date(entry.since).toLocaleDateString()}
+                          </span>
+                        </td>
+                        {AGING_BUCKETS.map((_, i) => (
+                          <td key={i} className={`px-4 py-2 text-right ${BUCKET_COLORS[i]}`}>{i === entry.bucket ? formatUSD(entry.balance) : ''}</td>
+                        ))}
+                        <td className="px-4 py-2 text-right text-slate-500">de {formatUSD(entry.invoice.grandTotalUsd)}</td>
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                );
+              })}
+              {report.rows.length === 0 && (
+                <tr>
+                  <td colSpan={AGING_BUCKETS.length + 2} className="px-4 py-8 text-center text-slate-500">No hay saldos pendientes.</td>
+                </tr>
+              )}
+            </tbody>
+            {report.rows.length > 0 && (
+              <tfoot>
+                <tr className="border-t-2 border-slate-200 font-semibold text-slate-700 bg-white">
+                  <td className="px-4 py-3">Total</td>
+                  {report.buckets.map((amount, i) => (
+                    <td key={i} className={`px-4 py-3 text-right ${BUCKET_COLORS[i]}`}>{formatUSD(amount)}</td>
+                  ))}
+                  <td className="px-4 py-3 text-right text-brand">{formatUSD(report.total)}</td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      </div>
+
+      {selectedInvoice && selectedClient && (
+        <InvoiceDetailModal invoice={selectedInvoice} client={selectedClient} onClose={() => setSelectedInvoice(null)} />
+      )}
+    </div>
+  );
+};
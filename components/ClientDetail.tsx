@@ -0,0 +1,225 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Client, CreditEntry, Invoice, InvoiceStatus } from '../types';
+import { StorageService } from '../services/storage';
+import { Button } from './Button';
+import { ArrowLeft, FileDown, MapPin, Phone, Mail, Wallet, Trash2 } from 'lucide-react';
+import { InvoiceDetailModal } from './InvoiceDetailModal';
+import { CreditEntryDialog } from './CreditEntryDialog';
+import { StatementRange, buildStatement, clientBalance } from '../services/statements';
+import { buildStatementPdf, statementPdfFileName } from '../services/pdf';
+import { creditSign } from '../services/credits';
+
+interface ClientDetailProps {
+  client: Client;
+  onBack: () => void;
+}
+
+const formatUSD = (amount: number) => `$${(amount || 0).toFixed(2)}`;
+
+const toInputDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Date inputs are local days: the range covers them from the first to the last millisecond
+const toRange = (from: string, to: string): StatementRange => ({
+  from: from ? new Date(`${from}T00:00:00`) : undefined,
+  to: to ? new Date(`${to}T23:59:59.999`) : undefined
+});
+
+const rangeLabelOf = (from: string, to: string) => {
+  const show = (date: string) => new Date(`${date}T12:00:00`).toLocaleDateString();
+  if (from && to) return `${show(from)} al ${show(to)}`;
+  if (from) return `Desde ${show(from)}`;
+  if (to) return `Hasta ${show(to)}`;
+  return 'Histórico completo';
+};
+
+export const ClientDetail: React.FC<ClientDetailProps> = ({ client, onBack }) => {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [credits, setCredits] = useState<CreditEntry[]>([]);
+  const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
+  const [showCreditForm, setShowCreditForm] = useState(false);
+
+  useEffect(() => {
+    const load = () => {
+      setInvoices(StorageService.getInvoices().filter(inv => inv.clientId === client.id));
+      setCredits(StorageService.getCredits().filter(c => c.clientId === client.id));
+    };
+    load();
+    const unsubscribe = StorageService.subscribe(load);
+    return () => unsubscribe();
+  }, [client.id]);
+
+  const totals = useMemo(() => clientBalance(invoices, client.id, credits), [invoices, client.id, credits]);
+  const statement = useMemo(
+    () => buildStatement(invoices, client.id, toRange(from, to), credits),
+    [invoices, client.id, from, to, credits]
+  );
+
+  const setPreset = (preset: 'month' | 'year' | 'all') => {
+    const now = new Date();
+    if (preset === 'all') {
+      setFrom('');
+      setTo('');
+      return;
+    }
+    setFrom(toInputDate(preset === 'month' ? new Date(now.getFullYear(), now.getMonth(), 1) : new Date(now.getFullYear(), 0, 1)));
+    setTo(toInputDate(now));
+  };
+
+  const handleDownload = () => {
+    const generatedAt = new Date();
+    const doc = buildStatementPdf({ client, statement, rangeLabel: rangeLabelOf(from, to), generatedAt, credit: totals.credit });
+    doc.save(statementPdfFileName(client, generatedAt));
+  };
+
+  const openInvoice = (id?: string) => {
+    const invoice = id && invoices.find(inv => inv.id === id);
+    if (invoice) setSelectedInvoice(invoice);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div className="flex items-center">
+          <button onClick={onBack} className="mr-4 text-slate-500 hover:text-slate-800">
+            <ArrowLeft size={20} />
+          </button>
+          <div>
+            <h2 className="text-2xl font-bold text-slate-800">{client.name}</h2>
+            <div className="flex flex-wrap gap-x-4 text-sm text-slate-500">
+              <span className="flex items-center"><Phone className="h-3 w-3 mr-1" /> {client.phone}</span>
+              {client.email && <span className="flex items-center"><Mail className="h-3 w-3 mr-1" /> {client.email}</span>}
+              {client.address && <span className="flex items-center"><MapPin className="h-3 w-3 mr-1" /> {client.address}</span>}
+            </div>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={() => setShowCreditForm(true)} className="flex items-center gap-2">
+            <Wallet size={16} /> Saldo a favor
+          </Button>
+          <Button onClick={handleDownload} className="flex items-center gap-2">
+            <FileDown size={16} /> Estado de cuenta PDF
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+          <p className="text-sm font-medium text-slate-500">Total Comprado</p>
+          <h4 className="text-2xl font-bold text-slate-800 mt-1">{formatUSD(totals.bought)}</h4>
+          <p className="text-xs text-slate-400 mt-1">{invoices.filter(inv => inv.status !== InvoiceStatus.DRAFT).length} facturas emitidas</p>
+        </div>
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+          <p className="text-sm font-medium text-slate-500">Total Pagado</p>
+          <h4 className="text-2xl font-bold text-emerald-600 mt-1">{formatUSD(totals.paid)}</h4>
+        </div>
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+          <p className="text-sm font-medium text-slate-500">Debe</p>
+          <h4 className={`text-2xl font-bold mt-1 ${totals.owed > 0.005 ? 'text-red-500' : 'text-emerald-600'}`}>{formatUSD(totals.owed)}</h4>
+        </div>
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+          <p className="text-sm font-medium text-slate-500">Saldo a Favor</p>
+          <h4 className={`text-2xl font-bold mt-1 ${totals.credit > 0.005 ? 'text-blue-600' : 'text-slate-400'}`}>{formatUSD(Math.max(0, totals.credit))}</h4>
+          <p className="text-xs text-slate-400 mt-1">{totals.credit > 0.005 ? 'Se puede usar como abono en sus facturas' : 'Sin saldo a favor'}</p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 flex flex-wrap items-center gap-2 text-sm text-slate-600">
+          <span className="font-semibold text-slate-800 mr-2">Estado de cuenta</span>
+          <span>Desde</span>
+          <input type="date" className="rounded-md border-slate-300 border p-1.5 text-sm focus:ring-brand focus:border-brand" value={from} onChange={e => setFrom(e.target.value)} />
+          <span>hasta</span>
+          <input type="date" className="rounded-md border-slate-300 border p-1.5 text-sm focus:ring-brand focus:border-brand" value={to} onChange={e => setTo(e.target.value)} />
+          <div className="flex gap-1 ml-auto">
+            <button onClick={() => setPreset('month')} className="px-3 py-1 rounded-full border border-slate-200 hover:text-brand">Este mes</button>
+            <button onClick={() => setPreset('year')} className="px-3 py-1 rounded-full border border-slate-200 hover:text-brand">Este año</button>
+            <button onClick={() => setPreset('all')} className="px-3 py-1 rounded-full border border-slate-200 hover:text-brand">Todo</button>
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse text-sm">
+            <thead>
+              <tr className="bg-slate-50 border-b border-slate-200">
+                <th className="px-6 py-3 text-xs font-semibold text-slate-500 uppercase tracking-wider">Fecha</th>
+                <th className="px-6 py-3 text-xs font-semibold text-slate-500 uppercase tracking-wider">Concepto</th>
+                <th className="px-6 py-3 text-xs font-semibold text-slate-500 uppercase tracking-wider text-right">Cargo</th>
+                <th className="px-6 py-3 text-xs font-semibold text-slate-500 uppercase tracking-wider text-right">Abono</th>
+                <th className="px-6 py-3 text-xs font-semibold text-slate-500 uppercase tracking-wider text-right">Saldo</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              <tr className="bg-slate-50/50 text-slate-500">
+                <td className="px-6 py-2"></td>
+                <td className="px-6 py-2 italic">Saldo anterior</td>
+                <td className="px-6 py-2"></td>
+                <td className="px-6 py-2"></td>
+                <td className="px-6 py-2 text-right font-medium">{formatUSD(statement.openingBalance)}</td>
+              </tr>
+              {statement.entries.map((entry, index) => (
+                <tr key={index} onClick={() => openInvoice(entry.invoiceId)} className={entry.invoiceId ? 'hover:bg-purple-50/50 cursor-pointer' : ''}>
+                  <td className="px-6 py-2 text-slate-600 whitespace-nowrap">{new Date(entry.date).toLocaleDateString()}</td>
+                  <td className={`px-6 py-2 ${entry.kind === 'invoice' ? 'font-medium text-slate-800' : entry.kind === 'credit' ? 'text-blue-700' : 'text-slate-600'}`}>{entry.description}</td>
+                  <td className="px-6 py-2 text-right text-slate-800">{entry.charge ? formatUSD(entry.charge) : ''}</td>
+                  <td className="px-6 py-2 text-right text-emerald-600">{entry.credit ? formatUSD(entry.credit) : ''}</td>
+                  <td className="px-6 py-2 text-right font-bold text-slate-900">{formatUSD(entry.balance)}</td>
+                </tr>
+              ))}
+              {statement.entries.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-slate-500">Sin movimientos en este periodo.</td>
+                </tr>
+              )}
+            </tbody>
+            <tfoot>
+              <tr className="border-t-2 border-slate-200 font-semibold text-slate-700">
+                <td className="px-6 py-3" colSpan={2}>Totales del periodo</td>
+                <td className="px-6 py-3 text-right">{formatUSD(statement.charged)}</td>
+                <td className="px-6 py-3 text-right text-emerald-600">{formatUSD(statement.paid)}</td>
+                <td className="px-6 py-3 text-right text-brand">{formatUSD(statement.closingBalance)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      </div>
+
+      {credits.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-200 font-semibold text-slate-800">Movimientos de saldo a favor</div>
+          <ul className="divide-y divide-slate-100 text-sm">
+            {credits.map(c => (
+              <li key={c.id} className="px-6 py-2 flex items-center justify-between gap-4">
+                <div>
+                  <span className="font-medium text-slate-700">{c.kind}</span>
+                  <span className="text-slate-500"> · {new Date(c.date).toLocaleDateString()}{c.method && ` · ${c.method}`}{c.notes && ` · ${c.notes}`}</span>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className={`font-bold ${creditSign(c.kind) < 0 ? 'text-red-500' : 'text-blue-600'}`}>
+                    {creditSign(c.kind) < 0 ? '-' : '+'}{formatUSD(c.amountUsd)}
+                  </span>
+                  <button
+                    onClick={() => confirm('¿Eliminar este movimiento de saldo a favor?') && StorageService.deleteCredit(c.id)}
+                    className="text-slate-300 hover:text-red-500"
+                    title="Eliminar"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {showCreditForm && (
+        <CreditEntryDialog client={client} invoices={invoices} onClose={() => setShowCreditForm(false)} />
+      )}
+
+      {selectedInvoice && (
+        <InvoiceDetailModal invoice={selectedInvoice} client={client} onClose={() => setSelectedInvoice(null)} />
+      )}
+    </div>
+  );
+};
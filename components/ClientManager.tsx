@@ -1,11 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { Client } from '../types';
+import { Client, CreditEntry, Invoice } from '../types';
 import { StorageService } from '../services/storage';
 import { Button } from './Button';
 import { Search, Plus, Trash2, Edit2, MapPin, Phone } from 'lucide-react';
+import { ClientDetail } from './ClientDetail';
+import { clientBalance } from '../services/statements';
+import { parseTerm } from '../services/dueDates';
 
 export const ClientManager: React.FC = () => {
   const [clients, setClients] = useState<Client[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [credits, setCredits] = useState<CreditEntry[]>([]);
+  const [selectedClientId, setSelectedClientId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingClient, setEditingClient] = useState<Client | null>(null);
@@ -23,6 +29,8 @@ export const ClientManager: React.FC = () => {
 
   const refreshClients = () => {
     setClients(StorageService.getClients());
+    setInvoices(StorageService.getInvoices());
+    setCredits(StorageService.getCredits());
   };
 
   const handleOpenModal = (client?: Client) => {
@@ -48,7 +56,8 @@ export const ClientManager: React.FC = () => {
       email: formData.email || '',
       phone: formData.phone,
       address: formData.address || '',
-      notes: formData.notes || ''
+      notes: formData.notes || '',
+      paymentTermDays: formData.paymentTermDays
     } as Client;
 
     await StorageService.saveClient(clientToSave);
@@ -69,6 +78,11 @@ export const ClientManager: React.FC = () => {
     c.phone.includes(searchTerm)
   );
 
+  const selectedClient = clients.find(c => c.id === selectedClientId);
+  if (selectedClient) {
+    return <ClientDetail client={selectedClient} onBack={() => setSelectedClientId(null)} />;
+  }
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -92,8 +106,10 @@ export const ClientManager: React.FC = () => {
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {filteredClients.map(client => (
-          <div key={client.id} className="bg-white p-5 rounded-lg shadow-sm border border-slate-200 hover:shadow-md transition-shadow">
+        {filteredClients.map(client => {
+          const { owed, credit } = clientBalance(invoices, client.id, credits);
+          return (
+          <div key={client.id} onClick={() => setSelectedClientId(client.id)} className="bg-white p-5 rounded-lg shadow-sm border border-slate-200 hover:shadow-md transition-shadow cursor-pointer">
             <div className="flex justify-between items-start">
               <div>
                 <h3 className="font-bold text-slate-800 text-lg">{client.name}</h3>
@@ -103,8 +119,10 @@ export const ClientManager: React.FC = () => {
                 <p className="text-slate-500 text-sm mt-1 flex items-center">
                   <MapPin className="h-3 w-3 mr-1" /> {client.address || 'Sin dirección'}
                 </p>
+                {owed > 0.005 && <p className="text-sm font-semibold text-red-500 mt-2">Debe ${owed.toFixed(2)}</p>}
+                {credit > 0.005 && <p className="text-sm font-semibold text-blue-600 mt-1">Saldo a favor ${credit.toFixed(2)}</p>}
               </div>
-              <div className="flex space-x-2">
+              <div className="flex space-x-2" onClick={e => e.stopPropagation()}>
                 <button onClick={() => handleOpenModal(client)} className="p-1 text-brand hover:bg-purple-50 rounded">
                   <Edit2 size={16} />
                 </button>
@@ -114,7 +132,7 @@ export const ClientManager: React.FC = () => {
               </div>
             </div>
           </div>
-        ))}
+        )})}
       </div>
 
       {/* Modal */}
@@ -159,6 +177,17 @@ export const ClientManager: React.FC = () => {
                   onChange={e => setFormData({...formData, address: e.target.value})}
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700">Días de crédito</label>
+                <input
+                  type="number" min="0"
+                  className="mt-1 block w-full rounded-md border-slate-300 shadow-sm focus:border-brand focus:ring-brand border p-2"
+                  placeholder={`${StorageService.getDefaultPaymentTerm()} (general)`}
+                  value={typeof formData.paymentTermDays === 'number' ? formData.paymentTermDays : ''}
+                  onChange={e => setFormData({...formData, paymentTermDays: parseTerm(e.target.value)})}
+                />
+                <p className="mt-1 text-xs text-slate-500">Vacío: usa el plazo general. Cada factura puede cambiarlo.</p>
+              </div>
               <div className="flex justify-end gap-3 pt-4">
                 <Button variant="secondary" type="button" onClick={() => setIsModalOpen(false)} disabled={isSaving}>Cancelar</Button>
                 <Button type="submit" isLoading={isSaving}>{isSaving ? 'Guardando...' : 'Guardar'}</Button>
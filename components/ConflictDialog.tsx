@@ -0,0 +1,252 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, GitMerge, Smartphone, Cloud } from 'lucide-react';
+import { StorageService } from '../services/storage';
+import { SyncConflict } from '../services/changeSet';
+import { Button } from './Button';
+
+interface ConflictDialogProps {
+  onClose: () => void;
+}
+
+const ENTITY_LABELS: Record<string, string> = {
+  clients: 'Cliente',
+  invoices: 'Factura',
+  expenses: 'Gasto',
+  exchangeRates: 'Tasa de cambio',
+  shipments: 'Envío consolidado',
+  quotes: 'Cotización',
+  reminders: 'Recordatorio de cobro',
+  credits: 'Saldo a favor',
+  settings: 'Configuración'
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Nombre',
+  phone: 'Teléfono',
+  email: 'Email',
+  address: 'Dirección',
+  notes: 'Notas',
+  clientId: 'Cliente',
+  createdAt: 'Fecha',
+  status: 'Estado',
+  invoiceNumber: 'Número',
+  exchangeRate: 'Tasa de Cambio',
+  logisticsCost: 'Logística',
+  payments: 'Abonos',
+  grandTotalUsd: 'Total (USD)',
+  items: 'Productos',
+  description: 'Descripción',
+  amount: 'Monto',
+  category: 'Categoría',
+  date: 'Fecha',
+  rate: 'Tasa',
+  source: 'Fuente',
+  guideNumber: 'Guía',
+  carrier: 'Transportista',
+  shipDate: 'Fecha de salida',
+  arrivalDate: 'Fecha de llegada',
+  totalWeightKg: 'Peso total (kg)',
+  freightCost: 'Flete real',
+  validUntil: 'Válida hasta',
+  invoiceId: 'Factura generada',
+  shareToken: 'Enlace público',
+  paymentTermDays: 'Días de crédito',
+  sentAt: 'Enviado',
+  channel: 'Medio',
+  message: 'Mensaje',
+  invoiceIds: 'Facturas',
+  kind: 'Tipo',
+  currency: 'Moneda',
+  amountUsd: 'Monto (USD)',
+  method: 'Método'
+};
+
+// Bookkeeping or derived fields: never offered as a choice
+const HIDDEN_FIELDS = ['id', 'updatedAt', 'amountPaid', 'totalProductCost', 'totalProductSale', 'totalCommissions', 'publicView'];
+
+const sameValue = (a: any, b: any) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export const ConflictDialog: React.FC<ConflictDialogProps> = ({ onClose }) => {
+  const [conflicts, setConflicts] = useState<SyncConflict[]>(StorageService.getConflicts());
+  // Field -> which version wins in the merged record
+  const [choices, setChoices] = useState<Record<string, 'local' | 'remote'>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = StorageService.subscribe(() => setConflicts(StorageService.getConflicts()));
+    return () => unsubscribe();
+  }, []);
+
+  const current = conflicts[0];
+
+  useEffect(() => {
+    setChoices({});
+    if (!current) onClose();
+  }, [current?.entity, current?.id]);
+
+  const fields = useMemo(() => {
+    if (!current) return [];
+    const keys = new Set([...Object.keys(current.local || {}), ...Object.keys(current.remote || {})]);
+    return Array.from(keys).filter(k => !HIDDEN_FIELDS.includes(k));
+  }, [current]);
+
+  if (!current) return null;
+
+  const clients = StorageService.getClients();
+
+  const formatValue = (field: string, value: any): string => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (field === 'items' && Array.isArray(value)) {
+      return `${value.length} productos: ${value.map((i: any) => i.name).filter(Boolean).join(', ')}`;
+    }
+    if (field === 'payments' && Array.isArray(value)) {
+      const total = value.reduce((acc: number, p: any) => acc + (p.amountUsd || 0), 0);
+      return `${value.length} abonos: $${total.toFixed(2)}`;
+    }
+    if (field === 'clientId') return clients.find(c => c.id === value)?.name || String(value);
+    if (field === 'invoiceIds' && Array.isArray(value)) return `${value.length} facturas`;
+    if (field === 'paymentTermDays') return `${value} días`;
+    if ((field === 'createdAt' || field === 'date' || field === 'sentAt') && !isNaN(Date.parse(value))) {
+      return new Date(value).toLocaleDateString();
+    }
+    if (typeof value === 'number') return value.toFixed(2);
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  };
+
+  const describe = (record: Record<string, any> | null) => {
+    if (!record) return 'Eliminado';
+    if (current.entity === 'invoices' || current.entity === 'quotes') {
+      return `${formatValue('clientId', record.clientId)} · ${formatValue('createdAt', record.createdAt)}`;
+    }
+    if (current.entity === 'reminders') {
+      return `${formatValue('clientId', record.clientId)} · ${formatValue('sentAt', record.sentAt)}`;
+    }
+    if (current.entity === 'credits') {
+      return `${formatValue('clientId', record.clientId)} · ${record.kind} · ${formatValue('date', record.date)}`;
+    }
+    return record.name || record.description || current.id;
+  };
+
+  const formatStamp = (record: Record<string, any> | null) =>
+    record?.updatedAt ? new Date(record.updatedAt).toLocaleString() : 'sin fecha';
+
+  const bothExist = !!current.local && !!current.remote;
+
+  const resolve = async (resolved: Record<string, any> | null) => {
+    setIsSaving(true);
+    try {
+      await StorageService.resolveConflict(current.entity, current.id, resolved);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMerge = () => {
+    if (!current.local || !current.remote) return;
+    const merged: Record<string, any> = { ...current.remote };
+    fields.forEach(f => {
+      if ((choices[f] || 'local') === 'local') merged[f] = current.local![f];
+    });
+    resolve(merged);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl flex flex-col max-h-[90vh]">
+        <div className="flex justify-between items-center p-6 border-b border-slate-100">
+          <div>
+            <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+              <GitMerge className="h-5 w-5 text-orange-500" />
+              Conflicto de sincronización
+            </h2>
+            <p className="text-sm text-slate-500">
+              {ENTITY_LABELS[current.entity]}: {describe(current.local || current.remote)}
+              {conflicts.length > 1 && ` · ${conflicts.length - 1} más pendientes`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 transition-colors p-1 rounded-md hover:bg-slate-100">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 p-6 bg-slate-50/50">
+          <p className="text-sm text-slate-600 mb-4">
+            Otro dispositivo modificó este registro mientras lo editabas aquí. Elige qué versión conservar
+            {bothExist && ' o combina campo por campo'}.
+          </p>
+
+          <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 border-b border-slate-200">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-slate-500">Campo</th>
+                  <th className="px-4 py-3 text-left font-medium text-slate-500">
+                    <span className="flex items-center gap-1"><Smartphone size={14} /> Este dispositivo</span>
+                    <span className="block text-[10px] font-normal text-slate-400">{formatStamp(current.local)}</span>
+                  </th>
+                  <th className="px-4 py-3 text-left font-medium text-slate-500">
+                    <span className="flex items-center gap-1"><Cloud size={14} /> Otro dispositivo</span>
+                    <span className="block text-[10px] font-normal text-slate-400">{formatStamp(current.remote)}</span>
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {!bothExist && (
+                  <tr>
+                    <td colSpan={3} className="px-4 py-3 text-center text-orange-600 font-medium">
+                      {current.local ? 'El otro dispositivo eliminó este registro.' : 'Eliminaste este registro, pero el otro dispositivo lo modificó.'}
+                    </td>
+                  </tr>
+                )}
+                {fields.map(field => {
+                  const localVal = current.local?.[field];
+                  const remoteVal = current.remote?.[field];
+                  const differs = !sameValue(localVal, remoteVal);
+                  const choice = choices[field] || 'local';
+                  return (
+                    <tr key={field} className={differs ? 'bg-orange-50/40' : ''}>
+                      <td className="px-4 py-3 font-medium text-slate-700 align-top">{FIELD_LABELS[field] || field}</td>
+                      {(['local', 'remote'] as const).map(side => (
+                        <td key={side} className="px-4 py-3 text-slate-600 align-top">
+                          <label className={`flex items-start gap-2 ${differs && bothExist ? 'cursor-pointer' : ''}`}>
+                            {differs && bothExist && (
+                              <input
+                                type="radio"
+                                className="mt-1 text-brand focus:ring-brand"
+                                name={`field-${field}`}
+                                checked={choice === side}
+                                onChange={() => setChoices({ ...choices, [field]: side })}
+                              />
+                            )}
+                            <span className={differs ? 'font-semibold text-slate-800' : ''}>
+                              {formatValue(field, side === 'local' ? localVal : remoteVal)}
+                            </span>
+                          </label>
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-2 p-4 border-t border-slate-100">
+          <Button variant="secondary" onClick={() => resolve(current.remote)} disabled={isSaving}>
+            Usar la del otro dispositivo
+          </Button>
+          <Button variant="secondary" onClick={() => resolve(current.local)} disabled={isSaving}>
+            Conservar la mía
+          </Button>
+          {bothExist && (
+            <Button onClick={handleMerge} isLoading={isSaving}>
+              Guardar combinación
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
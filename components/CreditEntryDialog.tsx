@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { Client, CreditKind, Currency, Invoice, InvoiceStatus, PaymentMethod } from '../types';
+import { StorageService } from '../services/storage';
+import { Button } from './Button';
+import { X } from 'lucide-react';
+import { createCreditEntry } from '../services/credits';
+import { toUsd } from '../services/payments';
+import { invoiceLabel } from '../services/invoiceNumbers';
+
+interface CreditEntryDialogProps {
+  client: Client;
+  invoices: Invoice[]; // The client's
+  onClose: () => void;
+}
+
+const today = () => {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+// Stored at local noon: UTC midnight would show as the previous day west of Greenwich
+const fromInputDate = (date: string) => new Date(`${date}T12:00:00`).toISOString();
+
+const KIND_HINTS: Record<CreditKind, string> = {
+  [CreditKind.PREPAYMENT]: 'Dinero recibido antes de facturar. Se usa luego como abono en sus facturas.',
+  [CreditKind.REFUND]: 'Producto cancelado o devuelto: el cliente queda con ese monto a favor.',
+  [CreditKind.PAYOUT]: 'Se le devuelve dinero al cliente de su saldo a favor.'
+};
+
+export const CreditEntryDialog: React.FC<CreditEntryDialogProps> = ({ client, invoices, onClose }) => {
+  const [kind, setKind] = useState<CreditKind>(CreditKind.PREPAYMENT);
+  const [amount, setAmount] = useState(0);
+  const [currency, setCurrency] = useState<Currency>('USD');
+  const [rate, setRate] = useState(() => StorageService.getRateForDate(today()));
+  const [method, setMethod] = useState<PaymentMethod>(PaymentMethod.ZELLE);
+  const [date, setDate] = useState(today());
+  const [invoiceId, setInvoiceId] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const available = StorageService.getClientCredit(client.id);
+  const amountUsd = toUsd(amount, currency, rate);
+  const movesMoney = kind !== CreditKind.REFUND;
+
+  const changeDate = (next: string) => {
+    setDate(next);
+    if (next) setRate(StorageService.getRateForDate(next));
+  };
+
+  const handleSave = async () => {
+    if (!amount || amount <= 0) {
+      alert("Ingrese un monto válido");
+      return;
+    }
+    if (currency === 'Bs' && (!rate || rate <= 0)) {
+      alert("Ingrese la tasa del día");
+      return;
+    }
+    if (kind === CreditKind.PAYOUT && amountUsd > available + 0.005) {
+      alert(`El cliente solo tiene $${Math.max(0, available).toFixed(2)} de saldo a favor`);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await StorageService.saveCredit(createCreditEntry({
+        clientId: client.id,
+        date: fromInputDate(date),
+        kind,
+        amount,
+        currency,
+        exchangeRate: rate,
+        method: movesMoney ? method : undefined,
+        invoiceId: kind === CreditKind.REFUND && invoiceId ? invoiceId : undefined,
+        notes: notes.trim() || undefined
+      }));
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = "w-full rounded-md border-slate-300 border p-2 text-sm focus:ring-brand focus:border-brand";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-md overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <div>
+            <h3 className="font-bold text-slate-800">Saldo a favor</h3>
+            <p className="text-xs text-slate-500">{client.name} · disponible ${Math.max(0, available).toFixed(2)}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X size={20} /></button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <div className="flex gap-2">
+              {Object.values(CreditKind).map(k => (
+                <button
+                  key={k}
+                  type="button"
+                  onClick={() => setKind(k)}
+                  className={`flex-1 px-3 py-1.5 rounded-full border text-xs font-medium ${kind === k ? 'bg-brand text-white border-brand' : 'border-slate-200 text-slate-600 hover:text-brand'}`}
+                >
+                  {k}
+                </button>
+              ))}
+            </div>
+            <p className="mt-2 text-xs text-slate-500">{KIND_HINTS[kind]}</p>
+          </div>
+
+          <div className="flex gap-2">
+            <input
+              type="number"
+              step="0.01"
+              className={inputClass}
+              value={amount}
+              onChange={e => setAmount(parseFloat(e.target.value) || 0)}
+            />
+            <select className="rounded-md border-slate-300 border p-2 text-sm" value={currency} onChange={e => setCurrency(e.target.value as Currency)}>
+              <option value="USD">USD</option>
+              <option value="Bs">Bs</option>
+            </select>
+          </div>
+          {currency === 'Bs' && (
+            <label className="flex items-center justify-between gap-2 text-sm text-slate-500">
+              Tasa (Bs/USD) · = ${amountUsd.toFixed(2)}
+              <input type="number" step="0.01" className="w-28 text-right rounded-md border-slate-300 border p-1.5 text-sm" value={rate} onChange={e => setRate(parseFloat(e.target.value) || 0)} />
+            </label>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            {movesMoney ? (
+              <select className={inputClass} value={method} onChange={e => setMethod(e.target.value as PaymentMethod)}>
+                {Object.values(PaymentMethod).filter(m => m !== PaymentMethod.CREDIT).map(m => <option key={m} value={m}>{m}</option>)}
+              </select>
+            ) : (
+              <select className={inputClass} value={invoiceId} onChange={e => setInvoiceId(e.target.value)}>
+                <option value="">Sin factura</option>
+                {invoices.filter(inv => inv.status !== InvoiceStatus.DRAFT).map(inv => (
+                  <option key={inv.id} value={inv.id}>{invoiceLabel(inv)}</option>
+                ))}
+              </select>
+            )}
+            <input type="date" className={inputClass} value={date} onChange={e => changeDate(e.target.value)} />
+          </div>
+
+          <input
+            type="text"
+            className={inputClass}
+            placeholder={kind === CreditKind.REFUND ? 'Motivo (producto cancelado, devolución...)' : 'Referencia o nota (opcional)'}
+            value={notes}
+            onChange={e => setNotes(e.target.value)}
+          />
+
+          <div className="flex justify-end gap-3 pt-2">
+            <Button variant="secondary" onClick={onClose} disabled={isSaving}>Cancelar</Button>
+            <Button onClick={handleSave} isLoading={isSaving}>Registrar</Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,18 +1,27 @@
 import React, { useMemo, useState, useEffect } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
-import { Invoice, InvoiceStatus, Expense, Client } from '../types';
+import { Invoice, InvoiceStatus, Expense, Client, Quote, CreditEntry, CreditKind } from '../types';
 import { StorageService } from '../services/storage';
 import { GeminiService } from '../services/geminiService';
-import { DollarSign, TrendingUp, Package, AlertCircle, Sparkles, Settings, X, Calendar, FileDown, TrendingDown, Percent } from 'lucide-react';
+import { DollarSign, TrendingUp, Package, AlertCircle, Sparkles, Settings, X, Calendar, FileDown, TrendingDown, Percent, ClipboardList, Wallet } from 'lucide-react';
 import { Button } from './Button';
+import { ExchangeRateHistory } from './ExchangeRateHistory';
+import { TariffRulesEditor } from './TariffRulesEditor';
+import { ShippingRatesEditor } from './ShippingRatesEditor';
+import { InvoiceNumberingEditor } from './InvoiceNumberingEditor';
+import { AgingReportDialog } from './AgingReportDialog';
+import { quoteStats } from '../services/quotes';
+import { buildReportPdf, reportPdfFileName } from '../services/pdf';
+import { cashPaidUsd, creditSign, totalClientCredit } from '../services/credits';
 
 type TimeRange = 'week' | 'month' | 'year' | 'all';
 
 export const Dashboard: React.FC = () => {
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [credits, setCredits] = useState<CreditEntry[]>([]);
   const [exchangeRate, setExchangeRate] = useState<number>(0);
-  const [pricePerKg, setPricePerKg] = useState<number>(0);
   const [geminiAnalysis, setGeminiAnalysis] = useState<string>('');
   const [loadingAi, setLoadingAi] = useState(false);
   
@@ -20,15 +29,20 @@ export const Dashboard: React.FC = () => {
   const [timeRange, setTimeRange] = useState<TimeRange>('month');
 
   // State for Settings Modal
-  const [editModal, setEditModal] = useState<{ type: 'rate' | 'price'; value: string } | null>(null);
+  const [editModal, setEditModal] = useState<{ type: 'rate'; value: string } | null>(null);
   const [isSavingSetting, setIsSavingSetting] = useState(false);
+  const [showTariffs, setShowTariffs] = useState(false);
+  const [showShippingRates, setShowShippingRates] = useState(false);
+  const [showNumbering, setShowNumbering] = useState(false);
+  const [showAging, setShowAging] = useState(false);
 
   // Helper to load all data from storage
   const loadData = () => {
       setInvoices(StorageService.getInvoices());
       setExpenses(StorageService.getExpenses());
+      setQuotes(StorageService.getQuotes());
+      setCredits(StorageService.getCredits());
       setExchangeRate(StorageService.getExchangeRate());
-      setPricePerKg(StorageService.getPricePerKg());
   };
 
   useEffect(() => {
@@ -38,7 +52,7 @@ export const Dashboard: React.FC = () => {
   }, []);
 
   // --- Date Filtering Logic ---
-  const { filteredInvoices, filteredExpenses } = useMemo(() => {
+  const { filteredInvoices, filteredExpenses, filteredQuotes, filteredCredits } = useMemo(() => {
     const now = new Date();
     let startDate = new Date(0); // Epoch for 'all'
 
@@ -53,9 +67,16 @@ export const Dashboard: React.FC = () => {
 
     const fInvoices = invoices.filter(inv => new Date(inv.createdAt) >= startDate);
     const fExpenses = expenses.filter(exp => new Date(exp.date) >= startDate);
+    const fQuotes = quotes.filter(q => new Date(q.createdAt) >= startDate);
+    const fCredits = credits.filter(c => new Date(c.date) >= startDate);
 
-    return { filteredInvoices: fInvoices, filteredExpenses: fExpenses };
-  }, [invoices, expenses, timeRange]);
+    return { filteredInvoices: fInvoices, filteredExpenses: fExpenses, filteredQuotes: fQuotes, filteredCredits: fCredits };
+  }, [invoices, expenses, quotes, credits, timeRange]);
+
+  // Saldo a favor is owed to clients whatever the period: a liability, not income
+  const creditLiability = useMemo(() => totalClientCredit(invoices, credits), [invoices, credits]);
+
+  const conversion = useMemo(() => quoteStats(filteredQuotes), [filteredQuotes]);
 
   const stats = useMemo(() => {
     let revenue = 0; // Dinero Recibido (Only from Allowed Statuses)
@@ -77,14 +98,10 @@ export const Dashboard: React.FC = () => {
       pending += remaining;
 
       if (FINANCIALLY_ACTIVE_STATUSES.includes(inv.status)) {
-         revenue += amountPaid;
+         // Abonos paid from saldo a favor were counted when that money came in
+         revenue += cashPaidUsd(inv.payments);
 
-         const invItems = inv.items || [];
-         const theoreticalProfit = invItems.reduce((acc, item) => {
-            // NEW FORMULA: Venta + Comisión - (Costo - Impuesto)
-            const unitGain = (item.finalPrice || 0) + (item.commission || 0) - ((item.originalPrice || 0) - (item.taxes || 0));
-            return acc + (unitGain * (item.quantity || 0));
-         }, 0);
+         const theoreticalProfit = StorageService.getInvoiceBreakdown(inv).profit;
 
          // Calculate realized profit based on % paid
          const percentPaid = grandTotal > 0 ? (amountPaid / grandTotal) : 0;
@@ -92,6 +109,11 @@ export const Dashboard: React.FC = () => {
       }
     });
 
+    // Anticipos are money in, devoluciones money out; notas de crédito move no money
+    filteredCredits.forEach(c => {
+      if (c.kind !== CreditKind.REFUND) revenue += creditSign(c.kind) * (c.amountUsd || 0);
+    });
+
     // 2. Calculate Expenses
     const totalExpenses = filteredExpenses.reduce((acc, exp) => acc + exp.amount, 0);
 
@@ -102,7 +124,7 @@ export const Dashboard: React.FC = () => {
     const profitMargin = revenue > 0 ? (netProfit / revenue) * 100 : 0;
 
     return { revenue, grossProfit, netProfit, pending, count, totalExpenses, profitMargin };
-  }, [filteredInvoices, filteredExpenses]);
+  }, [filteredInvoices, filteredExpenses, filteredCredits]);
 
   const chartData = useMemo(() => {
     const data: Record<string, number> = {};
@@ -125,7 +147,7 @@ export const Dashboard: React.FC = () => {
                 key = `${date.getMonth() + 1}/${date.getFullYear()}`;
             }
             
-            data[key] = (data[key] || 0) + (inv.amountPaid || 0);
+            data[key] = (data[key] || 0) + cashPaidUsd(inv.payments);
         }
     });
 
@@ -143,160 +165,28 @@ export const Dashboard: React.FC = () => {
 
   // --- PDF Export Logic ---
   const handlePrintReport = () => {
-    const printWindow = window.open('', '_blank');
-    if (!printWindow) return;
-
     const clients = StorageService.getClients();
-    const getClientName = (id: string) => clients.find(c => c.id === id)?.name || 'Cliente Desconocido';
-
     const rangeLabels: Record<TimeRange, string> = {
         week: 'Últimos 7 Días',
         month: 'Mes Actual',
         year: 'Año Actual',
         all: 'Histórico Completo'
     };
-
-    // Generate Invoices Rows
-    const invoiceRows = filteredInvoices
-        .filter(inv => inv.status !== InvoiceStatus.DRAFT)
-        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-        .map(inv => `
-            <tr>
-                <td>${new Date(inv.createdAt).toLocaleDateString()}</td>
-                <td>${getClientName(inv.clientId)}</td>
-                <td style="text-align: center;"><span class="badge">${inv.status}</span></td>
-                <td style="text-align: right;">$${(inv.amountPaid || 0).toFixed(2)}</td>
-                <td style="text-align: right; font-weight: bold;">$${(inv.grandTotalUsd || 0).toFixed(2)}</td>
-            </tr>
-        `).join('');
-
-    // Generate Expense Rows
-    const expenseRows = filteredExpenses
-        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-        .map(exp => `
-            <tr>
-                <td>${new Date(exp.date).toLocaleDateString()}</td>
-                <td>${exp.description}</td>
-                <td>${exp.category}</td>
-                <td style="text-align: right; font-weight: bold; color: #dc2626;">$${(exp.amount || 0).toFixed(2)}</td>
-            </tr>
-        `).join('');
-
-    const html = `
-      <html>
-        <head>
-          <title>Reporte Financiero - KASSTYLE</title>
-          <style>
-             body { font-family: 'Helvetica Neue', Helvetica, Arial, sans-serif; padding: 40px; color: #333; line-height: 1.5; }
-             .header { text-align: center; margin-bottom: 40px; border-bottom: 2px solid #3e136b; padding-bottom: 20px; }
-             .title { font-size: 28px; font-weight: bold; color: #3e136b; }
-             .subtitle { font-size: 14px; color: #666; margin-top: 5px; }
-             .period { background: #f3f4f6; padding: 10px; text-align: center; font-weight: bold; border-radius: 8px; margin-bottom: 30px; }
-             .grid { display: grid; grid-template-columns: 1fr 1fr; gap: 20px; margin-bottom: 40px; }
-             .card { border: 1px solid #ddd; padding: 20px; border-radius: 8px; text-align: center; }
-             .card-title { font-size: 11px; text-transform: uppercase; color: #666; font-weight: bold; }
-             .card-value { font-size: 24px; font-weight: bold; margin-top: 5px; color: #111; }
-             
-             h3 { border-bottom: 1px solid #3e136b; padding-bottom: 8px; margin-top: 40px; color: #3e136b; font-size: 18px; }
-             
-             table { width: 100%; border-collapse: collapse; margin-top: 15px; font-size: 12px; }
-             th { background: #f8fafc; text-align: left; padding: 10px; border-bottom: 2px solid #e2e8f0; color: #64748b; text-transform: uppercase; }
-             td { padding: 10px; border-bottom: 1px solid #f1f5f9; vertical-align: middle; }
-             
-             .badge { background: #f1f5f9; padding: 2px 6px; border-radius: 4px; font-size: 10px; font-weight: bold; border: 1px solid #e2e8f0; }
-             
-             .footer { margin-top: 50px; text-align: center; font-size: 12px; color: #999; border-top: 1px solid #eee; padding-top: 20px; }
-             
-             @media print {
-                h3 { page-break-after: avoid; }
-                table { page-break-inside: auto; }
-                tr { page-break-inside: avoid; page-break-after: auto; }
-             }
-          </style>
-        </head>
-        <body>
-          <div class="header">
-            <div class="title">KASSTYLE Manager</div>
-            <div class="subtitle">Reporte Consolidado de Desempeño Financiero</div>
-          </div>
-
-          <div class="period">
-             Periodo: ${rangeLabels[timeRange]}
-             <br/>
-             <span style="font-size: 11px; font-weight: normal; color: #666">Generado el: ${new Date().toLocaleDateString()} a las ${new Date().toLocaleTimeString()}</span>
-          </div>
-
-          <div class="grid">
-             <div class="card">
-                <div class="card-title">Dinero Recibido</div>
-                <div class="card-value">$${stats.revenue.toFixed(2)}</div>
-             </div>
-             <div class="card">
-                <div class="card-title">Gastos Operativos</div>
-                <div class="card-value" style="color: #dc2626;">-$${stats.totalExpenses.toFixed(2)}</div>
-             </div>
-             <div class="card">
-                <div class="card-title">Utilidad Neta Real</div>
-                <div class="card-value" style="color: ${stats.netProfit >= 0 ? '#10b981' : '#dc2626'};">$${stats.netProfit.toFixed(2)}</div>
-             </div>
-             <div class="card">
-                <div class="card-title">Margen de Ganancia</div>
-                <div class="card-value" style="color: ${stats.profitMargin > 15 ? '#10b981' : '#f59e0b'};">${stats.profitMargin.toFixed(1)}%</div>
-             </div>
-          </div>
-
-          <h3 style="margin-top: 20px;">Análisis de Resultados</h3>
-          <p style="font-size: 13px;">
-            Durante el periodo <strong>${rangeLabels[timeRange]}</strong>, la operación generó ingresos reales por cobranza de <strong>$${stats.revenue.toFixed(2)}</strong>. 
-            Se registraron gastos operativos por <strong>$${stats.totalExpenses.toFixed(2)}</strong>, dejando una <strong>Utilidad Neta de $${stats.netProfit.toFixed(2)}</strong>. 
-            El rendimiento sobre ingresos es del <strong>${stats.profitMargin.toFixed(1)}%</strong>. Actualmente existe una cartera pendiente por cobrar de <strong>$${stats.pending.toFixed(2)}</strong>.
-          </p>
-
-          <h3>Detalle de Ingresos (Facturación)</h3>
-          <table>
-            <thead>
-              <tr>
-                <th>Fecha</th>
-                <th>Cliente</th>
-                <th style="text-align: center;">Estado</th>
-                <th style="text-align: right;">Abonado</th>
-                <th style="text-align: right;">Total Factura</th>
-              </tr>
-            </thead>
-            <tbody>
-              ${invoiceRows || '<tr><td colspan="5" style="text-align: center; color: #999;">No hay facturas registradas en este periodo.</td></tr>'}
-            </tbody>
-          </table>
-
-          <h3>Detalle de Egresos (Gastos Operativos)</h3>
-          <table>
-            <thead>
-              <tr>
-                <th>Fecha</th>
-                <th>Descripción / Concepto</th>
-                <th>Categoría</th>
-                <th style="text-align: right;">Monto</th>
-              </tr>
-            </thead>
-            <tbody>
-              ${expenseRows || '<tr><td colspan="4" style="text-align: center; color: #999;">No hay gastos registrados en este periodo.</td></tr>'}
-            </tbody>
-          </table>
-
-          <div class="footer">
-             Documento oficial generado por KASSTYLE Manager. Prohibida su alteración sin autorización.
-          </div>
-        </body>
-        <script>window.print();</script>
-      </html>
-    `;
-    printWindow.document.write(html);
-    printWindow.document.close();
+    const generatedAt = new Date();
+
+    const doc = buildReportPdf({
+        periodLabel: rangeLabels[timeRange],
+        generatedAt,
+        stats,
+        invoices: filteredInvoices.filter(inv => inv.status !== InvoiceStatus.DRAFT),
+        expenses: filteredExpenses,
+        clientName: (id: string) => clients.find(c => c.id === id)?.name || 'Cliente Desconocido'
+    });
+    doc.save(reportPdfFileName(generatedAt));
   };
 
   // --- Modal Handlers --- (Same as before)
   const openRateModal = () => setEditModal({ type: 'rate', value: (exchangeRate || 0).toString() });
-  const openPriceModal = () => setEditModal({ type: 'price', value: (pricePerKg || 0).toString() });
   const handleSaveSetting = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!editModal) return;
@@ -305,8 +195,7 @@ export const Dashboard: React.FC = () => {
     if (isNaN(num) || num < 0) { alert("Número inválido"); return; }
     setIsSavingSetting(true);
     try {
-        if (editModal.type === 'rate') await StorageService.setExchangeRate(num);
-        else await StorageService.setPricePerKg(num);
+        await StorageService.setExchangeRate(num);
         loadData(); 
         setEditModal(null);
     } catch (error) { console.error(error); alert("Error guardando"); } 
@@ -350,9 +239,27 @@ export const Dashboard: React.FC = () => {
             <div className="flex items-center gap-2 bg-white p-2 rounded-lg shadow-sm border border-slate-200">
                 <div className="flex flex-col">
                     <span className="text-[10px] uppercase font-bold text-slate-400">Envío</span>
-                    <span className="text-xs font-bold text-brand">${(pricePerKg || 0).toFixed(2)}</span>
+                    <span className="text-xs font-bold text-brand">{StorageService.getShippingRates().length} tarifas</span>
+                </div>
+                <Button size="sm" variant="ghost" className="h-6 w-6 p-0 text-slate-400 hover:text-brand" onClick={() => setShowShippingRates(true)}>
+                    <Settings size={14} />
+                </Button>
+            </div>
+            <div className="flex items-center gap-2 bg-white p-2 rounded-lg shadow-sm border border-slate-200">
+                <div className="flex flex-col">
+                    <span className="text-[10px] uppercase font-bold text-slate-400">Aranceles</span>
+                    <span className="text-xs font-bold text-yellow-600">{StorageService.getTariffRules().length} reglas</span>
+                </div>
+                <Button size="sm" variant="ghost" className="h-6 w-6 p-0 text-slate-400 hover:text-brand" onClick={() => setShowTariffs(true)}>
+                    <Settings size={14} />
+                </Button>
+            </div>
+            <div className="flex items-center gap-2 bg-white p-2 rounded-lg shadow-sm border border-slate-200">
+                <div className="flex flex-col">
+                    <span className="text-[10px] uppercase font-bold text-slate-400">Numeración</span>
+                    <span className="text-xs font-bold text-slate-600">{StorageService.getInvoiceNumbering().prefix || 'Sin prefijo'}</span>
                 </div>
-                <Button size="sm" variant="ghost" className="h-6 w-6 p-0 text-slate-400 hover:text-brand" onClick={openPriceModal}>
+                <Button size="sm" variant="ghost" className="h-6 w-6 p-0 text-slate-400 hover:text-brand" onClick={() => setShowNumbering(true)}>
                     <Settings size={14} />
                 </Button>
             </div>
@@ -364,13 +271,33 @@ export const Dashboard: React.FC = () => {
         </div>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
         <StatCard title="Dinero Recibido" value={`$${(stats.revenue || 0).toFixed(2)}`} icon={DollarSign} color="purple" subtext="Ingresos Brutos" />
         <StatCard title="Egresos / Gastos" value={`-$${(stats.totalExpenses || 0).toFixed(2)}`} icon={TrendingDown} color="red" subtext="Materiales y Servicios" />
         <StatCard title="Utilidad Neta Real" value={`$${(stats.netProfit || 0).toFixed(2)}`} icon={TrendingUp} color="emerald" subtext={`Margen: ${stats.profitMargin.toFixed(1)}%`} />
-        <StatCard title="Deuda por Cobrar" value={`$${(stats.pending || 0).toFixed(2)}`} icon={AlertCircle} color="orange" subtext="Pendiente global" />
+        <StatCard title="Deuda por Cobrar" value={`$${(stats.pending || 0).toFixed(2)}`} icon={AlertCircle} color="orange" subtext="Ver antigüedad de saldos" onClick={() => setShowAging(true)} />
+        <StatCard title="Saldo a Favor" value={`$${creditLiability.toFixed(2)}`} icon={Wallet} color="blue" subtext="Pasivo: se les debe a clientes" />
       </div>
 
+      {conversion.total > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <StatCard
+            title="Conversión de Cotizaciones"
+            value={`${conversion.conversionRate.toFixed(1)}%`}
+            icon={ClipboardList}
+            color="blue"
+            subtext={`${conversion.accepted} aceptadas · ${conversion.rejected} rechazadas · ${conversion.expired} vencidas · ${conversion.open} abiertas`}
+          />
+          <StatCard
+            title="Cotizado que se Vendió"
+            value={`$${conversion.acceptedUsd.toFixed(2)}`}
+            icon={DollarSign}
+            color="blue"
+            subtext={`de $${conversion.quotedUsd.toFixed(2)} cotizados en ${conversion.total} cotizaciones`}
+          />
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         <div className="lg:col-span-2 bg-white p-6 rounded-xl shadow-sm border border-slate-200">
           <h3 className="text-lg font-semibold mb-4 text-slate-800 flex items-center gap-2">
@@ -419,17 +346,22 @@ export const Dashboard: React.FC = () => {
         </div>
       </div>
 
+      {showTariffs && <TariffRulesEditor onClose={() => setShowTariffs(false)} />}
+      {showShippingRates && <ShippingRatesEditor onClose={() => setShowShippingRates(false)} />}
+      {showNumbering && <InvoiceNumberingEditor onClose={() => setShowNumbering(false)} />}
+      {showAging && <AgingReportDialog onClose={() => setShowAging(false)} />}
+
       {/* Settings Modal (Same as before) */}
       {editModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm animate-in fade-in">
-            <div className="bg-white rounded-xl shadow-xl w-full max-w-sm overflow-hidden">
+            <div className="bg-white rounded-xl shadow-xl w-full overflow-hidden max-w-xl max-h-[90vh] overflow-y-auto">
                 <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
-                    <h3 className="font-bold text-slate-800">Actualizar Valor</h3>
+                    <h3 className="font-bold text-slate-800">Tasa de Cambio</h3>
                     <button onClick={() => setEditModal(null)} className="text-slate-400 hover:text-slate-600"><X size={20} /></button>
                 </div>
                 <form onSubmit={handleSaveSetting} className="p-6">
                     <div className="mb-6">
-                        <label className="block text-sm font-medium text-slate-700 mb-2">Nuevo Valor</label>
+                        <label className="block text-sm font-medium text-slate-700 mb-2">Tasa de hoy (Bs/USD)</label>
                         <input type="text" inputMode="decimal" className="w-full rounded-lg border-slate-300 shadow-sm border p-3 text-lg text-center focus:ring-brand focus:border-brand" value={editModal.value} onChange={(e) => setEditModal({ ...editModal, value: e.target.value })} autoFocus />
                     </div>
                     <div className="flex justify-end gap-3">
@@ -437,6 +369,10 @@ export const Dashboard: React.FC = () => {
                         <Button type="submit" isLoading={isSavingSetting}>Guardar</Button>
                     </div>
                 </form>
+                <div className="px-6 pb-6">
+                    <h4 className="text-sm font-semibold text-slate-700 mb-3 border-t border-slate-100 pt-4">Historial de tasas</h4>
+                    <ExchangeRateHistory />
+                </div>
             </div>
         </div>
       )}
@@ -444,7 +380,7 @@ export const Dashboard: React.FC = () => {
   );
 };
 
-const StatCard = ({ title, value, icon: Icon, color, subtext }: any) => {
+const StatCard = ({ title, value, icon: Icon, color, subtext, onClick }: any) => {
     const colors: any = {
         purple: 'bg-purple-100 text-purple-600',
         emerald: 'bg-emerald-100 text-emerald-600',
@@ -454,7 +390,7 @@ const StatCard = ({ title, value, icon: Icon, color, subtext }: any) => {
     };
 
     return (
-        <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+        <div onClick={onClick} className={`bg-white p-5 rounded-xl shadow-sm border border-slate-200 ${onClick ? 'cursor-pointer hover:border-brand transition-colors' : ''}`}>
             <div className="flex items-center justify-between">
                 <div>
                     <p className="text-sm font-medium text-slate-500">{title}</p>
@@ -0,0 +1,106 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { ExchangeRate } from '../types';
+import { StorageService } from '../services/storage';
+import { RATE_SOURCES, createExchangeRate, parseRatesCsv, toRateDate } from '../services/exchangeRates';
+import { Button } from './Button';
+import { Plus, Trash2, Upload } from 'lucide-react';
+
+// Rates are keyed by the local day
+const today = () => toRateDate(new Date());
+
+export const ExchangeRateHistory: React.FC = () => {
+  const [rates, setRates] = useState<ExchangeRate[]>(StorageService.getExchangeRates());
+  const [date, setDate] = useState(today());
+  const [value, setValue] = useState('');
+  const [source, setSource] = useState(RATE_SOURCES[0]);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const unsubscribe = StorageService.subscribe(() => setRates(StorageService.getExchangeRates()));
+    return () => unsubscribe();
+  }, []);
+
+  const handleAdd = async () => {
+    const num = parseFloat(value.replace(',', '.'));
+    if (!date || isNaN(num) || num <= 0) { alert("Fecha o tasa inválida"); return; }
+    await StorageService.saveExchangeRates([createExchangeRate(date, num, source)]);
+    setValue('');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { rates: parsed, errors } = parseRatesCsv(await file.text());
+    if (parsed.length === 0) {
+      alert(`No se encontraron tasas en el archivo.\n${errors.slice(0, 5).join('\n')}`);
+      return;
+    }
+    const summary = `Se importarán ${parsed.length} tasas (${parsed[0].date} a ${parsed[parsed.length - 1].date}). Las fechas que ya existen se reemplazan.`;
+    const warning = errors.length > 0 ? `\n\n${errors.length} líneas con error se omitirán:\n${errors.slice(0, 5).join('\n')}` : '';
+    if (!confirm(summary + warning)) return;
+    await StorageService.saveExchangeRates(parsed);
+  };
+
+  const newestFirst = [...rates].reverse();
+
+  return (
+    <div className="space-y-4">
+      <div className="h-40">
+        {rates.length > 1 ? (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={rates}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="date" tick={{ fontSize: 10 }} tickLine={false} />
+              <YAxis domain={['auto', 'auto']} tick={{ fontSize: 10 }} tickLine={false} axisLine={false} width={40} />
+              <Tooltip formatter={(v: number) => [`${v} Bs`, 'Tasa']} contentStyle={{ borderRadius: '8px', fontSize: 12 }} />
+              <Line type="monotone" dataKey="rate" stroke="#059669" strokeWidth={2} dot={rates.length < 40} />
+            </LineChart>
+          </ResponsiveContainer>
+        ) : (
+          <div className="h-full flex items-center justify-center text-slate-400 text-sm bg-slate-50 rounded-lg">
+            Registra al menos dos tasas para ver su evolución.
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-2">
+        <input type="date" className="rounded-md border-slate-300 border p-2 text-sm" value={date} onChange={e => setDate(e.target.value)} />
+        <input type="text" inputMode="decimal" placeholder="Tasa Bs/USD" className="w-28 rounded-md border-slate-300 border p-2 text-sm" value={value} onChange={e => setValue(e.target.value)} />
+        <select className="rounded-md border-slate-300 border p-2 text-sm" value={source} onChange={e => setSource(e.target.value)}>
+          {RATE_SOURCES.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <Button type="button" size="sm" onClick={handleAdd}><Plus size={14} className="mr-1" /> Agregar</Button>
+        <Button type="button" size="sm" variant="secondary" onClick={() => fileRef.current?.click()} title="Columnas: fecha, tasa, fuente (opcional)">
+          <Upload size={14} className="mr-1" /> Importar CSV
+        </Button>
+        <input ref={fileRef} type="file" accept=".csv,text/csv,text/plain" className="hidden" onChange={handleImport} />
+      </div>
+
+      <div className="max-h-48 overflow-y-auto border border-slate-100 rounded-lg">
+        {newestFirst.length > 0 ? (
+          <table className="w-full text-sm">
+            <tbody className="divide-y divide-slate-100">
+              {newestFirst.map(r => (
+                <tr key={r.id}>
+                  <td className="px-3 py-1.5 text-slate-600">{r.date}</td>
+                  <td className="px-3 py-1.5 text-right font-medium text-emerald-700">{r.rate.toFixed(2)} Bs</td>
+                  <td className="px-3 py-1.5 text-xs text-slate-400">{r.source}</td>
+                  <td className="px-3 py-1.5 text-right">
+                    <button type="button" onClick={() => StorageService.deleteExchangeRate(r.id)} className="text-slate-300 hover:text-red-500" title="Eliminar tasa">
+                      <Trash2 size={14} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-center text-slate-400 text-sm p-4">Sin historial de tasas.</p>
+        )}
+      </div>
+    </div>
+  );
+};
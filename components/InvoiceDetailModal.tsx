@@ -2,7 +2,14 @@ import React, { useState, useEffect } from 'react';
 import { Invoice, Client, InvoiceStatus } from '../types';
 import { Button } from './Button';
 import { StorageService } from '../services/storage';
-import { X, ArrowRightLeft, ArrowLeftRight, Printer } from 'lucide-react';
+import { X, ArrowRightLeft, ArrowLeftRight, FileDown, MessageCircle } from 'lucide-react';
+import { sortPayments, realizedFxBs } from '../services/payments';
+import { describeRule } from '../services/tariffs';
+import { currentStage } from '../services/itemStages';
+import { trackingUrl } from '../services/tracking';
+import { awaitingNumber, invoiceLabel } from '../services/invoiceNumbers';
+import { buildInvoicePdf, invoicePdfFileName } from '../services/pdf';
+import { ShareInvoiceDialog } from './ShareInvoiceDialog';
 
 interface InvoiceDetailModalProps {
   invoice: Invoice;
@@ -13,6 +20,7 @@ interface InvoiceDetailModalProps {
 export const InvoiceDetailModal: React.FC<InvoiceDetailModalProps> = ({ invoice, client, onClose }) => {
   const [currency, setCurrency] = useState<'USD' | 'Bs'>('USD');
   const [isSwapped, setIsSwapped] = useState(false); 
+  const [showShare, setShowShare] = useState(false);
 
   // Close on Escape key
   useEffect(() => {
@@ -23,32 +31,39 @@ export const InvoiceDetailModal: React.FC<InvoiceDetailModalProps> = ({ invoice,
     return () => window.removeEventListener('keydown', handleEsc);
   }, [onClose]);
 
-  // Calculate logic locally
-  const subTotalProducts = (invoice.items || []).reduce((acc, item) => acc + ((item.finalPrice || 0) * (item.quantity || 0)), 0);
-  const totalCommissions = (invoice.items || []).reduce((acc, item) => acc + ((item.commission || 0) * (item.quantity || 0)), 0);
+  const pricing = StorageService.getInvoiceBreakdown(invoice);
+  const subTotalProducts = pricing.productSale;
+  const displayLogistics = pricing.logistics + pricing.commissions;
   
-  const shippingCost = invoice.logisticsCost || 0;
-  const displayLogistics = shippingCost + totalCommissions;
-  
-  const grandTotal = subTotalProducts + displayLogistics;
+  const grandTotal = pricing.grandTotal;
   const paidAmount = invoice.amountPaid || 0;
   const remainingBalanceUSD = Math.max(0, grandTotal - paidAmount);
 
   const rate = invoice.exchangeRate || 1;
+  // What is still owed is quoted at today's rate, not the one the invoice was issued at
+  const todayRate = StorageService.getExchangeRate() || rate;
+  const payments = sortPayments(invoice.payments);
+  const fxBs = realizedFxBs(invoice);
+  const freightCost = StorageService.getInvoiceFreightCost(invoice.id);
+  const hasBsPayments = payments.some(p => p.currency === 'Bs');
   const isBsContext = currency === 'Bs';
 
   // --- Formatters ---
   const formatUSD = (amount: number) => `$ ${(amount || 0).toLocaleString('es-VE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
   const formatBs = (amountUSD: number) => `Bs ${(amountUSD * rate).toLocaleString('es-VE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  const formatBsAmount = (amountBs: number) => `Bs ${(amountBs || 0).toLocaleString('es-VE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  const formatBsToday = (amountUSD: number) => formatBsAmount(amountUSD * todayRate);
+  const formatPayment = (amount: number, paymentCurrency: string) => paymentCurrency === 'Bs' ? formatBsAmount(amount) : formatUSD(amount);
 
   // --- VIEW LOGIC ---
   const showBodyInBs = isBsContext && !isSwapped;
   const showRemainingInBs = isBsContext && isSwapped;
 
   const formatBody = showBodyInBs ? formatBs : formatUSD;
-  const currencySymbolBody = showBodyInBs ? 'Bs' : '$';
 
-  const formatRemaining = showRemainingInBs ? formatBs : formatUSD;
+  const formatRemaining = showRemainingInBs ? formatBsToday : formatUSD;
+  const formatRemainingOther = showRemainingInBs ? formatUSD : formatBsToday;
+  const fxLabel = fxBs >= 0 ? 'Ganancia cambiaria realizada' : 'Pérdida cambiaria realizada';
 
   const toggleCurrency = () => {
     setCurrency(prev => prev === 'USD' ? 'Bs' : 'USD');
@@ -60,152 +75,8 @@ export const InvoiceDetailModal: React.FC<InvoiceDetailModalProps> = ({ invoice,
   };
 
   const handlePrint = () => {
-    const safeItems = invoice.items || [];
-    const pricePerKg = StorageService.getPricePerKg();
-
-    const itemsHtml = safeItems.map(item => {
-      const weightKg = item.weightUnit === 'lb' ? (item.weight / 2.20462) : item.weight;
-      
-      const taxableBase = (item.originalPrice || 0) - (item.taxes || 0) - (item.discounts || 0);
-      const elecTax = item.isElectronics ? (taxableBase * 0.20) : 0;
-      
-      const baseLogistics = weightKg * pricePerKg;
-      const unitAddons = baseLogistics + elecTax + item.commission;
-      const unitFullPrice = item.finalPrice + unitAddons;
-      const rowTotal = unitFullPrice * item.quantity;
-
-      return `
-      <tr style="border-bottom: 1px solid #e2e8f0; page-break-inside: avoid;">
-        <td style="padding: 10px; vertical-align: top;">
-            <div style="font-weight: bold; font-size: 13px; color: #1e293b;">${item.name}</div>
-            <div style="font-size: 11px; color: #64748b;">
-               ${item.platform} 
-               ${item.isElectronics ? ' • Elec(+20%)' : ''}
-               ${item.trackingNumber ? `• Tracking: ${item.trackingNumber}` : ''}
-            </div>
-        </td>
-        <td style="padding: 10px; text-align: center; vertical-align: top; color: #334155;">${item.quantity}</td>
-        <td style="padding: 10px; text-align: right; vertical-align: top; color: #334155;">${formatBody(item.finalPrice)}</td>
-        <td style="padding: 10px; text-align: right; vertical-align: top; color: #64748b;">${formatBody(unitAddons)}</td>
-        <td style="padding: 10px; text-align: right; font-weight: bold; vertical-align: top; color: #0f172a;">${formatBody(rowTotal)}</td>
-      </tr>
-    `}).join('');
-
-    const paidStr = formatBody(paidAmount);
-    const remainingStr = formatRemaining(remainingBalanceUSD);
-
-    const invoiceBody = `
-       <div class="invoice-container">
-          <div style="display: flex; justify-content: space-between; border-bottom: 3px solid #3e136b; padding-bottom: 20px; margin-bottom: 30px;">
-            <div>
-              <div style="font-size: 34px; font-weight: 900; color: #3e136b; letter-spacing: -1px; line-height: 1;">KASSTYLE</div>
-              <div style="font-size: 13px; color: #64748b; font-weight: 500; margin-top: 4px;">Logística & Importación</div>
-            </div>
-            <div style="text-align: right;">
-              <div style="font-size: 16px; font-weight: bold; color: #1e293b;">FACTURA #${invoice.id.slice(0, 8).toUpperCase()}</div>
-              <div style="font-size: 13px; color: #64748b; margin-top: 4px;">Fecha: ${new Date(invoice.createdAt).toLocaleDateString()}</div>
-              <div style="margin-top: 6px;">
-                <span style="background: #f1f5f9; color: #334155; padding: 4px 8px; border-radius: 4px; font-size: 11px; font-weight: bold; text-transform: uppercase; border: 1px solid #e2e8f0;">
-                    ${invoice.status}
-                </span>
-              </div>
-            </div>
-          </div>
-
-          <div style="margin-bottom: 30px; background: #f8fafc; padding: 20px; border-radius: 8px; border-left: 4px solid #3e136b; page-break-inside: avoid;">
-            <div style="font-size: 11px; color: #64748b; margin-bottom: 4px; text-transform: uppercase; font-weight: bold; letter-spacing: 0.5px;">Cliente</div>
-            <div style="font-size: 18px; font-weight: bold; color: #1e293b; margin-bottom: 2px;">${client.name}</div>
-            <div style="font-size: 14px; color: #475569;">${client.phone}</div>
-            <div style="font-size: 14px; color: #475569;">${client.address || ''}</div>
-          </div>
-
-          <table style="width: 100%; border-collapse: collapse; margin-bottom: 30px; font-size: 13px;">
-            <thead>
-              <tr style="background: #f1f5f9;">
-                <th style="padding: 12px 10px; text-align: left; font-size: 11px; text-transform: uppercase; font-weight: 700; color: #475569; border-bottom: 2px solid #cbd5e1;">Descripción</th>
-                <th style="padding: 12px 10px; text-align: center; font-size: 11px; text-transform: uppercase; font-weight: 700; color: #475569; border-bottom: 2px solid #cbd5e1;">Cant.</th>
-                <th style="padding: 12px 10px; text-align: right; font-size: 11px; text-transform: uppercase; font-weight: 700; color: #475569; border-bottom: 2px solid #cbd5e1;">Precio</th>
-                <th style="padding: 12px 10px; text-align: right; font-size: 11px; text-transform: uppercase; font-weight: 700; color: #475569; border-bottom: 2px solid #cbd5e1;">Envío/Imp</th>
-                <th style="padding: 12px 10px; text-align: right; font-size: 11px; text-transform: uppercase; font-weight: 700; color: #475569; border-bottom: 2px solid #cbd5e1;">Total</th>
-              </tr>
-            </thead>
-            <tbody>
-              ${itemsHtml}
-            </tbody>
-          </table>
-
-          <div style="display: flex; justify-content: flex-end; page-break-inside: avoid;">
-            <div style="width: 280px;">
-              <div style="display: flex; justify-content: space-between; padding: 12px 0; border-top: 2px solid #3e136b; margin-top: 10px;">
-                <span style="font-size: 16px; font-weight: 800; color: #3e136b;">TOTAL (${currencySymbolBody}):</span>
-                <span style="font-size: 18px; font-weight: 800; color: #3e136b;">${formatBody(grandTotal)}</span>
-              </div>
-              
-              <div style="border-top: 1px dashed #cbd5e1; margin-top: 5px; padding-top: 15px;">
-                  <div style="display: flex; justify-content: space-between; margin-bottom: 8px; font-size: 14px; color: #475569;">
-                      <span>Abonado:</span>
-                      <span style="font-weight: 600;">${paidStr}</span>
-                  </div>
-                  <div style="display: flex; justify-content: space-between; font-size: 16px; font-weight: bold; color: ${remainingBalanceUSD <= 0 ? '#10b981' : '#f59e0b'};">
-                      <span>Restante:</span>
-                      <span>${remainingStr}</span>
-                  </div>
-              </div>
-            </div>
-          </div>
-
-          <div style="margin-top: 60px; text-align: center; font-size: 12px; color: #94a3b8; border-top: 1px solid #e2e8f0; padding-top: 25px; page-break-inside: avoid;">
-            <p style="font-weight: 500;">Gracias por confiar en nuestros servicios.</p>
-            <p style="margin-top: 5px;">KASSTYLE - Gestión de Logística e Importación</p>
-          </div>
-       </div>
-    `;
-
-    const printWindow = window.open('', '_blank');
-    if (!printWindow) {
-        alert("Por favor permite las ventanas emergentes para ver la factura.");
-        return;
-    }
-
-    const fullDocument = `
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <title>Factura ${invoice.id.slice(0, 8)} - KASSTYLE</title>
-          <style>
-            * { box-sizing: border-box; }
-            body { margin: 0; padding: 0; background-color: #f3f4f6; font-family: 'Helvetica Neue', Helvetica, Arial, sans-serif; -webkit-font-smoothing: antialiased; }
-            .invoice-container { background: white; margin: 0 auto; }
-            @media screen {
-               body { padding: 40px 0; display: flex; justify-content: center; }
-               .invoice-container { 
-                  width: 800px; 
-                  padding: 40px;
-                  box-shadow: 0 10px 25px -5px rgba(0, 0, 0, 0.1); 
-                  border-radius: 4px;
-               }
-            }
-            @media print {
-              @page { size: A4; margin: 12mm; }
-              body { background-color: white; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
-              .invoice-container { width: 100% !important; max-width: none !important; padding: 0 !important; margin: 0 !important; box-shadow: none !important; border: none !important; }
-              table { width: 100% !important; }
-            }
-          </style>
-        </head>
-        <body>
-          ${invoiceBody}
-          <script>
-             window.onload = function() {
-                setTimeout(() => { window.print(); }, 500);
-             }
-          </script>
-        </body>
-      </html>
-    `;
-
-    printWindow.document.write(fullDocument);
-    printWindow.document.close(); 
+    const doc = buildInvoicePdf({ invoice, client, pricing, currency: showBodyInBs ? 'Bs' : 'USD', todayRate });
+    doc.save(invoicePdfFileName(invoice));
   };
 
   return (
@@ -220,8 +91,11 @@ export const InvoiceDetailModal: React.FC<InvoiceDetailModalProps> = ({ invoice,
         {/* Header */}
         <div className="flex justify-between items-center p-6 border-b border-slate-100">
           <div>
-            <h2 className="text-2xl font-bold text-slate-800">Factura #{invoice.id.slice(0, 6)}...</h2>
-            <p className="text-sm text-slate-500">{new Date(invoice.createdAt).toLocaleDateString()} &bull; {client.name}</p>
+            <h2 className="text-2xl font-bold text-slate-800">Factura {invoiceLabel(invoice)}</h2>
+            <p className="text-sm text-slate-500">
+              {new Date(invoice.createdAt).toLocaleDateString()} &bull; {client.name}
+              {awaitingNumber(invoice) && <span className="text-amber-600"> &bull; Número pendiente de sincronizar</span>}
+            </p>
           </div>
           <button onClick={onClose} className="text-slate-400 hover:text-slate-700 transition-colors p-1 rounded-md hover:bg-slate-100">
             <X size={24} />
@@ -246,13 +120,17 @@ export const InvoiceDetailModal: React.FC<InvoiceDetailModalProps> = ({ invoice,
                     <ArrowRightLeft className="w-4 h-4 mr-2" />
                     {isBsContext ? 'Volver a USD' : 'Ver en Bolívares'}
                  </Button>
+                 <Button variant="secondary" size="sm" onClick={() => setShowShare(true)}>
+                    <MessageCircle className="w-4 h-4 mr-2" />
+                    Compartir
+                 </Button>
                  <Button 
                     size="sm" 
                     onClick={handlePrint} 
                     className="bg-brand hover:bg-brand-light text-white shadow-md shadow-brand/20 min-w-[140px]"
                  >
-                    <Printer className="w-4 h-4 mr-2" />
-                    Imprimir / PDF
+                    <FileDown className="w-4 h-4 mr-2" />
+                    Descargar PDF
                  </Button>
              </div>
           </div>
@@ -273,7 +151,19 @@ export const InvoiceDetailModal: React.FC<InvoiceDetailModalProps> = ({ invoice,
                         <tr key={item.id}>
                             <td className="px-4 py-3 text-slate-700 font-medium">
                                 {item.name}
-                                <div className="text-xs text-slate-400 font-normal">{item.platform}</div>
+                                <div className="text-xs text-slate-400 font-normal">
+                                    {item.platform} · {currentStage(item)}
+                                    {item.trackingNumber && (
+                                        <>
+                                            {' · '}
+                                            {item.trackingCarrier ? (
+                                                <a href={trackingUrl(item.trackingNumber, item.trackingCarrier)} target="_blank" rel="noopener noreferrer" className="text-brand hover:underline">
+                                                    {item.trackingCarrier} {item.trackingNumber}
+                                                </a>
+                                            ) : item.trackingNumber}
+                                        </>
+                                    )}
+                                </div>
                             </td>
                             <td className="px-4 py-3 text-center text-slate-600">{item.quantity}</td>
                             <td className="px-4 py-3 text-right text-slate-600">{formatBody(item.finalPrice)}</td>
@@ -286,6 +176,35 @@ export const InvoiceDetailModal: React.FC<InvoiceDetailModalProps> = ({ invoice,
             </table>
           </div>
 
+          {/* Payments */}
+          {payments.length > 0 && (
+            <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden mb-6">
+              <table className="w-full text-sm">
+                  <thead className="bg-slate-50 border-b border-slate-200">
+                      <tr>
+                          <th className="px-4 py-2 text-left font-medium text-slate-500">Abono</th>
+                          <th className="px-4 py-2 text-right font-medium text-slate-500">Monto</th>
+                          <th className="px-4 py-2 text-right font-medium text-slate-500">Tasa</th>
+                          <th className="px-4 py-2 text-right font-medium text-slate-500">USD</th>
+                      </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                      {payments.map(p => (
+                          <tr key={p.id}>
+                              <td className="px-4 py-2 text-slate-700">
+                                  {new Date(p.date).toLocaleDateString()}
+                                  <div className="text-xs text-slate-400">{p.method}{p.reference ? ` · Ref ${p.reference}` : ''}</div>
+                              </td>
+                              <td className="px-4 py-2 text-right text-slate-600">{formatPayment(p.amount, p.currency)}</td>
+                              <td className="px-4 py-2 text-right text-slate-400">{p.currency === 'Bs' ? p.exchangeRate : '—'}</td>
+                              <td className="px-4 py-2 text-right text-slate-800 font-medium">{formatUSD(p.amountUsd)}</td>
+                          </tr>
+                      ))}
+                  </tbody>
+              </table>
+            </div>
+          )}
+
           {/* Totals Section */}
           <div className="flex justify-end">
              <div className="w-full sm:w-1/2 bg-white rounded-lg shadow-sm border border-slate-200 p-4 space-y-3">
@@ -297,6 +216,12 @@ export const InvoiceDetailModal: React.FC<InvoiceDetailModalProps> = ({ invoice,
                     <span>Logística y Manejo</span>
                     <span>{formatBody(displayLogistics)}</span>
                 </div>
+                {pricing.dutiesByCategory.map(d => (
+                    <div key={d.category} className="flex justify-between text-xs text-slate-400 pl-3">
+                        <span>Incl. arancel {d.category} ({describeRule(d.rule)})</span>
+                        <span>{formatBody(d.amount)}</span>
+                    </div>
+                ))}
                 <div className="border-t border-slate-100 pt-3 flex justify-between items-center">
                     <div>
                         <span className="block text-xs text-slate-400">Total General</span>
@@ -326,9 +251,37 @@ export const InvoiceDetailModal: React.FC<InvoiceDetailModalProps> = ({ invoice,
                         </div>
                         <div className="text-right">
                              <span>{formatRemaining(remainingBalanceUSD)}</span>
+                             {remainingBalanceUSD > 0 && (
+                                <span className="block text-xs font-normal text-slate-400">
+                                    {formatRemainingOther(remainingBalanceUSD)} · tasa del día {todayRate}
+                                </span>
+                             )}
                         </div>
                     </div>
+                    {hasBsPayments && (
+                        <div className={`flex justify-between text-xs ${fxBs >= 0 ? 'text-emerald-600' : 'text-red-500'}`}>
+                            <span>{fxLabel}</span>
+                            <span>{formatBsAmount(fxBs)}</span>
+                        </div>
+                    )}
                 </div>
+
+                {freightCost && (
+                    <div className="border-t border-slate-100 pt-3 space-y-1 text-xs text-slate-500">
+                        <div className="flex justify-between">
+                            <span>Flete cobrado (productos en envíos)</span>
+                            <span>{formatUSD(freightCost.charged)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                            <span>Flete real prorrateado</span>
+                            <span>{formatUSD(freightCost.actualCost)}</span>
+                        </div>
+                        <div className={`flex justify-between font-semibold ${freightCost.charged >= freightCost.actualCost ? 'text-emerald-600' : 'text-red-500'}`}>
+                            <span>Diferencia</span>
+                            <span>{formatUSD(freightCost.charged - freightCost.actualCost)}</span>
+                        </div>
+                    </div>
+                )}
                 
                 {isBsContext && (
                     <div 
@@ -344,6 +297,7 @@ export const InvoiceDetailModal: React.FC<InvoiceDetailModalProps> = ({ invoice,
           </div>
         </div>
       </div>
+      {showShare && <ShareInvoiceDialog invoice={invoice} client={client} onClose={() => setShowShare(false)} />}
     </div>
   );
 };
\ No newline at end of file
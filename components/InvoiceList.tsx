@@ -1,15 +1,25 @@
 import React, { useState, useEffect } from 'react';
-import { Invoice, InvoiceStatus, Client } from '../types';
+import { Invoice, InvoiceStatus, Client, ItemStage } from '../types';
 import { StorageService } from '../services/storage';
 import { Button } from './Button';
-import { Edit, Trash2, AlertTriangle } from 'lucide-react';
+import { Edit, Trash2, AlertTriangle, Search } from 'lucide-react';
 import { InvoiceForm } from './InvoiceForm';
 import { InvoiceDetailModal } from './InvoiceDetailModal';
+import { ITEM_STAGES, allItemsDelivered, currentStage, itemsStuckIn } from '../services/itemStages';
+import { matchesTracking } from '../services/tracking';
+import { awaitingNumber, matchesInvoiceNumber } from '../services/invoiceNumbers';
+import { daysOverdue, isOverdue } from '../services/dueDates';
 
 export const InvoiceList: React.FC = () => {
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [clients, setClients] = useState<Client[]>([]);
   const [filterStatus, setFilterStatus] = useState<string>('all');
+  // Invoices with items sitting in one stage for at least `stuckDays`
+  const [stuckStage, setStuckStage] = useState<ItemStage | ''>('');
+  const [stuckDays, setStuckDays] = useState(7);
+  const [trackingQuery, setTrackingQuery] = useState('');
+  const [numberQuery, setNumberQuery] = useState('');
+  const [onlyOverdue, setOnlyOverdue] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
@@ -67,10 +77,24 @@ export const InvoiceList: React.FC = () => {
   const handleStatusChange = (e: React.ChangeEvent<HTMLSelectElement>, id: string) => {
     e.stopPropagation();
     const newStatus = e.target.value as InvoiceStatus;
+    const inv = invoices.find(i => i.id === id);
+    if (newStatus === InvoiceStatus.DELIVERED && inv && !allItemsDelivered(inv)
+        && !confirm("Hay productos que aún no figuran como entregados. ¿Marcar la factura como Entregado de todas formas?")) {
+        return;
+    }
     StorageService.updateInvoiceStatus(id, newStatus);
   };
 
+  const overdueDays = (inv: Invoice) => {
+    const due = StorageService.getDueDate(inv);
+    return isOverdue(inv, due) ? daysOverdue(due) : 0;
+  };
+
   const filteredInvoices = invoices.filter(inv => {
+    if (onlyOverdue && overdueDays(inv) === 0) return false;
+    if (numberQuery && !matchesInvoiceNumber(inv, numberQuery)) return false;
+    if (trackingQuery && !(inv.items || []).some(i => matchesTracking(i.trackingNumber, trackingQuery))) return false;
+    if (stuckStage && itemsStuckIn(inv, stuckStage, stuckDays).length === 0) return false;
     if (filterStatus === 'all') return true;
     return inv.status === filterStatus;
   });
@@ -114,6 +138,54 @@ export const InvoiceList: React.FC = () => {
              {status}
          </button>
         ))}
+        <span className="w-px bg-slate-200 mx-1"></span>
+        <button
+            onClick={() => setOnlyOverdue(!onlyOverdue)}
+            className={`px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-colors ${onlyOverdue ? 'bg-red-600 text-white' : 'bg-white text-red-600 border border-red-200 hover:bg-red-50'}`}
+        >
+            Vencidas
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm text-slate-600">
+        <div className="relative">
+            <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-400 h-4 w-4" />
+            <input
+                type="text"
+                placeholder="Buscar por número..."
+                className="pl-8 pr-2 py-1.5 rounded-md border-slate-300 border text-sm focus:ring-brand focus:border-brand"
+                value={numberQuery}
+                onChange={e => setNumberQuery(e.target.value)}
+            />
+        </div>
+        <div className="relative">
+            <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-400 h-4 w-4" />
+            <input
+                type="text"
+                placeholder="Buscar por tracking..."
+                className="pl-8 pr-2 py-1.5 rounded-md border-slate-300 border text-sm focus:ring-brand focus:border-brand"
+                value={trackingQuery}
+                onChange={e => setTrackingQuery(e.target.value)}
+            />
+        </div>
+        <span className="hidden sm:inline text-slate-300">|</span>
+        <span>Productos detenidos en</span>
+        <select
+            className="rounded-md border-slate-300 border p-1.5 text-sm focus:ring-brand focus:border-brand"
+            value={stuckStage}
+            onChange={e => setStuckStage(e.target.value as ItemStage | '')}
+        >
+            <option value="">Cualquier etapa (sin filtro)</option>
+            {ITEM_STAGES.filter(s => s !== ItemStage.DELIVERED).map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <span>por</span>
+        <input
+            type="number" min="0"
+            className="w-16 rounded-md border-slate-300 border p-1.5 text-sm focus:ring-brand focus:border-brand"
+            value={stuckDays}
+            onChange={e => setStuckDays(Math.max(0, parseInt(e.target.value) || 0))}
+        />
+        <span>días o más</span>
       </div>
 
       {/* List */}
@@ -124,6 +196,7 @@ export const InvoiceList: React.FC = () => {
                     <tr className="bg-slate-50 border-b border-slate-200">
                         <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Cliente</th>
                         <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Fecha</th>
+                        <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Vence</th>
                         <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Estado</th>
                         <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider text-right">Deuda</th>
                         <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider text-right">Total</th>
@@ -135,20 +208,46 @@ export const InvoiceList: React.FC = () => {
                         const paid = inv.amountPaid || 0;
                         const total = inv.grandTotalUsd || 0;
                         const debt = Math.max(0, total - paid);
+                        const items = inv.items || [];
+                        const delivered = items.filter(i => currentStage(i) === ItemStage.DELIVERED).length;
+                        const stuck = stuckStage ? itemsStuckIn(inv, stuckStage, stuckDays).length : 0;
+                        const late = overdueDays(inv);
 
                         return (
                         <tr 
                             key={inv.id} 
                             onClick={() => handleRowClick(inv)}
-                            className="hover:bg-purple-50/50 transition-colors cursor-pointer"
+                            className={`transition-colors cursor-pointer ${late > 0 ? 'bg-red-50/60 hover:bg-red-50' : 'hover:bg-purple-50/50'}`}
                         >
                             <td className="px-6 py-4">
                                 <div className="font-medium text-slate-900">{getClientName(inv.clientId)}</div>
-                                <div className="text-xs text-slate-500">{inv.items?.length || 0} productos</div>
+                                {inv.invoiceNumber && <div className="text-xs font-mono text-slate-600">{inv.invoiceNumber}</div>}
+                                {awaitingNumber(inv) && <div className="text-xs text-amber-600">Número pendiente de sincronizar</div>}
+                                <div className="text-xs text-slate-500">
+                                    {items.length} productos · {delivered} entregados
+                                    {stuck > 0 && <span className="text-orange-600"> · {stuck} en {stuckStage}</span>}
+                                </div>
+                                {trackingQuery && items.filter(i => matchesTracking(i.trackingNumber, trackingQuery)).map(i => (
+                                    <div key={i.id} className="text-xs text-brand">
+                                        {i.trackingCarrier || 'Tracking'} {i.trackingNumber} · {i.name} ({currentStage(i)})
+                                    </div>
+                                ))}
                             </td>
                             <td className="px-6 py-4 text-sm text-slate-600">
                                 {new Date(inv.createdAt).toLocaleDateString()}
                             </td>
+                            <td className="px-6 py-4 text-sm">
+                                {inv.status === InvoiceStatus.DRAFT || debt <= 0.005 ? (
+                                    <span className="text-slate-300">—</span>
+                                ) : (
+                                    <>
+                                        <div className={late > 0 ? 'text-red-600 font-medium' : 'text-slate-600'}>
+                                            {StorageService.getDueDate(inv).toLocaleDateString()}
+                                        </div>
+                                        {late > 0 && <div className="text-xs text-red-500">Vencida hace {late} {late === 1 ? 'día' : 'días'}</div>}
+                                    </>
+                                )}
+                            </td>
                             <td className="px-6 py-4" onClick={(e) => e.stopPropagation()}>
                                 <select
                                     value={inv.status}
@@ -159,6 +258,9 @@ export const InvoiceList: React.FC = () => {
                                         <option key={s} value={s}>{s}</option>
                                     ))}
                                 </select>
+                                {inv.status !== InvoiceStatus.DELIVERED && allItemsDelivered(inv) && (
+                                    <div className="text-[10px] text-purple-700 mt-1">Sugerido: Entregado</div>
+                                )}
                             </td>
                             <td className="px-6 py-4 text-sm font-bold text-right">
                                 {debt > 0.01 ? (
@@ -192,7 +294,7 @@ export const InvoiceList: React.FC = () => {
                     )})}
                     {filteredInvoices.length === 0 && (
                         <tr>
-                            <td colSpan={6} className="px-6 py-12 text-center text-slate-500">
+                            <td colSpan={7} className="px-6 py-12 text-center text-slate-500">
                                 No se encontraron facturas con este filtro.
                             </td>
                         </tr>
@@ -222,6 +324,9 @@ export const InvoiceList: React.FC = () => {
                     <h3 className="text-lg font-bold text-slate-900 mb-2">Eliminar Factura</h3>
                     <p className="text-sm text-slate-500 mb-6">
                         ¿Estás seguro de que quieres eliminar esta factura permanentemente? 
+                        {invoices.find(i => i.id === invoiceToDelete)?.invoiceNumber && (
+                            <><br/><span className="text-xs">Su número ya fue emitido y no se volverá a usar: quedará un hueco en la numeración.</span></>
+                        )}
                         <br/><span className="font-semibold text-red-500 text-xs">Esta acción se sincronizará con Google Sheets.</span>
                     </p>
                     <div className="flex gap-3 w-full">
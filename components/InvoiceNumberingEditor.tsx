@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { StorageService } from '../services/storage';
+import { formatInvoiceNumber } from '../services/invoiceNumbers';
+import { Button } from './Button';
+import { X } from 'lucide-react';
+
+interface InvoiceNumberingEditorProps {
+  onClose: () => void;
+}
+
+export const InvoiceNumberingEditor: React.FC<InvoiceNumberingEditorProps> = ({ onClose }) => {
+  const [numbering, setNumbering] = useState(StorageService.getInvoiceNumbering());
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await StorageService.setInvoiceNumbering({ ...numbering, prefix: numbering.prefix.trim() });
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-md overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <div>
+            <h3 className="font-bold text-slate-800">Numeración de Facturas</h3>
+            <p className="text-xs text-slate-500">El número se asigna al sincronizar la factura cuando deja de ser Borrador.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X size={20} /></button>
+        </div>
+        <form onSubmit={handleSave} className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Prefijo</label>
+            <input
+              type="text"
+              className="w-full rounded-md border-slate-300 border p-2 text-sm focus:ring-brand focus:border-brand"
+              value={numbering.prefix}
+              onChange={e => setNumbering({ ...numbering, prefix: e.target.value })}
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              className="text-brand focus:ring-brand"
+              checked={numbering.yearlyReset}
+              onChange={e => setNumbering({ ...numbering, yearlyReset: e.target.checked })}
+            />
+            Reiniciar la serie cada año
+          </label>
+          <p className="text-xs text-slate-500">
+            Formato: <span className="font-mono text-slate-700">{formatInvoiceNumber({ ...numbering, prefix: numbering.prefix.trim() }, new Date().getFullYear(), 1)}</span>.
+            Las facturas ya numeradas conservan su número.
+          </p>
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="secondary" onClick={onClose} disabled={isSaving}>Cancelar</Button>
+            <Button type="submit" isLoading={isSaving}>Guardar</Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
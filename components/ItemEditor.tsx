@@ -0,0 +1,352 @@
+import React, { useState } from 'react';
+import { ProductItem, Platform, ProductCategory, TariffRule, ItemStage } from '../types';
+import { Button } from './Button';
+import { Trash2, Plus, Wand2, Zap, ExternalLink, ClipboardPaste } from 'lucide-react';
+import { GeminiService } from '../services/geminiService';
+import { ItemBreakdown } from '../services/pricing';
+import { describeRule, ruleForCategory } from '../services/tariffs';
+import { ITEM_STAGES, currentStage, setItemStage } from '../services/itemStages';
+import { detectCarrier, trackingUrl } from '../services/tracking';
+import { OrderImportModal } from './OrderImportModal';
+
+const toInputDate = (iso: string) => {
+  const d = new Date(iso);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+// Local noon keeps the picked day in Caracas instead of rolling back to the previous one
+const fromInputDate = (date: string) => new Date(`${date}T12:00:00`).toISOString();
+
+interface ItemEditorProps {
+  items: ProductItem[];
+  onChange: (items: ProductItem[]) => void;
+  lines: ItemBreakdown[]; // Priced items, in the same order
+  tariffRules: TariffRule[];
+  // Invoices follow each item to the client (tracking, stages); quotes only price them
+  trackItems?: boolean;
+}
+
+// Product lines shared by InvoiceForm and QuoteForm
+export const ItemEditor: React.FC<ItemEditorProps> = ({ items, onChange, lines, tariffRules, trackItems = true }) => {
+  const [showOrderImport, setShowOrderImport] = useState(false);
+
+  const addItem = () => {
+    const newItem: ProductItem = {
+      id: crypto.randomUUID(),
+      name: '',
+      quantity: 1,
+      weight: 0,
+      weightUnit: 'kg', 
+      platform: Platform.SHEIN,
+      originalPrice: 0,
+      taxes: 3.99, // Default tax
+      discounts: 0,
+      finalPrice: -3.99, // 0 - 3.99 + 0
+      commission: 0,
+      category: ProductCategory.GENERAL
+    };
+    onChange([...items, newItem]);
+  };
+
+  const importItems = (imported: ProductItem[]) => {
+    onChange([...items, ...imported]);
+  };
+
+  const updateItem = (id: string, field: keyof ProductItem, value: any) => {
+    const newItems = items.map(item => {
+      if (item.id === id) {
+        const updated = { ...item, [field]: value };
+
+        if (field === 'trackingNumber') updated.trackingCarrier = detectCarrier(value);
+        
+        // AUTO-CALC FINAL PRICE: Costo Orig - Impuesto + Descuento
+        if (['originalPrice', 'taxes', 'discounts'].includes(field)) {
+          const op = parseFloat(updated.originalPrice?.toString() || '0');
+          const tx = parseFloat(updated.taxes?.toString() || '0');
+          const ds = parseFloat(updated.discounts?.toString() || '0');
+          updated.finalPrice = parseFloat((op - tx + ds).toFixed(2));
+        }
+        
+        return updated;
+      }
+      return item;
+    });
+    onChange(newItems);
+  };
+
+  const updateItemStage = (id: string, stage: ItemStage) => {
+    onChange(items.map(item => (item.id === id ? setItemStage(item, stage) : item)));
+  };
+
+  // Corrects when the current stage was reached
+  const updateStageDate = (id: string, date: string) => {
+    if (!date) return;
+    onChange(items.map(item => {
+      if (item.id !== id || !item.stages?.length) return item;
+      const stages = [...item.stages];
+      stages[stages.length - 1] = { ...stages[stages.length - 1], date: fromInputDate(date) };
+      return { ...item, stages };
+    }));
+  };
+
+  const removeItem = (id: string) => {
+    onChange(items.filter(item => item.id !== id));
+  };
+
+  const handleAiDescription = async (id: string, name: string) => {
+    if (!name) return;
+    const desc = await GeminiService.suggestProductDescription(name);
+    if (desc) updateItem(id, 'name', desc);
+  };
+
+  return (
+    <div className="mb-8">
+        <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-semibold text-slate-800">Productos</h3>
+            <div className="flex gap-2">
+                <Button size="sm" variant="secondary" onClick={() => setShowOrderImport(true)}><ClipboardPaste size={16} className="mr-1" /> Importar Pedido</Button>
+                <Button size="sm" onClick={addItem}><Plus size={16} className="mr-1" /> Agregar Producto</Button>
+            </div>
+        </div>
+        
+        <div className="space-y-4">
+            {items.map((item, index) => {
+                const line = lines[index];
+                const itemGain = line.profit;
+                const rule = ruleForCategory(tariffRules, item.category);
+
+                return (
+                    <div key={item.id} className="bg-slate-50 p-4 rounded-lg border border-slate-200 relative group transition-all hover:shadow-md hover:border-purple-200">
+                        <button 
+                            onClick={() => removeItem(item.id)} 
+                            className="absolute top-2 right-2 text-slate-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                        >
+                            <Trash2 size={18} />
+                        </button>
+
+                        <div className="grid grid-cols-1 md:grid-cols-12 gap-4">
+                            <div className={trackItems ? 'md:col-span-4' : 'md:col-span-6'}>
+                                <label className="text-xs text-slate-500">Producto / URL</label>
+                                <div className="flex">
+                                    <input 
+                                        type="text" 
+                                        className="w-full text-sm border-slate-300 rounded-l-md border p-1 focus:ring-brand focus:border-brand" 
+                                        value={item.name}
+                                        onChange={e => updateItem(item.id, 'name', e.target.value)}
+                                        placeholder="Nombre del producto"
+                                    />
+                                    <button 
+                                        onClick={() => handleAiDescription(item.id, item.name)}
+                                        className="bg-purple-100 text-purple-600 px-2 rounded-r-md border border-l-0 border-purple-200 hover:bg-purple-200"
+                                        title="Mejorar descripción con IA"
+                                    >
+                                        <Wand2 size={14} />
+                                    </button>
+                                </div>
+                            </div>
+                            <div className="md:col-span-2">
+                                <label className="text-xs text-slate-500">Plataforma</label>
+                                <select 
+                                    className="w-full text-sm border-slate-300 rounded-md border p-1 focus:ring-brand focus:border-brand"
+                                    value={item.platform}
+                                    onChange={e => updateItem(item.id, 'platform', e.target.value)}
+                                >
+                                    {Object.values(Platform).map(p => <option key={p} value={p}>{p}</option>)}
+                                </select>
+                            </div>
+                            {trackItems && (
+                                <div className="md:col-span-2">
+                                    <label className="text-xs text-slate-500 flex items-center">
+                                        Tracking (Opcional)
+                                        {item.trackingCarrier && (
+                                            <a
+                                                href={trackingUrl(item.trackingNumber, item.trackingCarrier)}
+                                                target="_blank"
+                                                rel="noopener noreferrer"
+                                                className="ml-1 text-brand flex items-center hover:underline"
+                                                title="Ver en la página del transportista"
+                                            >
+                                                {item.trackingCarrier} <ExternalLink size={10} className="ml-0.5" />
+                                            </a>
+                                        )}
+                                    </label>
+                                    <input 
+                                        type="text" 
+                                        className={`w-full text-sm rounded-md border p-1 focus:ring-brand focus:border-brand ${item.trackingNumber && !item.trackingCarrier ? 'border-amber-300 bg-amber-50' : 'border-slate-300'}`}
+                                        value={item.trackingNumber || ''}
+                                        onChange={e => updateItem(item.id, 'trackingNumber', e.target.value)}
+                                        title={item.trackingNumber && !item.trackingCarrier ? 'Formato de tracking no reconocido' : undefined}
+                                    />
+                                </div>
+                            )}
+                            <div className="md:col-span-1">
+                                <label className="text-xs text-slate-500">Cant.</label>
+                                <input 
+                                    type="number" min="1"
+                                    className="w-full text-sm border-slate-300 rounded-md border p-1 focus:ring-brand focus:border-brand" 
+                                    value={item.quantity}
+                                    onChange={e => updateItem(item.id, 'quantity', parseInt(e.target.value))}
+                                />
+                            </div>
+                            
+                            <div className="md:col-span-3">
+                                <label className="text-xs text-slate-500 flex items-center">
+                                    Categoría aduanal
+                                    {rule && <span className="ml-1 text-yellow-700 flex items-center"><Zap size={10} className="mr-0.5 fill-yellow-500 text-yellow-500" />{describeRule(rule)}</span>}
+                                </label>
+                                <select 
+                                    className={`w-full text-sm rounded-md border p-1 focus:ring-brand focus:border-brand ${rule ? 'bg-yellow-50 border-yellow-200 text-yellow-800' : 'border-slate-300'}`}
+                                    value={item.category || ProductCategory.GENERAL}
+                                    onChange={e => updateItem(item.id, 'category', e.target.value)}
+                                >
+                                    {Object.values(ProductCategory).map(c => <option key={c} value={c}>{c}</option>)}
+                                </select>
+                            </div>
+
+                            <div className="md:col-span-2">
+                                <label className="text-xs text-slate-500 font-medium text-orange-600">Costo Orig. ($)</label>
+                                <input 
+                                    type="number" step="0.01"
+                                    className="w-full text-sm border-orange-200 bg-orange-50 rounded-md border p-1 focus:ring-brand focus:border-brand" 
+                                    value={item.originalPrice}
+                                    onChange={e => updateItem(item.id, 'originalPrice', parseFloat(e.target.value))}
+                                />
+                            </div>
+                            <div className="md:col-span-2">
+                                <label className="text-xs text-slate-500 font-medium text-red-500">Impuesto ($)</label>
+                                <input 
+                                    type="number" step="0.01"
+                                    className="w-full text-sm border-red-200 bg-red-50 rounded-md border p-1 focus:ring-brand focus:border-brand" 
+                                    value={item.taxes}
+                                    onChange={e => updateItem(item.id, 'taxes', parseFloat(e.target.value))}
+                                />
+                            </div>
+                            <div className="md:col-span-2">
+                                <label className="text-xs text-slate-500 font-medium text-blue-500">Descuentos ($)</label>
+                                <input 
+                                    type="number" step="0.01"
+                                    className="w-full text-sm border-blue-200 bg-blue-50 rounded-md border p-1 focus:ring-brand focus:border-brand" 
+                                    value={item.discounts}
+                                    onChange={e => updateItem(item.id, 'discounts', parseFloat(e.target.value))}
+                                />
+                            </div>
+                            <div className="md:col-span-2">
+                                <label className="text-xs text-slate-500 font-medium text-green-600">Precio Venta ($)</label>
+                                <input 
+                                    type="number" step="0.01"
+                                    className="w-full text-sm border-green-200 bg-green-200 rounded-md border p-1 focus:ring-brand focus:border-brand font-bold text-slate-800" 
+                                    value={item.finalPrice}
+                                    readOnly
+                                    title="Calculado automáticamente: Costo - Impuesto + Descuento"
+                                />
+                            </div>
+                            <div className="md:col-span-2">
+                                <label className="text-xs text-slate-500 font-medium text-purple-600">Comisión ($)</label>
+                                <input 
+                                    type="number" step="0.01"
+                                    className="w-full text-sm border-purple-200 bg-purple-50 rounded-md border p-1 focus:ring-brand focus:border-brand" 
+                                    value={item.commission}
+                                    onChange={e => updateItem(item.id, 'commission', parseFloat(e.target.value))}
+                                />
+                            </div>
+                            <div className="md:col-span-2">
+                                <label className="text-xs text-slate-500">Peso</label>
+                                <div className="flex">
+                                    <input 
+                                        type="number" step="0.1"
+                                        className="w-full text-sm border-slate-300 rounded-l-md border p-1 focus:ring-brand focus:border-brand" 
+                                        value={item.weight}
+                                        onChange={e => updateItem(item.id, 'weight', parseFloat(e.target.value))}
+                                    />
+                                    <select 
+                                        className="bg-slate-100 text-xs border border-l-0 border-slate-300 rounded-r-md px-1 focus:ring-0"
+                                        value={item.weightUnit}
+                                        onChange={e => updateItem(item.id, 'weightUnit', e.target.value)}
+                                    >
+                                        <option value="lb">Lb</option>
+                                        <option value="kg">Kg</option>
+                                    </select>
+                                </div>
+                            </div>
+                            <div className="md:col-span-4">
+                                <label className="text-xs text-slate-500">Medidas por unidad (L x A x H)</label>
+                                <div className="flex">
+                                    {(['length', 'width', 'height'] as const).map(dim => (
+                                        <input 
+                                            key={dim}
+                                            type="number" step="0.1" min="0"
+                                            className="w-full min-w-0 text-sm border-slate-300 border border-r-0 first:rounded-l-md p-1 focus:ring-brand focus:border-brand" 
+                                            value={item[dim] ?? ''}
+                                            onChange={e => updateItem(item.id, dim, e.target.value === '' ? undefined : parseFloat(e.target.value))}
+                                        />
+                                    ))}
+                                    <select 
+                                        className="bg-slate-100 text-xs border border-slate-300 rounded-r-md px-1 focus:ring-0"
+                                        value={item.dimensionUnit || 'cm'}
+                                        onChange={e => updateItem(item.id, 'dimensionUnit', e.target.value)}
+                                    >
+                                        <option value="cm">cm</option>
+                                        <option value="in">in</option>
+                                    </select>
+                                </div>
+                            </div>
+                            <div className="md:col-span-6 flex items-end text-xs text-slate-500 gap-3 pb-1">
+                                <span>Real: {line.actualWeightKg.toFixed(2)}kg</span>
+                                <span>Volumétrico: {line.volumetricWeightKg > 0 ? `${line.volumetricWeightKg.toFixed(2)}kg` : '—'}</span>
+                                <span className={`font-semibold ${line.volumetricWeightKg > line.actualWeightKg ? 'text-orange-600' : 'text-slate-700'}`}>
+                                    Facturable: {line.weightKg.toFixed(2)}kg
+                                </span>
+                            </div>
+                            {trackItems && (
+                                <div className="md:col-span-12 flex flex-wrap items-end gap-2 border-t border-slate-200 pt-3">
+                                    <div>
+                                        <label className="text-xs text-slate-500">Etapa</label>
+                                        <select 
+                                            className="block text-sm border-slate-300 rounded-md border p-1 focus:ring-brand focus:border-brand"
+                                            value={currentStage(item)}
+                                            onChange={e => updateItemStage(item.id, e.target.value as ItemStage)}
+                                        >
+                                            {ITEM_STAGES.map(s => <option key={s} value={s}>{s}</option>)}
+                                        </select>
+                                    </div>
+                                    {item.stages && item.stages.length > 0 && (
+                                        <div>
+                                            <label className="text-xs text-slate-500">Desde</label>
+                                            <input 
+                                                type="date"
+                                                className="block text-sm border-slate-300 rounded-md border p-1 focus:ring-brand focus:border-brand"
+                                                value={toInputDate(item.stages[item.stages.length - 1].date)}
+                                                onChange={e => updateStageDate(item.id, e.target.value)}
+                                            />
+                                        </div>
+                                    )}
+                                    <div className="flex flex-wrap gap-1 pb-1">
+                                        {(item.stages || []).map(e => (
+                                            <span key={e.stage} className="text-[10px] bg-white border border-slate-200 text-slate-500 rounded-full px-2 py-0.5">
+                                                {e.stage} · {new Date(e.date).toLocaleDateString()}
+                                            </span>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                            <div className="md:col-span-12 flex items-end justify-end pt-1">
+                                <span className="text-xs text-slate-400 mr-2">Ganancia Item:</span>
+                                <span className="text-sm font-bold text-emerald-600">
+                                    ${itemGain.toFixed(2)}
+                                </span>
+                            </div>
+                        </div>
+                    </div>
+                );
+            })}
+
+            {items.length === 0 && (
+                <div className="text-center py-8 text-slate-400 border-2 border-dashed border-slate-200 rounded-lg">
+                    No hay productos agregados.
+                </div>
+            )}
+        </div>
+
+        {showOrderImport && <OrderImportModal onImport={importItems} onClose={() => setShowOrderImport(false)} />}
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { Menu, X, LayoutDashboard, FileText, Users, CloudOff, Cloud, RefreshCw, Receipt } from 'lucide-react';
+import { Menu, X, LayoutDashboard, FileText, Users, CloudOff, Cloud, RefreshCw, Receipt, AlertTriangle, GitMerge, ShieldAlert, Package, ClipboardList, BellRing, KeyRound } from 'lucide-react';
 import { StorageService } from '../services/storage';
+import { ConflictDialog } from './ConflictDialog';
+import { LoadReportDialog } from './LoadReportDialog';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -11,24 +13,51 @@ interface LayoutProps {
 export const Layout: React.FC<LayoutProps> = ({ children, activeTab, onTabChange }) => {
   const [isSidebarOpen, setSidebarOpen] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
-  const isOnline = navigator.onLine;
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [syncStatus, setSyncStatus] = useState(StorageService.getSyncStatus());
+  const [conflictCount, setConflictCount] = useState(StorageService.getConflicts().length);
+  const [showConflicts, setShowConflicts] = useState(false);
+  const [loadReport, setLoadReport] = useState(StorageService.getLoadReport());
+  const [showLoadReport, setShowLoadReport] = useState(false);
+  const [needsAccessKey, setNeedsAccessKey] = useState(StorageService.needsAccessKey());
+
+  useEffect(() => {
+    const handleOnline = () => {
+        setIsOnline(true);
+        // Back online: push/pull whatever changed while offline
+        StorageService.init();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+        window.removeEventListener('online', handleOnline);
+        window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
 
   useEffect(() => {
     // Initial fetch from cloud
     setIsSyncing(true);
     StorageService.init().finally(() => setIsSyncing(false));
 
-    // Optional: Subscribe to know when data changes happen (often implies a sync started)
+    // Keep the pending-changes counter in step with the outbox
     const unsubscribe = StorageService.subscribe(() => {
-        // Just a visual flash could go here, but sync is handled in background
+        setSyncStatus(StorageService.getSyncStatus());
+        setConflictCount(StorageService.getConflicts().length);
+        setLoadReport(StorageService.getLoadReport());
+        setNeedsAccessKey(StorageService.needsAccessKey());
     });
     return () => unsubscribe();
   }, []);
 
   const navItems = [
     { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard },
+    { id: 'quotes', label: 'Cotizaciones', icon: ClipboardList },
     { id: 'invoices', label: 'Facturas', icon: FileText },
     { id: 'clients', label: 'Clientes', icon: Users },
+    { id: 'reminders', label: 'Cobranza', icon: BellRing },
+    { id: 'shipments', label: 'Envíos', icon: Package },
     { id: 'expenses', label: 'Gastos', icon: Receipt },
   ];
 
@@ -36,10 +65,20 @@ export const Layout: React.FC<LayoutProps> = ({ children, activeTab, onTabChange
     setIsSyncing(true);
     StorageService.init().finally(() => {
         setIsSyncing(false);
-        alert("Datos sincronizados con Google Sheets");
+        const pending = StorageService.getSyncStatus().pending;
+        alert(pending > 0
+            ? `${pending} cambios siguen sin sincronizar. Se reintentará automáticamente.`
+            : "Datos sincronizados con Google Sheets");
     });
   };
 
+  const handleAccessKey = () => {
+    const key = prompt("Clave de acceso de la hoja (ACCESS_KEY en las propiedades del script):");
+    if (!key || !key.trim()) return;
+    setIsSyncing(true);
+    StorageService.setAccessKey(key).finally(() => setIsSyncing(false));
+  };
+
   return (
     <div className="flex h-screen bg-slate-50 overflow-hidden">
       {/* Mobile Header */}
@@ -89,16 +128,56 @@ export const Layout: React.FC<LayoutProps> = ({ children, activeTab, onTabChange
              ) : (
                <CloudOff className="h-3 w-3 mr-2" />
              )}
-             {isOnline ? 'Conectado a Sheet' : 'Modo Offline'}
+             {isOnline ? 'Conectado a Sheet' : 'Modo Offline (datos locales)'}
            </div>
+
+           {syncStatus.pending > 0 && (
+             <div
+               className="flex items-center text-xs mb-2 text-amber-300"
+               title={syncStatus.lastError ? `Último error: ${syncStatus.lastError}` : undefined}
+             >
+               <AlertTriangle className="h-3 w-3 mr-2" />
+               {syncStatus.pending} cambios sin sincronizar
+             </div>
+           )}
+           
+           {needsAccessKey && (
+             <button
+               onClick={handleAccessKey}
+               className="w-full flex items-center text-xs mb-2 text-red-300 hover:text-red-200"
+             >
+               <KeyRound className="h-3 w-3 mr-2" />
+               Ingresar clave de acceso
+             </button>
+           )}
+
+           {conflictCount > 0 && (
+             <button
+               onClick={() => setShowConflicts(true)}
+               className="w-full flex items-center text-xs mb-2 text-orange-300 hover:text-orange-200"
+             >
+               <GitMerge className="h-3 w-3 mr-2" />
+               {conflictCount} conflictos por resolver
+             </button>
+           )}
            
+           {loadReport && (loadReport.repaired.length + loadReport.rejected.length) > 0 && (
+             <button
+               onClick={() => setShowLoadReport(true)}
+               className="w-full flex items-center text-xs mb-2 text-amber-200 hover:text-amber-100"
+             >
+               <ShieldAlert className="h-3 w-3 mr-2" />
+               {loadReport.repaired.length} filas reparadas · {loadReport.rejected.length} rechazadas
+             </button>
+           )}
+
            <button 
              onClick={handleManualSync}
              disabled={isSyncing || !isOnline}
              className="w-full flex items-center justify-center px-3 py-2 bg-white/10 hover:bg-white/20 rounded text-xs text-slate-200 transition-colors disabled:opacity-50"
            >
-             <RefreshCw className={`h-3 w-3 mr-2 ${isSyncing ? 'animate-spin' : ''}`} />
-             {isSyncing ? 'Sincronizando...' : 'Forzar Sincronización'}
+             <RefreshCw className={`h-3 w-3 mr-2 ${isSyncing || syncStatus.isFlushing ? 'animate-spin' : ''}`} />
+             {isSyncing || syncStatus.isFlushing ? 'Sincronizando...' : 'Forzar Sincronización'}
            </button>
         </div>
       </aside>
@@ -110,6 +189,9 @@ export const Layout: React.FC<LayoutProps> = ({ children, activeTab, onTabChange
         </div>
       </main>
       
+      {showConflicts && <ConflictDialog onClose={() => setShowConflicts(false)} />}
+      {showLoadReport && loadReport && <LoadReportDialog report={loadReport} onClose={() => setShowLoadReport(false)} />}
+
       {/* Overlay for mobile */}
       {isSidebarOpen && (
         <div 
@@ -0,0 +1,94 @@
+import React from 'react';
+import { X, ShieldAlert, Wrench, Ban } from 'lucide-react';
+import { LoadReport, RowIssue } from '../services/schema';
+
+interface LoadReportDialogProps {
+  report: LoadReport;
+  onClose: () => void;
+}
+
+const ENTITY_LABELS: Record<string, string> = {
+  clients: 'Cliente',
+  invoices: 'Factura',
+  expenses: 'Gasto',
+  exchangeRates: 'Tasa de cambio',
+  shipments: 'Envío consolidado',
+  quotes: 'Cotización',
+  reminders: 'Recordatorio de cobro',
+  credits: 'Saldo a favor',
+  settings: 'Configuración'
+};
+
+const IssueList: React.FC<{ issues: RowIssue[]; tone: 'repaired' | 'rejected' }> = ({ issues, tone }) => (
+  <ul className="divide-y divide-slate-100">
+    {issues.map(issue => (
+      <li key={`${issue.entity}-${issue.id}`} className="py-3">
+        <div className="flex items-center gap-2 text-sm font-medium text-slate-800">
+          <span className={`text-[10px] uppercase font-bold px-2 py-0.5 rounded ${tone === 'rejected' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'}`}>
+            {ENTITY_LABELS[issue.entity] || issue.entity}
+          </span>
+          {issue.label}
+        </div>
+        <ul className="mt-1 ml-2 text-xs text-slate-500 list-disc list-inside">
+          {issue.messages.map((m, i) => <li key={i}>{m}</li>)}
+        </ul>
+      </li>
+    ))}
+  </ul>
+);
+
+export const LoadReportDialog: React.FC<LoadReportDialogProps> = ({ report, onClose }) => (
+  <div className="fixed inset-0 z-[70] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-200" onClick={onClose}>
+    <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+      <div className="flex justify-between items-center p-6 border-b border-slate-100">
+        <div>
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5 text-amber-500" />
+            Revisión de datos
+          </h2>
+          <p className="text-sm text-slate-500">
+            {report.source === 'cloud' ? 'Carga desde la nube' : 'Carga local'} · {new Date(report.checkedAt).toLocaleString()} · esquema v{report.schemaVersion}
+          </p>
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-700 transition-colors p-1 rounded-md hover:bg-slate-100">
+          <X size={24} />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto flex-1 p-6 space-y-6">
+        <div className="grid grid-cols-3 gap-3 text-center">
+          <div className="bg-slate-50 rounded-lg p-3">
+            <div className="text-xs text-slate-500">Filas revisadas</div>
+            <div className="text-xl font-bold text-slate-800">{report.total}</div>
+          </div>
+          <div className="bg-amber-50 rounded-lg p-3">
+            <div className="text-xs text-amber-700">Reparadas</div>
+            <div className="text-xl font-bold text-amber-700">{report.repaired.length}</div>
+          </div>
+          <div className="bg-red-50 rounded-lg p-3">
+            <div className="text-xs text-red-700">Rechazadas</div>
+            <div className="text-xl font-bold text-red-700">{report.rejected.length}</div>
+          </div>
+        </div>
+        {report.migrated > 0 && (
+          <p className="text-xs text-slate-500">{report.migrated} filas se actualizaron desde una versión anterior del esquema.</p>
+        )}
+
+        {report.rejected.length > 0 && (
+          <div>
+            <h3 className="font-semibold text-red-700 flex items-center gap-2 mb-1"><Ban size={16} /> Rechazadas (no se cargaron)</h3>
+            <IssueList issues={report.rejected} tone="rejected" />
+          </div>
+        )}
+
+        {report.repaired.length > 0 && (
+          <div>
+            <h3 className="font-semibold text-amber-700 flex items-center gap-2 mb-1"><Wrench size={16} /> Reparadas</h3>
+            <p className="text-xs text-slate-500 mb-1">Se corregirán en la hoja la próxima vez que se guarde el registro.</p>
+            <IssueList issues={report.repaired} tone="repaired" />
+          </div>
+        )}
+      </div>
+    </div>
+  </div>
+);
@@ -0,0 +1,126 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Platform, ProductItem } from '../types';
+import { parseOrder, toProductItems } from '../services/orderImport';
+import { Button } from './Button';
+import { AlertTriangle, Upload, X } from 'lucide-react';
+
+interface OrderImportModalProps {
+  onImport: (items: ProductItem[]) => void;
+  onClose: () => void;
+}
+
+export const OrderImportModal: React.FC<OrderImportModalProps> = ({ onImport, onClose }) => {
+  const [text, setText] = useState('');
+  const [platform, setPlatform] = useState<Platform | ''>(''); // '' = detect from the text
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const result = useMemo(() => (text.trim() ? parseOrder(text, platform || undefined) : null), [text, platform]);
+  const selected = result ? result.lines.filter((_, i) => !excluded.has(i)) : [];
+
+  const changeText = (value: string) => {
+    setText(value);
+    setExcluded(new Set());
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    changeText(await file.text());
+  };
+
+  const toggleLine = (index: number) => {
+    const next = new Set(excluded);
+    if (next.has(index)) next.delete(index);
+    else next.add(index);
+    setExcluded(next);
+  };
+
+  const handleImport = () => {
+    if (!result || selected.length === 0) return;
+    onImport(toProductItems(selected, result.platform));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <div>
+            <h3 className="font-bold text-slate-800">Importar Pedido</h3>
+            <p className="text-xs text-slate-500">Pega la confirmación del pedido o carga el CSV / HTML exportado de la tienda.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X size={20} /></button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <select className="rounded-md border-slate-300 border p-2 text-sm" value={platform} onChange={e => setPlatform(e.target.value as Platform | '')}>
+              <option value="">Detectar tienda{result && !platform ? ` (${result.platform})` : ''}</option>
+              {Object.values(Platform).map(p => <option key={p} value={p}>{p}</option>)}
+            </select>
+            <Button type="button" size="sm" variant="secondary" onClick={() => fileRef.current?.click()}>
+              <Upload size={14} className="mr-1" /> Cargar archivo
+            </Button>
+            <input ref={fileRef} type="file" accept=".csv,.html,.htm,.txt,text/csv,text/html,text/plain" className="hidden" onChange={handleFile} />
+          </div>
+
+          <textarea
+            className="w-full h-40 rounded-md border-slate-300 border p-2 text-sm font-mono focus:ring-brand focus:border-brand"
+            placeholder={"Vestido floral\nColor: Negro\n$12.79\nx2"}
+            value={text}
+            onChange={e => changeText(e.target.value)}
+          />
+
+          {result && result.warnings.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-xs text-amber-800 space-y-1">
+              {result.warnings.map((w, i) => (
+                <div key={i} className="flex items-start"><AlertTriangle size={12} className="mr-1 mt-0.5 flex-shrink-0" /> {w}</div>
+              ))}
+            </div>
+          )}
+
+          {result && result.lines.length > 0 && (
+            <div className="border border-slate-200 rounded-lg overflow-hidden">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-xs text-slate-500">
+                  <tr>
+                    <th className="p-2 w-8"></th>
+                    <th className="p-2 text-left">Producto</th>
+                    <th className="p-2 text-right">Cant.</th>
+                    <th className="p-2 text-right">Precio</th>
+                    <th className="p-2 text-right">Impuesto</th>
+                    <th className="p-2 text-right">Descuento</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {result.lines.map((line, i) => (
+                    <tr key={i} className={excluded.has(i) ? 'text-slate-400' : 'text-slate-700'}>
+                      <td className="p-2 text-center">
+                        <input type="checkbox" checked={!excluded.has(i)} onChange={() => toggleLine(i)} />
+                      </td>
+                      <td className="p-2">{line.name}</td>
+                      <td className="p-2 text-right">{line.quantity}</td>
+                      <td className="p-2 text-right">${line.price.toFixed(2)}</td>
+                      <td className="p-2 text-right">${line.taxes.toFixed(2)}</td>
+                      <td className="p-2 text-right">${line.discounts.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="px-2 py-1.5 bg-slate-50 text-xs text-slate-500">Montos por unidad. Revisa el peso de cada producto después de agregarlo.</p>
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 flex justify-end gap-3">
+          <Button type="button" variant="secondary" onClick={onClose}>Cancelar</Button>
+          <Button type="button" onClick={handleImport} disabled={selected.length === 0}>
+            Agregar {selected.length} {selected.length === 1 ? 'producto' : 'productos'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,231 @@
+import React, { useState, useEffect } from 'react';
+import { Payment, PaymentMethod, Currency } from '../types';
+import { createPayment, sortPayments, toUsd } from '../services/payments';
+import { StorageService } from '../services/storage';
+import { Button } from './Button';
+import { Plus, Trash2, Percent, X, Wallet } from 'lucide-react';
+
+interface PaymentLedgerProps {
+  payments: Payment[];
+  grandTotalUsd: number;
+  onAdd: (payment: Payment) => void;
+  onRemove: (paymentId: string) => void;
+  // When set, opens the form prefilled with this USD amount (e.g. marking as Pagado)
+  prefillUsd?: number | null;
+  onPrefillHandled?: () => void;
+  // Client's saldo a favor that can pay this invoice; hidden when missing or zero
+  availableCredit?: number;
+}
+
+// Local calendar day; toISOString would give tomorrow's date in the evening in Venezuela
+const today = () => {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+// Local noon, so the chosen day reads the same in any timezone offset
+const fromInputDate = (date: string) => new Date(`${date}T12:00:00`).toISOString();
+
+export const PaymentLedger: React.FC<PaymentLedgerProps> = ({
+  payments, grandTotalUsd, onAdd, onRemove, prefillUsd, onPrefillHandled, availableCredit = 0
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [amount, setAmount] = useState(0);
+  const [currency, setCurrency] = useState<Currency>('USD');
+  const [rate, setRate] = useState(() => StorageService.getRateForDate(today()));
+  const [method, setMethod] = useState<PaymentMethod>(PaymentMethod.ZELLE);
+  const [reference, setReference] = useState('');
+  const [date, setDate] = useState(today());
+
+  const paidUsd = payments.reduce((acc, p) => acc + (p.amountUsd || 0), 0);
+  const remaining = Math.max(0, grandTotalUsd - paidUsd);
+  const excess = paidUsd - grandTotalUsd;
+  const creditToApply = Math.min(availableCredit, remaining);
+
+  const openForm = (usd: number) => {
+    setCurrency('USD');
+    setAmount(parseFloat(usd.toFixed(2)));
+    setReference('');
+    changeDate(today());
+    setIsOpen(true);
+  };
+
+  useEffect(() => {
+    if (prefillUsd != null) {
+      openForm(prefillUsd);
+      onPrefillHandled?.();
+    }
+  }, [prefillUsd]);
+
+  // Bs abonos are converted at the rate of the day they were paid
+  const changeDate = (next: string) => {
+    setDate(next);
+    if (next) setRate(StorageService.getRateForDate(next));
+  };
+
+  // Quick fills are expressed in USD and converted when the abono is in Bs
+  const fillUsd = (usd: number) => {
+    const value = currency === 'Bs' ? usd * (rate || 0) : usd;
+    setAmount(parseFloat(value.toFixed(2)));
+  };
+
+  const handleCurrency = (next: Currency) => {
+    setCurrency(next);
+    if (next === 'Bs') setMethod(PaymentMethod.PAGO_MOVIL);
+    else if (method === PaymentMethod.PAGO_MOVIL || method === PaymentMethod.CASH_BS) setMethod(PaymentMethod.ZELLE);
+  };
+
+  const handleRegister = () => {
+    if (!amount || amount <= 0) {
+      alert("Ingrese un monto válido");
+      return;
+    }
+    if (currency === 'Bs' && (!rate || rate <= 0)) {
+      alert("Ingrese la tasa del día del abono");
+      return;
+    }
+    onAdd(createPayment({
+      amount,
+      currency,
+      exchangeRate: rate,
+      method,
+      reference,
+      date: fromInputDate(date)
+    }));
+    setIsOpen(false);
+  };
+
+  // Moves existing money, so it is always USD at face value
+  const handleApplyCredit = () => {
+    onAdd(createPayment({
+      amount: parseFloat(creditToApply.toFixed(2)),
+      currency: 'USD',
+      exchangeRate: rate,
+      method: PaymentMethod.CREDIT
+    }));
+  };
+
+  return (
+    <div>
+      {payments.length > 0 ? (
+        <ul className="divide-y divide-slate-100 mb-3 text-xs">
+          {sortPayments(payments).map(p => (
+            <li key={p.id} className="py-1.5 flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <div className="font-medium text-slate-700">
+                  {p.currency === 'Bs'
+                    ? `Bs ${p.amount.toLocaleString('es-VE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+                    : `$${p.amount.toFixed(2)}`}
+                  <span className="text-slate-400 font-normal"> · {p.method}</span>
+                </div>
+                <div className="text-slate-400 truncate">
+                  {new Date(p.date).toLocaleDateString()}
+                  {p.currency === 'Bs' && ` · Tasa ${p.exchangeRate}`}
+                  {p.reference && ` · Ref ${p.reference}`}
+                  {p.notes && ` · ${p.notes}`}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <span className="font-bold text-emerald-700">${p.amountUsd.toFixed(2)}</span>
+                <button type="button" onClick={() => onRemove(p.id)} className="text-slate-300 hover:text-red-500" title="Eliminar abono">
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-slate-400 mb-3">Sin abonos registrados.</p>
+      )}
+
+      {excess > 0.005 && (
+        <p className="text-xs text-blue-700 bg-blue-50 border border-blue-100 rounded p-2 mb-3">
+          Excedente de ${excess.toFixed(2)}: queda como saldo a favor del cliente.
+        </p>
+      )}
+
+      {creditToApply > 0.005 && (
+        <Button size="sm" type="button" variant="secondary" className="w-full text-xs mb-2 text-blue-700" onClick={handleApplyCredit}>
+          <Wallet size={12} className="mr-1" /> Usar saldo a favor (${creditToApply.toFixed(2)} de ${availableCredit.toFixed(2)})
+        </Button>
+      )}
+
+      {!isOpen ? (
+        <Button size="sm" type="button" variant="secondary" className="w-full text-xs" onClick={() => openForm(0)}>
+          <Plus size={12} className="mr-1" /> Registrar abono
+        </Button>
+      ) : (
+        <div className="bg-slate-50 border border-slate-200 rounded p-3 space-y-2 text-xs animate-in fade-in slide-in-from-top-1">
+          <div className="flex justify-between items-center">
+            <span className="font-bold text-slate-700">Nuevo abono</span>
+            <button type="button" onClick={() => setIsOpen(false)} className="text-slate-400 hover:text-slate-700"><X size={14} /></button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="col-span-2 flex gap-2">
+              <input
+                type="number"
+                step="0.01"
+                className="flex-1 p-1.5 border border-slate-300 rounded focus:ring-brand"
+                value={amount}
+                onChange={e => setAmount(parseFloat(e.target.value) || 0)}
+              />
+              <select
+                className="p-1.5 border border-slate-300 rounded"
+                value={currency}
+                onChange={e => handleCurrency(e.target.value as Currency)}
+              >
+                <option value="USD">USD</option>
+                <option value="Bs">Bs</option>
+              </select>
+            </div>
+            <div className="col-span-2 flex gap-2">
+              <button type="button" onClick={() => fillUsd(grandTotalUsd * 0.70)} className="flex items-center px-2 py-0.5 rounded bg-purple-50 text-purple-600 hover:bg-purple-100 border border-purple-200">
+                <Percent size={10} className="mr-1" /> 70%
+              </button>
+              <button type="button" onClick={() => fillUsd(remaining)} className="px-2 py-0.5 rounded bg-emerald-50 text-emerald-700 hover:bg-emerald-100 border border-emerald-200">
+                Saldo ${remaining.toFixed(2)}
+              </button>
+            </div>
+            {currency === 'Bs' && (
+              <label className="col-span-2 flex items-center justify-between gap-2 text-slate-500">
+                Tasa del abono (Bs/USD)
+                <input
+                  type="number"
+                  step="0.01"
+                  className="w-24 text-right p-1.5 border border-slate-300 rounded"
+                  value={rate}
+                  onChange={e => setRate(parseFloat(e.target.value) || 0)}
+                />
+              </label>
+            )}
+            <select
+              className="p-1.5 border border-slate-300 rounded"
+              value={method}
+              onChange={e => setMethod(e.target.value as PaymentMethod)}
+            >
+              {Object.values(PaymentMethod).filter(m => m !== PaymentMethod.CREDIT).map(m => <option key={m} value={m}>{m}</option>)}
+            </select>
+            <input
+              type="date"
+              className="p-1.5 border border-slate-300 rounded"
+              value={date}
+              onChange={e => changeDate(e.target.value)}
+            />
+            <input
+              type="text"
+              className="col-span-2 p-1.5 border border-slate-300 rounded"
+              placeholder="Referencia (opcional)"
+              value={reference}
+              onChange={e => setReference(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-between items-center pt-1">
+            <span className="text-slate-500">
+              = ${toUsd(amount, currency, rate).toFixed(2)} USD
+            </span>
+            <Button size="sm" type="button" onClick={handleRegister}>Registrar</Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
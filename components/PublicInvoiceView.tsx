@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { PublicInvoice } from '../types';
+import { StorageService } from '../services/storage';
+import { trackingUrl } from '../services/tracking';
+
+interface PublicInvoiceViewProps {
+  token: string;
+}
+
+const formatUSD = (amount: number) => `$ ${(amount || 0).toLocaleString('es-VE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const formatBs = (amount: number) => `Bs ${(amount || 0).toLocaleString('es-VE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// What a client sees through a shared link: the invoice only, no admin UI and no local data
+export const PublicInvoiceView: React.FC<PublicInvoiceViewProps> = ({ token }) => {
+  const [invoice, setInvoice] = useState<PublicInvoice | null>(null);
+  const [state, setState] = useState<'loading' | 'ready' | 'missing' | 'error'>('loading');
+
+  useEffect(() => {
+    StorageService.fetchSharedInvoice(token)
+      .then(view => {
+        setInvoice(view);
+        setState(view ? 'ready' : 'missing');
+      })
+      .catch(() => setState('error'));
+  }, [token]);
+
+  if (state !== 'ready' || !invoice) {
+    const messages = {
+      loading: 'Cargando factura...',
+      missing: 'Este enlace no es válido o fue desactivado.',
+      error: 'No se pudo cargar la factura. Intenta de nuevo más tarde.'
+    };
+    return (
+      <div className="flex flex-col items-center justify-center h-screen bg-slate-50 text-slate-600 p-6 text-center">
+        {state === 'loading' && <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand mb-4"></div>}
+        <h2 className="text-xl font-bold text-brand mb-2">KASSTYLE</h2>
+        <p className="text-sm">{messages[state]}</p>
+      </div>
+    );
+  }
+
+  const balance = Math.max(0, invoice.grandTotalUsd - invoice.amountPaid);
+
+  return (
+    <div className="min-h-screen bg-slate-50 py-6 px-4">
+      <div className="max-w-2xl mx-auto bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-5 border-b-4 border-brand flex justify-between items-start gap-4">
+          <div>
+            <div className="text-3xl font-black text-brand tracking-tight leading-none">KASSTYLE</div>
+            <div className="text-xs text-slate-500 mt-1">Logística & Importación</div>
+          </div>
+          <div className="text-right">
+            <div className="font-bold text-slate-800">{invoice.invoiceNumber ? `Factura ${invoice.invoiceNumber}` : 'Factura'}</div>
+            <div className="text-xs text-slate-500">{new Date(invoice.createdAt).toLocaleDateString()}</div>
+            <span className="inline-block mt-1 text-xs font-semibold rounded-full px-2 py-0.5 bg-slate-100 text-slate-700 border border-slate-200">{invoice.status}</span>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 bg-slate-50 border-b border-slate-100">
+          <div className="text-xs uppercase font-semibold text-slate-500">Cliente</div>
+          <div className="font-bold text-slate-800">{invoice.clientName}</div>
+        </div>
+
+        <div className="divide-y divide-slate-100">
+          {invoice.items.map((item, index) => {
+            const url = trackingUrl(item.trackingNumber, item.trackingCarrier);
+            return (
+              <div key={index} className="px-6 py-3 flex justify-between gap-4 text-sm">
+                <div className="min-w-0">
+                  <div className="font-medium text-slate-800">{item.name}</div>
+                  <div className="text-xs text-slate-500">
+                    {item.quantity} x {formatUSD(item.unitPrice)} + {formatUSD(item.unitAddons)} envío/imp. · {item.platform}
+                  </div>
+                  <div className="text-xs text-slate-500">
+                    {item.stage}
+                    {item.trackingNumber && (
+                      <> · {url
+                        ? <a href={url} target="_blank" rel="noopener noreferrer" className="text-brand hover:underline">{item.trackingCarrier || 'Tracking'} {item.trackingNumber}</a>
+                        : <span>{item.trackingNumber}</span>}
+                      </>
+                    )}
+                  </div>
+                </div>
+                <div className="font-bold text-slate-900 whitespace-nowrap">{formatUSD(item.total)}</div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 space-y-1 text-sm">
+          {invoice.duties.map(d => (
+            <div key={d.label} className="flex justify-between text-xs text-slate-500">
+              <span>Incl. arancel {d.label}</span>
+              <span>{formatUSD(d.amount)}</span>
+            </div>
+          ))}
+          <div className="flex justify-between pt-2 text-lg font-bold text-brand">
+            <span>Total</span>
+            <span>{formatUSD(invoice.grandTotalUsd)}</span>
+          </div>
+          <div className="text-right text-xs text-slate-500">{formatBs(invoice.grandTotalUsd * invoice.exchangeRate)} · tasa {invoice.exchangeRate}</div>
+          <div className="flex justify-between pt-2 text-slate-600">
+            <span>Abonado</span>
+            <span>{formatUSD(invoice.amountPaid)}</span>
+          </div>
+          <div className={`flex justify-between font-bold ${balance > 0.005 ? 'text-amber-600' : 'text-emerald-600'}`}>
+            <span>Saldo</span>
+            <span>{balance > 0.005 ? formatUSD(balance) : 'Pagado'}</span>
+          </div>
+        </div>
+
+        {invoice.payments.length > 0 && (
+          <div className="px-6 py-4 border-t border-slate-100">
+            <div className="text-xs uppercase font-semibold text-slate-500 mb-2">Abonos</div>
+            {invoice.payments.map((p, index) => (
+              <div key={index} className="flex justify-between text-sm text-slate-600">
+                <span>{new Date(p.date).toLocaleDateString()} · {p.method}</span>
+                <span className="font-medium">{formatUSD(p.amountUsd)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="px-6 py-4 border-t border-slate-100 text-center text-xs text-slate-400">
+          Actualizado el {new Date(invoice.updatedAt).toLocaleString()} · Gracias por confiar en KASSTYLE
+        </div>
+      </div>
+    </div>
+  );
+};
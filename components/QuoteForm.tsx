@@ -0,0 +1,210 @@
+import React, { useState, useEffect } from 'react';
+import { Quote, QuoteStatus, ProductItem, Client, TariffRule, ShippingRate } from '../types';
+import { StorageService } from '../services/storage';
+import { Button } from './Button';
+import { ArrowLeft, Zap } from 'lucide-react';
+import { priceInvoice } from '../services/pricing';
+import { describeRule } from '../services/tariffs';
+import { describeShippingRate, findShippingRate } from '../services/shipping';
+import { defaultValidUntil } from '../services/quotes';
+import { ItemEditor } from './ItemEditor';
+
+interface QuoteFormProps {
+  quoteId?: string | null;
+  onClose: () => void;
+}
+
+const toInputDate = (iso: string) => {
+  const d = new Date(iso);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+// Local noon, so the chosen day reads the same in any timezone offset
+const fromInputDate = (date: string) => new Date(`${date}T12:00:00`).toISOString();
+
+export const QuoteForm: React.FC<QuoteFormProps> = ({ quoteId, onClose }) => {
+  const [clients, setClients] = useState<Client[]>([]);
+  const [existing, setExisting] = useState<Quote | null>(null);
+  const [clientId, setClientId] = useState('');
+  const [validUntil, setValidUntil] = useState(toInputDate(defaultValidUntil()));
+  const [exchangeRate, setExchangeRate] = useState(0);
+  const [items, setItems] = useState<ProductItem[]>([]);
+  const [notes, setNotes] = useState('');
+  const [shippingRates, setShippingRates] = useState<ShippingRate[]>([]);
+  const [shippingRateId, setShippingRateId] = useState('');
+  const [tariffRules, setTariffRules] = useState<TariffRule[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const shippingRate = findShippingRate(shippingRates, shippingRateId);
+
+  useEffect(() => {
+    setClients(StorageService.getClients());
+    const currentShippingRates = StorageService.getShippingRates();
+    setShippingRates(currentShippingRates);
+    setTariffRules(StorageService.getTariffRules());
+
+    const quote = quoteId ? StorageService.getQuotes().find(q => q.id === quoteId) : undefined;
+    if (quote) {
+      setExisting(quote);
+      setClientId(quote.clientId || '');
+      setValidUntil(toInputDate(quote.validUntil));
+      setExchangeRate(quote.exchangeRate);
+      setItems(quote.items || []);
+      setNotes(quote.notes || '');
+      setShippingRateId(findShippingRate(currentShippingRates, quote.shippingRateId)?.id || '');
+    } else {
+      setExchangeRate(StorageService.getExchangeRate());
+      setShippingRateId(currentShippingRates[0]?.id || '');
+    }
+  }, [quoteId]);
+
+  // Quotes always charge what the items add up to
+  const pricing = priceInvoice(items, { shippingRate, tariffRules });
+  const freight = pricing.freight;
+  const grandTotalBs = pricing.grandTotal * (exchangeRate || 0);
+
+  const handleSave = async () => {
+    if (!clientId) {
+      alert("Seleccione un cliente");
+      return;
+    }
+    if (items.length === 0) {
+      alert("Agregue al menos un producto");
+      return;
+    }
+    setIsSaving(true);
+    const now = new Date().toISOString();
+    await StorageService.saveQuote({
+      ...existing,
+      id: existing?.id || crypto.randomUUID(),
+      clientId,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+      validUntil: fromInputDate(validUntil),
+      status: existing?.status || QuoteStatus.OPEN,
+      exchangeRate,
+      items,
+      logisticsCost: pricing.suggestedLogistics,
+      shippingRateId: shippingRateId || undefined,
+      notes: notes.trim() || undefined,
+      grandTotalUsd: pricing.grandTotal
+    });
+    setIsSaving(false);
+    onClose();
+  };
+
+  return (
+    <div className="bg-white min-h-screen sm:min-h-0 sm:rounded-lg shadow-xl flex flex-col h-full">
+      <div className="px-6 py-4 border-b border-slate-200 flex justify-between items-center bg-slate-50 sticky top-0 z-10">
+        <div className="flex items-center">
+            <button onClick={onClose} className="mr-4 text-slate-500 hover:text-slate-800">
+                <ArrowLeft size={20} />
+            </button>
+            <h2 className="text-xl font-bold text-slate-800">
+                {quoteId ? 'Editar Cotización' : 'Nueva Cotización'}
+            </h2>
+        </div>
+        <div className="flex gap-2">
+            <Button variant="secondary" onClick={onClose} disabled={isSaving}>Cancelar</Button>
+            <Button onClick={handleSave} isLoading={isSaving}>
+                {isSaving ? 'Guardando...' : 'Guardar'}
+            </Button>
+        </div>
+      </div>
+
+      <div className="p-6 overflow-y-auto flex-1">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+            <div className="lg:col-span-2">
+                <label className="block text-sm font-medium text-slate-700 mb-1">Cliente</label>
+                <select
+                    className="w-full rounded-md border-slate-300 border p-2 focus:ring-brand focus:border-brand"
+                    value={clientId}
+                    onChange={e => setClientId(e.target.value)}
+                >
+                    <option value="">Seleccione un cliente...</option>
+                    {clients.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </select>
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Válida hasta</label>
+                <input
+                    type="date"
+                    className="w-full rounded-md border-slate-300 border p-2 focus:ring-brand focus:border-brand"
+                    value={validUntil}
+                    onChange={e => setValidUntil(e.target.value)}
+                />
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Tarifa de Envío</label>
+                <select
+                    className="w-full rounded-md border-slate-300 border p-2 focus:ring-brand focus:border-brand"
+                    value={shippingRateId}
+                    onChange={e => setShippingRateId(e.target.value)}
+                >
+                    {shippingRates.map(r => <option key={r.id} value={r.id}>{describeShippingRate(r)}</option>)}
+                </select>
+            </div>
+        </div>
+
+        <ItemEditor items={items} onChange={setItems} lines={pricing.items} tariffRules={tariffRules} trackItems={false} />
+
+        <div className="bg-slate-100 p-6 rounded-lg grid grid-cols-1 md:grid-cols-2 gap-8">
+            <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Notas para el cliente</label>
+                <textarea
+                    className="w-full h-28 rounded-md border-slate-300 border p-2 text-sm focus:ring-brand focus:border-brand"
+                    placeholder="Tiempo de entrega estimado, condiciones de pago..."
+                    value={notes}
+                    onChange={e => setNotes(e.target.value)}
+                />
+            </div>
+            <div className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                    <span className="text-slate-500">Subtotal Productos:</span>
+                    <span className="font-medium">${pricing.productSale.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between items-start">
+                    <div className="text-slate-500 flex flex-col">
+                        <span className="font-semibold text-slate-700">Costo Logística Total</span>
+                        <span className="text-xs text-slate-400">
+                            Envío: {freight.weight.toFixed(2)}{shippingRate?.unit || 'kg'} x ${freight.unitPrice}/{shippingRate?.unit || 'kg'} = ${freight.cost.toFixed(2)}
+                        </span>
+                        {pricing.dutiesByCategory.map(d => (
+                            <span key={d.category} className="text-xs text-yellow-600 flex items-center mt-0.5">
+                                <Zap size={10} className="mr-1"/> Arancel {d.category} ({describeRule(d.rule)}): ${d.amount.toFixed(2)}
+                            </span>
+                        ))}
+                    </div>
+                    <span className="font-medium">${pricing.logistics.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between text-xs text-slate-400">
+                    <span>Comisiones Internas:</span>
+                    <span>${pricing.commissions.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between pt-2 border-t border-slate-300 font-bold text-lg text-brand">
+                    <span>Total Cotizado (USD):</span>
+                    <span>${pricing.grandTotal.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between items-center font-bold text-emerald-700">
+                    <span>Total en Bolívares:</span>
+                    <span>Bs {(!isNaN(grandTotalBs) ? grandTotalBs : 0).toLocaleString('es-VE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </div>
+                <div className="flex justify-between items-center text-xs text-slate-500">
+                    <span>Tasa de Cambio (Bs/USD):</span>
+                    <input
+                        type="number"
+                        step="0.01"
+                        className="w-24 text-right p-1 border border-slate-300 rounded text-xs focus:ring-brand"
+                        value={exchangeRate}
+                        onChange={(e) => setExchangeRate(parseFloat(e.target.value))}
+                    />
+                </div>
+                <div className="text-right pt-2">
+                    <p className="text-xs text-slate-400">Ganancia Estimada</p>
+                    <p className="text-sm font-bold text-slate-700">${pricing.profit.toFixed(2)}</p>
+                </div>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,201 @@
+import React, { useState, useEffect } from 'react';
+import { Quote, QuoteStatus, Client } from '../types';
+import { StorageService } from '../services/storage';
+import { Button } from './Button';
+import { Edit, Trash2, FileDown, Share2, CheckCircle, XCircle } from 'lucide-react';
+import { QuoteForm } from './QuoteForm';
+import { invoiceLabel } from '../services/invoiceNumbers';
+import { QUOTE_EXPIRED, QuoteState, quoteState, quoteSummaryText } from '../services/quotes';
+import { buildQuotePdf, quotePdfFileName } from '../services/pdf';
+
+const STATE_FILTERS: QuoteState[] = [QuoteStatus.OPEN, QuoteStatus.ACCEPTED, QuoteStatus.REJECTED, QUOTE_EXPIRED];
+
+const getStateColor = (state: QuoteState) => {
+  switch (state) {
+    case QuoteStatus.OPEN: return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+    case QuoteStatus.ACCEPTED: return 'bg-green-100 text-green-800 border-green-200';
+    case QuoteStatus.REJECTED: return 'bg-red-100 text-red-800 border-red-200';
+    default: return 'bg-gray-100 text-gray-800 border-gray-200';
+  }
+};
+
+export const QuoteList: React.FC = () => {
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [filterState, setFilterState] = useState<string>('all');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const getClient = (id: string): Client =>
+    clients.find(c => c.id === id) || { id: '0', name: 'Cliente desconocido', phone: '', address: '', email: '' };
+
+  const loadData = () => {
+    setQuotes(StorageService.getQuotes());
+    setClients(StorageService.getClients());
+  };
+
+  useEffect(() => {
+    loadData();
+    const unsubscribe = StorageService.subscribe(loadData);
+    return () => unsubscribe();
+  }, []);
+
+  const handleNew = () => {
+    setEditingId(null);
+    setIsFormOpen(true);
+  };
+
+  const handleEdit = (id: string) => {
+    setEditingId(id);
+    setIsFormOpen(true);
+  };
+
+  const handleAccept = async (quote: Quote) => {
+    if (!confirm(`¿Aceptar la cotización de ${getClient(quote.clientId).name} y crear su factura?`)) return;
+    const invoice = await StorageService.convertQuoteToInvoice(quote.id);
+    if (invoice) {
+      alert(`Factura ${invoiceLabel(invoice)} creada como ${invoice.status}. Recibirá su número al sincronizar.`);
+    }
+  };
+
+  const handleReject = async (quote: Quote) => {
+    if (!confirm("¿Marcar la cotización como Rechazada?")) return;
+    await StorageService.saveQuote({ ...quote, status: QuoteStatus.REJECTED });
+  };
+
+  const handleDelete = async (quote: Quote) => {
+    if (!confirm("¿Eliminar esta cotización permanentemente?")) return;
+    await StorageService.deleteQuote(quote.id);
+  };
+
+  const handleShare = async (quote: Quote) => {
+    const text = quoteSummaryText(quote, getClient(quote.clientId).name, StorageService.getInvoiceBreakdown(quote));
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: 'Cotización KASSTYLE', text });
+        return;
+      } catch (e) {
+        // Cancelled or unsupported payload: fall back to the clipboard
+      }
+    }
+    try {
+      await navigator.clipboard.writeText(text);
+      alert("Resumen copiado al portapapeles");
+    } catch (e) {
+      alert("No se pudo copiar el resumen");
+    }
+  };
+
+  const handleDownload = (quote: Quote) => {
+    const doc = buildQuotePdf({ quote, client: getClient(quote.clientId), pricing: StorageService.getInvoiceBreakdown(quote) });
+    doc.save(quotePdfFileName(quote));
+  };
+
+  const filteredQuotes = quotes.filter(q => filterState === 'all' || quoteState(q) === filterState);
+
+  if (isFormOpen) {
+    return <QuoteForm quoteId={editingId} onClose={() => setIsFormOpen(false)} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <h2 className="text-2xl font-bold text-slate-800">Cotizaciones</h2>
+        <Button onClick={handleNew}>+ Nueva Cotización</Button>
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto pb-2">
+        {['all', ...STATE_FILTERS].map(state => (
+            <button
+                key={state}
+                onClick={() => setFilterState(state)}
+                className={`px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-colors ${filterState === state ? 'bg-brand text-white' : 'bg-white text-slate-600 border border-slate-200 hover:text-brand'}`}
+            >
+                {state === 'all' ? 'Todas' : state}
+            </button>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="overflow-x-auto">
+            <table className="w-full text-left border-collapse">
+                <thead>
+                    <tr className="bg-slate-50 border-b border-slate-200">
+                        <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Cliente</th>
+                        <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Fecha</th>
+                        <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Válida hasta</th>
+                        <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Estado</th>
+                        <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider text-right">Total</th>
+                        <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider text-right">Acciones</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-200">
+                    {filteredQuotes.map(quote => {
+                        const state = quoteState(quote);
+                        const invoice = quote.invoiceId ? StorageService.getInvoices().find(i => i.id === quote.invoiceId) : undefined;
+                        // Expired quotes can still be accepted if the client confirms late
+                        const canDecide = quote.status === QuoteStatus.OPEN;
+
+                        return (
+                        <tr key={quote.id} className="hover:bg-purple-50/50 transition-colors">
+                            <td className="px-6 py-4">
+                                <div className="font-medium text-slate-900">{getClient(quote.clientId).name}</div>
+                                <div className="text-xs text-slate-500">{(quote.items || []).length} productos</div>
+                                {invoice && <div className="text-xs text-brand">Factura {invoiceLabel(invoice)}</div>}
+                            </td>
+                            <td className="px-6 py-4 text-sm text-slate-600">
+                                {new Date(quote.createdAt).toLocaleDateString()}
+                            </td>
+                            <td className="px-6 py-4 text-sm text-slate-600">
+                                {new Date(quote.validUntil).toLocaleDateString()}
+                            </td>
+                            <td className="px-6 py-4">
+                                <span className={`text-xs font-medium rounded-full px-2 py-1 border ${getStateColor(state)}`}>{state}</span>
+                            </td>
+                            <td className="px-6 py-4 text-sm text-slate-900 font-bold text-right">
+                                ${(quote.grandTotalUsd || 0).toFixed(2)}
+                            </td>
+                            <td className="px-6 py-4 text-right">
+                                <div className="flex justify-end gap-1">
+                                    {canDecide && (
+                                        <>
+                                            <button onClick={() => handleAccept(quote)} className="p-2 text-green-600 hover:bg-green-100 rounded-full transition-colors" title="Aceptar y facturar">
+                                                <CheckCircle size={16} />
+                                            </button>
+                                            <button onClick={() => handleReject(quote)} className="p-2 text-slate-500 hover:bg-slate-100 rounded-full transition-colors" title="Rechazar">
+                                                <XCircle size={16} />
+                                            </button>
+                                        </>
+                                    )}
+                                    <button onClick={() => handleDownload(quote)} className="p-2 text-slate-600 hover:bg-slate-100 rounded-full transition-colors" title="Descargar PDF">
+                                        <FileDown size={16} />
+                                    </button>
+                                    <button onClick={() => handleShare(quote)} className="p-2 text-slate-600 hover:bg-slate-100 rounded-full transition-colors" title="Compartir">
+                                        <Share2 size={16} />
+                                    </button>
+                                    {canDecide && (
+                                        <button onClick={() => handleEdit(quote.id)} className="p-2 text-brand hover:bg-purple-100 rounded-full transition-colors" title="Editar">
+                                            <Edit size={16} />
+                                        </button>
+                                    )}
+                                    <button onClick={() => handleDelete(quote)} className="p-2 text-red-600 hover:bg-red-100 rounded-full transition-colors" title="Eliminar">
+                                        <Trash2 size={16} />
+                                    </button>
+                                </div>
+                            </td>
+                        </tr>
+                    )})}
+                    {filteredQuotes.length === 0 && (
+                        <tr>
+                            <td colSpan={6} className="px-6 py-12 text-center text-slate-500">
+                                No se encontraron cotizaciones con este filtro.
+                            </td>
+                        </tr>
+                    )}
+                </tbody>
+            </table>
+        </div>
+      </div>
+    </div>
+  );
+};
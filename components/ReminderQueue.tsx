@@ -0,0 +1,242 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Client, Invoice, PaymentReminder, ReminderChannel } from '../types';
+import { StorageService } from '../services/storage';
+import { Button } from './Button';
+import { MessageCircle, Mail, Copy, BellRing, CheckCircle } from 'lucide-react';
+import { InvoiceDetailModal } from './InvoiceDetailModal';
+import { invoiceLabel } from '../services/invoiceNumbers';
+import { whatsappLink } from '../services/share';
+import { ReminderQueueEntry, buildReminderQueue, mailtoLink, reminderSubject, reminderText } from '../services/reminders';
+import { parseTerm } from '../services/dueDates';
+
+const formatUSD = (amount: number) => `$${(amount || 0).toFixed(2)}`;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysAgo = (date: string) => {
+  const days = Math.floor((Date.now() - Date.parse(date)) / DAY_MS);
+  if (days <= 0) return 'hoy';
+  return days === 1 ? 'ayer' : `hace ${days} días`;
+};
+
+export const ReminderQueue: React.FC = () => {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [reminders, setReminders] = useState<PaymentReminder[]>([]);
+  const [defaultTerm, setDefaultTerm] = useState(0);
+  const [termInput, setTermInput] = useState('');
+  // Edited messages per client; untouched ones follow the data
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
+
+  useEffect(() => {
+    const load = () => {
+      setInvoices(StorageService.getInvoices());
+      setClients(StorageService.getClients());
+      setReminders(StorageService.getReminders());
+      setDefaultTerm(StorageService.getDefaultPaymentTerm());
+    };
+    load();
+    const unsubscribe = StorageService.subscribe(load);
+    return () => unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    setTermInput(String(defaultTerm));
+  }, [defaultTerm]);
+
+  const queue = useMemo(
+    () => buildReminderQueue(invoices, clients, reminders, defaultTerm),
+    [invoices, clients, reminders, defaultTerm]
+  );
+
+  const todayRate = StorageService.getExchangeRate();
+  const messageFor = (entry: ReminderQueueEntry) => drafts[entry.client.id] ?? reminderText(entry, todayRate);
+
+  const handleSaveTerm = async () => {
+    const days = parseTerm(termInput);
+    if (days === undefined) {
+      alert("Ingrese un número de días válido");
+      return;
+    }
+    await StorageService.setDefaultPaymentTerm(days);
+  };
+
+  const logSent = async (entry: ReminderQueueEntry, channel: ReminderChannel) => {
+    await StorageService.logReminder({
+      clientId: entry.client.id,
+      invoiceIds: entry.invoices.map(o => o.invoice.id),
+      sentAt: new Date().toISOString(),
+      channel,
+      amountUsd: entry.amountUsd,
+      message: messageFor(entry)
+    });
+    setDrafts(prev => {
+      const next = { ...prev };
+      delete next[entry.client.id];
+      return next;
+    });
+  };
+
+  const handleCopy = async (entry: ReminderQueueEntry) => {
+    try {
+      await navigator.clipboard.writeText(messageFor(entry));
+    } catch (e) {
+      alert("No se pudo copiar al portapapeles");
+      return;
+    }
+    await logSent(entry, ReminderChannel.MANUAL);
+    alert("Mensaje copiado. Quedó registrado como enviado.");
+  };
+
+  const clientName = (id: string) => clients.find(c => c.id === id)?.name || 'Cliente desconocido';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800">Cobranza</h2>
+          <p className="text-sm text-slate-500">Clientes con facturas vencidas, de la más atrasada a la más reciente.</p>
+        </div>
+        <div className="flex items-center gap-2 bg-white p-2 rounded-lg shadow-sm border border-slate-200 text-sm text-slate-600">
+          <span>Plazo general</span>
+          <input
+            type="number" min="0"
+            className="w-16 rounded-md border-slate-300 border p-1.5 text-sm focus:ring-brand focus:border-brand"
+            value={termInput}
+            onChange={e => setTermInput(e.target.value)}
+          />
+          <span>días</span>
+          <Button size="sm" variant="secondary" onClick={handleSaveTerm} disabled={termInput === String(defaultTerm)}>Guardar</Button>
+        </div>
+      </div>
+
+      {queue.length === 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-12 text-center text-slate-500">
+          <CheckCircle className="h-10 w-10 text-emerald-500 mx-auto mb-3" />
+          No hay facturas vencidas. Nadie a quien recordarle.
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {queue.map(entry => {
+          const message = messageFor(entry);
+          return (
+            <div key={entry.client.id} className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden flex flex-col">
+              <div className="px-5 py-4 border-b border-slate-100 flex justify-between items-start gap-4">
+                <div>
+                  <h3 className="font-bold text-slate-800">{entry.client.name}</h3>
+                  <p className="text-xs text-slate-500">
+                    {entry.lastReminder
+                      ? `Último recordatorio ${daysAgo(entry.lastReminder.sentAt)} por ${entry.lastReminder.channel}`
+                      : 'Nunca se le ha recordado'}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <div className="text-lg font-bold text-red-600">{formatUSD(entry.amountUsd)}</div>
+                  <div className="text-xs text-red-500">hasta {entry.maxDaysOverdue} días de atraso</div>
+                </div>
+              </div>
+
+              <div className="px-5 py-3 space-y-1 text-sm">
+                {entry.invoices.map(o => (
+                  <button
+                    key={o.invoice.id}
+                    onClick={() => setSelectedInvoice(o.invoice)}
+                    className="w-full flex justify-between text-left hover:text-brand"
+                  >
+                    <span className="text-slate-700">
+                      {invoiceLabel(o.invoice)}
+                      <span className="text-xs text-slate-400 ml-2">venció el {o.dueDate.toLocaleDateString()} · {o.daysOverdue} días</span>
+                    </span>
+                    <span className="font-medium text-slate-800">{formatUSD(o.balance)}</span>
+                  </button>
+                ))}
+              </div>
+
+              <div className="px-5 pb-4 flex-1 flex flex-col gap-3">
+                <textarea
+                  className="w-full flex-1 min-h-[9rem] rounded-md border-slate-300 border p-2 text-xs font-mono focus:ring-brand focus:border-brand"
+                  value={message}
+                  onChange={e => setDrafts({ ...drafts, [entry.client.id]: e.target.value })}
+                />
+                <div className="flex flex-wrap justify-end gap-2">
+                  <Button size="sm" variant="secondary" onClick={() => handleCopy(entry)}>
+                    <Copy className="w-4 h-4 mr-1" /> Copiar
+                  </Button>
+                  {entry.client.email && (
+                    <a
+                      href={mailtoLink(entry.client.email, reminderSubject(entry), message)}
+                      onClick={() => logSent(entry, ReminderChannel.EMAIL)}
+                      className="inline-flex items-center justify-center rounded-lg px-3 py-1.5 text-sm font-medium text-slate-700 bg-white border border-slate-300 hover:bg-slate-50 transition-colors"
+                    >
+                      <Mail className="w-4 h-4 mr-1" /> Correo
+                    </a>
+                  )}
+                  <a
+                    href={whatsappLink(entry.client.phone, message)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    onClick={() => logSent(entry, ReminderChannel.WHATSAPP)}
+                    className="inline-flex items-center justify-center rounded-lg px-3 py-1.5 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 transition-colors"
+                  >
+                    <MessageCircle className="w-4 h-4 mr-1" /> WhatsApp
+                  </a>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center gap-2">
+          <BellRing size={18} className="text-slate-400" />
+          <h3 className="font-semibold text-slate-800">Recordatorios enviados</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse text-sm">
+            <thead>
+              <tr className="bg-slate-50 border-b border-slate-200">
+                <th className="px-6 py-3 text-xs font-semibold text-slate-500 uppercase tracking-wider">Fecha</th>
+                <th className="px-6 py-3 text-xs font-semibold text-slate-500 uppercase tracking-wider">Cliente</th>
+                <th className="px-6 py-3 text-xs font-semibold text-slate-500 uppercase tracking-wider">Medio</th>
+                <th className="px-6 py-3 text-xs font-semibold text-slate-500 uppercase tracking-wider">Mensaje</th>
+                <th className="px-6 py-3 text-xs font-semibold text-slate-500 uppercase tracking-wider text-right">Vencido</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {reminders.map(r => (
+                <tr key={r.id} className="align-top">
+                  <td className="px-6 py-3 text-slate-600 whitespace-nowrap">{new Date(r.sentAt).toLocaleString()}</td>
+                  <td className="px-6 py-3 font-medium text-slate-800">{clientName(r.clientId)}</td>
+                  <td className="px-6 py-3 text-slate-600">{r.channel}</td>
+                  <td className="px-6 py-3 text-slate-500">
+                    <details>
+                      <summary className="cursor-pointer hover:text-brand">{r.invoiceIds.length} {r.invoiceIds.length === 1 ? 'factura' : 'facturas'}</summary>
+                      <pre className="mt-2 whitespace-pre-wrap font-mono text-xs text-slate-600">{r.message}</pre>
+                    </details>
+                  </td>
+                  <td className="px-6 py-3 text-right font-medium text-slate-800">{formatUSD(r.amountUsd)}</td>
+                </tr>
+              ))}
+              {reminders.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-slate-500">Todavía no se ha enviado ningún recordatorio.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {selectedInvoice && (
+        <InvoiceDetailModal
+          invoice={selectedInvoice}
+          client={clients.find(c => c.id === selectedInvoice.clientId) || { id: '0', name: 'Desconocido', phone: '', address: '', email: '' }}
+          onClose={() => setSelectedInvoice(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useState, useEffect } from 'react';
+import { Invoice, Client } from '../types';
+import { StorageService } from '../services/storage';
+import { Button } from './Button';
+import { X, MessageCircle, Copy, Link, Unlink } from 'lucide-react';
+import { buildPublicInvoice, invoiceShareText, publicInvoiceUrl, whatsappLink, whatsappNumber } from '../services/share';
+
+interface ShareInvoiceDialogProps {
+  invoice: Invoice;
+  client: Client;
+  onClose: () => void;
+}
+
+const appBaseUrl = () => `${window.location.origin}${window.location.pathname}`;
+
+export const ShareInvoiceDialog: React.FC<ShareInvoiceDialogProps> = ({ invoice, client, onClose }) => {
+  // Sharing saves the invoice, so follow the stored copy rather than the prop
+  const [current, setCurrent] = useState<Invoice>(invoice);
+  const [text, setText] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [pending, setPending] = useState(StorageService.getSyncStatus().pending);
+
+  useEffect(() => {
+    const refresh = () => {
+      setCurrent(StorageService.getInvoices().find(i => i.id === invoice.id) || invoice);
+      setPending(StorageService.getSyncStatus().pending);
+    };
+    refresh();
+    return StorageService.subscribe(refresh);
+  }, [invoice]);
+
+  const link = current.shareToken ? publicInvoiceUrl(current.shareToken, appBaseUrl()) : undefined;
+
+  useEffect(() => {
+    const view = current.publicView || buildPublicInvoice(current, client, StorageService.getInvoiceBreakdown(current));
+    setText(invoiceShareText(view, StorageService.getExchangeRate(), link));
+  }, [current, client, link]);
+
+  const handleCreateLink = async () => {
+    setIsWorking(true);
+    try {
+      await StorageService.shareInvoice(current.id);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRevokeLink = async () => {
+    if (!confirm("El enlace actual dejará de funcionar. ¿Desactivarlo?")) return;
+    setIsWorking(true);
+    try {
+      await StorageService.unshareInvoice(current.id);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const copy = async (value: string, done: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      alert(done);
+    } catch (e) {
+      alert("No se pudo copiar al portapapeles");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm animate-in fade-in" onClick={e => { e.stopPropagation(); onClose(); }}>
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <div>
+            <h3 className="font-bold text-slate-800">Compartir con el cliente</h3>
+            <p className="text-xs text-slate-500">
+              {client.name}
+              {whatsappNumber(client.phone) ? ` · +${whatsappNumber(client.phone)}` : ' · sin teléfono, WhatsApp preguntará a quién enviarlo'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X size={20} /></button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Mensaje</label>
+            <textarea
+              className="w-full h-56 rounded-md border-slate-300 border p-2 text-sm font-mono focus:ring-brand focus:border-brand"
+              value={text}
+              onChange={e => setText(e.target.value)}
+            />
+          </div>
+
+          <div className="rounded-lg border border-slate-200 p-3 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <div>
+                <p className="font-medium text-slate-700">Enlace público</p>
+                <p className="text-xs text-slate-500">Solo lectura: productos, totales y abonos, sin costos ni comisiones.</p>
+              </div>
+              {link ? (
+                <Button variant="secondary" size="sm" onClick={handleRevokeLink} disabled={isWorking}>
+                  <Unlink className="w-4 h-4 mr-1" /> Desactivar
+                </Button>
+              ) : (
+                <Button variant="secondary" size="sm" onClick={handleCreateLink} isLoading={isWorking}>
+                  <Link className="w-4 h-4 mr-1" /> Crear enlace
+                </Button>
+              )}
+            </div>
+            {link && (
+              <div className="mt-2 flex gap-2">
+                <input readOnly value={link} className="flex-1 rounded-md border-slate-300 border p-1.5 text-xs text-slate-600 bg-slate-50" onFocus={e => e.target.select()} />
+                <Button variant="secondary" size="sm" onClick={() => copy(link, "Enlace copiado")}>
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+            {link && pending > 0 && (
+              <p className="mt-2 text-xs text-amber-600">Hay cambios sin sincronizar: el enlace mostrará la factura cuando se sincronicen.</p>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <Button variant="secondary" onClick={() => copy(text, "Mensaje copiado al portapapeles")}>
+              <Copy className="w-4 h-4 mr-2" /> Copiar texto
+            </Button>
+            <a
+              href={whatsappLink(client.phone, text)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center justify-center rounded-lg px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 transition-colors"
+            >
+              <MessageCircle className="w-4 h-4 mr-2" /> Abrir WhatsApp
+            </a>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
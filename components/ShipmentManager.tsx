@@ -0,0 +1,345 @@
+import React, { useState, useEffect } from 'react';
+import { Client, Invoice, Shipment } from '../types';
+import { StorageService } from '../services/storage';
+import { Button } from './Button';
+import { Plus, Trash2, Edit2, Package, Truck, X, AlertTriangle } from 'lucide-react';
+import { invoiceLabel } from '../services/invoiceNumbers';
+
+// Input values are the local day; dates are saved at local noon so every time zone shows that day
+const localDay = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+const today = () => localDay(new Date());
+const toInputDate = (iso?: string) => (iso ? localDay(new Date(iso)) : '');
+const fromInputDate = (date: string) => new Date(`${date}T12:00:00`).toISOString();
+
+const emptyForm = {
+  guideNumber: '',
+  carrier: '',
+  shipDate: today(),
+  arrivalDate: '',
+  totalWeightKg: '' as string | number,
+  freightCost: '' as string | number,
+  notes: ''
+};
+
+export const ShipmentManager: React.FC = () => {
+  const [shipments, setShipments] = useState<Shipment[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [shipmentToDelete, setShipmentToDelete] = useState<string | null>(null);
+
+  // Box whose content is being edited, and the items checked for it
+  const [packingId, setPackingId] = useState<string | null>(null);
+  const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
+
+  const refresh = () => {
+    setShipments(StorageService.getShipments());
+    setInvoices(StorageService.getInvoices());
+    setClients(StorageService.getClients());
+  };
+
+  useEffect(() => {
+    refresh();
+    const unsubscribe = StorageService.subscribe(refresh);
+    return () => unsubscribe();
+  }, []);
+
+  const clientName = (id: string) => clients.find(c => c.id === id)?.name || 'Cliente desconocido';
+
+  const handleOpenModal = (shipment?: Shipment) => {
+    if (shipment) {
+      setEditingId(shipment.id);
+      setFormData({
+        guideNumber: shipment.guideNumber,
+        carrier: shipment.carrier,
+        shipDate: toInputDate(shipment.shipDate),
+        arrivalDate: toInputDate(shipment.arrivalDate),
+        totalWeightKg: shipment.totalWeightKg,
+        freightCost: shipment.freightCost,
+        notes: shipment.notes || ''
+      });
+    } else {
+      setEditingId(null);
+      setFormData({ ...emptyForm, shipDate: today() });
+    }
+    setIsModalOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.guideNumber.trim()) return;
+    setIsSaving(true);
+
+    const existing = shipments.find(s => s.id === editingId);
+    const shipment: Shipment = {
+      ...existing,
+      id: editingId || crypto.randomUUID(),
+      guideNumber: formData.guideNumber.trim(),
+      carrier: formData.carrier.trim(),
+      shipDate: fromInputDate(formData.shipDate || today()),
+      arrivalDate: formData.arrivalDate ? fromInputDate(formData.arrivalDate) : undefined,
+      totalWeightKg: parseFloat(formData.totalWeightKg.toString()) || 0,
+      freightCost: parseFloat(formData.freightCost.toString()) || 0,
+      notes: formData.notes.trim() || undefined
+    };
+
+    await StorageService.saveShipment(shipment);
+    setIsSaving(false);
+    setIsModalOpen(false);
+  };
+
+  const confirmDelete = async () => {
+    if (!shipmentToDelete) return;
+    await StorageService.deleteShipment(shipmentToDelete);
+    if (packingId === shipmentToDelete) setPackingId(null);
+    setShipmentToDelete(null);
+  };
+
+  const openPacking = (shipment: Shipment) => {
+    const inBox = invoices.flatMap(inv => inv.items.filter(i => i.shipmentId === shipment.id).map(i => i.id));
+    setSelectedItems(new Set(inBox));
+    setPackingId(shipment.id);
+  };
+
+  const toggleItem = (itemId: string) => {
+    const next = new Set(selectedItems);
+    if (next.has(itemId)) next.delete(itemId);
+    else next.add(itemId);
+    setSelectedItems(next);
+  };
+
+  const savePacking = async () => {
+    if (!packingId) return;
+    setIsSaving(true);
+    try {
+      await StorageService.setShipmentItems(packingId, Array.from(selectedItems));
+      setPackingId(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const costs = shipments.map(s => StorageService.getShipmentCost(s));
+  const totalActual = costs.reduce((acc, c) => acc + c.actualCost, 0);
+  const totalCharged = costs.reduce((acc, c) => acc + c.charged, 0);
+
+  const packing = shipments.find(s => s.id === packingId);
+  // Items already in this box, or not yet in any
+  const packable = invoices
+    .map(inv => ({ invoice: inv, items: inv.items.filter(i => !i.shipmentId || i.shipmentId === packingId) }))
+    .filter(g => g.items.length > 0);
+
+  const inputClass = "w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-brand focus:border-brand";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800">Envíos Consolidados</h2>
+          <p className="text-slate-500 text-sm">Cajas y guías desde Miami con productos de varias facturas</p>
+        </div>
+        <Button onClick={() => handleOpenModal()}>
+          <Plus className="mr-2 h-4 w-4" /> Nuevo Envío
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+          <h3 className="text-sm font-medium text-slate-500 mb-1">Logística cobrada</h3>
+          <div className="text-2xl font-bold text-slate-800">${totalCharged.toFixed(2)}</div>
+        </div>
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+          <h3 className="text-sm font-medium text-slate-500 mb-1">Flete real</h3>
+          <div className="text-2xl font-bold text-slate-800">${totalActual.toFixed(2)}</div>
+        </div>
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+          <h3 className="text-sm font-medium text-slate-500 mb-1">Diferencia</h3>
+          <div className={`text-2xl font-bold ${totalCharged - totalActual >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+            ${(totalCharged - totalActual).toFixed(2)}
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead className="bg-slate-50 border-b border-slate-200 text-xs uppercase text-slate-500 font-semibold">
+              <tr>
+                <th className="px-6 py-3">Guía</th>
+                <th className="px-6 py-3">Salida / Llegada</th>
+                <th className="px-6 py-3 text-right">Peso</th>
+                <th className="px-6 py-3 text-right">Flete real</th>
+                <th className="px-6 py-3 text-right">Cobrado</th>
+                <th className="px-6 py-3 text-right">Acciones</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {costs.map(({ shipment, lines, weightKg, charged, actualCost }) => (
+                <tr key={shipment.id} className="hover:bg-slate-50/50 transition-colors">
+                  <td className="px-6 py-4 text-sm">
+                    <div className="font-medium text-slate-800">{shipment.guideNumber}</div>
+                    <div className="text-xs text-slate-400">{shipment.carrier || '—'} · {lines.length} productos</div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-slate-600 whitespace-nowrap">
+                    {new Date(shipment.shipDate).toLocaleDateString()}
+                    <div className="text-xs text-slate-400">
+                      {shipment.arrivalDate ? new Date(shipment.arrivalDate).toLocaleDateString() : 'En tránsito'}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-right text-slate-600">
+                    {shipment.totalWeightKg.toFixed(2)} kg
+                    <div className="text-xs text-slate-400" title="Peso facturable de los productos asignados">{weightKg.toFixed(2)} kg asignados</div>
+                  </td>
+                  <td className="px-6 py-4 text-sm font-bold text-slate-800 text-right">${actualCost.toFixed(2)}</td>
+                  <td className={`px-6 py-4 text-sm font-bold text-right ${charged >= actualCost ? 'text-emerald-600' : 'text-red-600'}`}>
+                    ${charged.toFixed(2)}
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    <div className="flex justify-end gap-2">
+                      <button onClick={() => openPacking(shipment)} className="p-1.5 text-slate-600 hover:bg-slate-100 rounded transition-colors" title="Asignar productos">
+                        <Package size={16} />
+                      </button>
+                      <button onClick={() => handleOpenModal(shipment)} className="p-1.5 text-brand hover:bg-purple-50 rounded transition-colors">
+                        <Edit2 size={16} />
+                      </button>
+                      <button onClick={() => setShipmentToDelete(shipment.id)} className="p-1.5 text-red-600 hover:bg-red-50 rounded transition-colors">
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {shipments.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center text-slate-400">
+                    No hay envíos registrados.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Edit/Create Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-md overflow-hidden">
+            <div className="px-6 py-4 border-b border-slate-100 bg-slate-50">
+              <h3 className="font-bold text-slate-800">{editingId ? 'Editar Envío' : 'Registrar Nuevo Envío'}</h3>
+            </div>
+
+            <form onSubmit={handleSave} className="p-6 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Nº de guía</label>
+                  <input type="text" required className={inputClass} value={formData.guideNumber} onChange={e => setFormData({ ...formData, guideNumber: e.target.value })} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Transportista</label>
+                  <div className="relative">
+                    <Truck className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 h-4 w-4" />
+                    <input type="text" className={`${inputClass} pl-9`} value={formData.carrier} onChange={e => setFormData({ ...formData, carrier: e.target.value })} />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Fecha de salida</label>
+                  <input type="date" required className={inputClass} value={formData.shipDate} onChange={e => setFormData({ ...formData, shipDate: e.target.value })} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Fecha de llegada</label>
+                  <input type="date" className={inputClass} value={formData.arrivalDate} onChange={e => setFormData({ ...formData, arrivalDate: e.target.value })} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Peso total (kg)</label>
+                  <input type="number" step="0.01" min="0" className={inputClass} value={formData.totalWeightKg} onChange={e => setFormData({ ...formData, totalWeightKg: e.target.value })} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Flete real ($)</label>
+                  <input type="number" step="0.01" min="0" className={inputClass} value={formData.freightCost} onChange={e => setFormData({ ...formData, freightCost: e.target.value })} />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Notas</label>
+                <input type="text" className={inputClass} value={formData.notes} onChange={e => setFormData({ ...formData, notes: e.target.value })} />
+              </div>
+
+              <div className="flex justify-end gap-3 pt-4">
+                <Button variant="secondary" type="button" onClick={() => setIsModalOpen(false)} disabled={isSaving}>Cancelar</Button>
+                <Button type="submit" isLoading={isSaving}>{isSaving ? 'Guardando...' : 'Guardar'}</Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Box content */}
+      {packing && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl overflow-hidden flex flex-col max-h-[90vh]">
+            <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+              <div>
+                <h3 className="font-bold text-slate-800">Contenido de la guía {packing.guideNumber}</h3>
+                <p className="text-xs text-slate-500">Productos sin envío asignado o ya incluidos en esta guía.</p>
+              </div>
+              <button onClick={() => setPackingId(null)} className="text-slate-400 hover:text-slate-600"><X size={20} /></button>
+            </div>
+            <div className="p-6 overflow-y-auto flex-1 space-y-4">
+              {packable.map(({ invoice, items }) => (
+                <div key={invoice.id}>
+                  <div className="text-xs font-semibold text-slate-500 uppercase mb-1">
+                    {clientName(invoice.clientId)} · Factura {invoiceLabel(invoice)}
+                  </div>
+                  <div className="space-y-1">
+                    {items.map(item => (
+                      <label key={item.id} className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                        <input type="checkbox" className="text-brand focus:ring-brand" checked={selectedItems.has(item.id)} onChange={() => toggleItem(item.id)} />
+                        <span className="flex-1">{item.name || 'Sin nombre'} <span className="text-slate-400">x{item.quantity}</span></span>
+                        {item.trackingNumber && <span className="text-xs text-slate-400">{item.trackingNumber}</span>}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              {packable.length === 0 && (
+                <p className="text-center text-slate-400 text-sm py-4">Todos los productos ya viajan en otro envío.</p>
+              )}
+            </div>
+            <div className="px-6 py-4 border-t border-slate-100 flex justify-between items-center">
+              <span className="text-xs text-slate-500">{selectedItems.size} productos seleccionados</span>
+              <div className="flex gap-3">
+                <Button type="button" variant="secondary" onClick={() => setPackingId(null)} disabled={isSaving}>Cancelar</Button>
+                <Button type="button" onClick={savePacking} isLoading={isSaving}>Guardar</Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Delete Confirmation Modal */}
+      {shipmentToDelete && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 p-4 animate-in fade-in duration-200">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-sm p-6">
+            <div className="flex flex-col items-center text-center">
+              <div className="bg-red-100 p-3 rounded-full mb-4">
+                <AlertTriangle className="h-8 w-8 text-red-600" />
+              </div>
+              <h3 className="text-lg font-bold text-slate-900 mb-2">Eliminar Envío</h3>
+              <p className="text-sm text-slate-500 mb-6">
+                Los productos de esta guía quedarán sin envío asignado.
+                <br/><span className="font-semibold text-red-500 text-xs">Esta acción no se puede deshacer.</span>
+              </p>
+              <div className="flex gap-3 w-full">
+                <Button variant="secondary" className="flex-1" onClick={() => setShipmentToDelete(null)}>Cancelar</Button>
+                <Button variant="danger" className="flex-1" onClick={confirmDelete}>Sí, Eliminar</Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
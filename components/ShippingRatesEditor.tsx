@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { ShippingMode, ShippingRate, ShippingRateTier } from '../types';
+import { StorageService } from '../services/storage';
+import { DEFAULT_VOLUMETRIC_DIVISOR, sortTiers } from '../services/shipping';
+import { generateId } from '../services/ids';
+import { Button } from './Button';
+import { Plus, Trash2, X } from 'lucide-react';
+
+interface ShippingRatesEditorProps {
+  onClose: () => void;
+}
+
+export const ShippingRatesEditor: React.FC<ShippingRatesEditorProps> = ({ onClose }) => {
+  const [rates, setRates] = useState<ShippingRate[]>(StorageService.getShippingRates());
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateRate = (id: string, field: keyof ShippingRate, value: any) => {
+    setRates(rates.map(r => (r.id === id ? { ...r, [field]: value } : r)));
+  };
+
+  const updateTier = (id: string, index: number, field: keyof ShippingRateTier, value: number | null) => {
+    const rate = rates.find(r => r.id === id);
+    if (!rate) return;
+    updateRate(id, 'tiers', rate.tiers.map((t, i) => (i === index ? { ...t, [field]: value } : t)));
+  };
+
+  const addTier = (rate: ShippingRate) => {
+    // The new band goes before the open-ended one
+    const limits = rate.tiers.map(t => t.upTo || 0);
+    updateRate(rate.id, 'tiers', [...rate.tiers, { upTo: Math.max(0, ...limits) + 5, price: 0 }]);
+  };
+
+  const addRate = () => {
+    setRates([...rates, {
+      id: generateId(),
+      name: '',
+      carrier: '',
+      mode: ShippingMode.AIR,
+      unit: 'kg',
+      tiers: [{ upTo: null, price: 0 }],
+      minimum: 0,
+      volumetricDivisor: DEFAULT_VOLUMETRIC_DIVISOR
+    }]);
+  };
+
+  const handleSave = async () => {
+    if (rates.length === 0) {
+      alert("Debe existir al menos una tarifa de envío");
+      return;
+    }
+    const unnamed = rates.find(r => !r.name.trim());
+    if (unnamed) {
+      alert("Todas las tarifas necesitan un nombre");
+      return;
+    }
+    const open = rates.find(r => !r.tiers.some(t => t.upTo === null));
+    if (open) {
+      alert(`La tarifa ${open.name} necesita un tramo sin límite para los envíos más pesados`);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await StorageService.setShippingRates(rates.map(r => ({
+        ...r,
+        name: r.name.trim(),
+        carrier: r.carrier.trim(),
+        minimum: Math.max(0, Number(r.minimum) || 0),
+        volumetricDivisor: Math.max(0, Number(r.volumetricDivisor) || 0),
+        tiers: sortTiers(r.tiers.map(t => ({
+          upTo: t.upTo === null ? null : Math.max(0, Number(t.upTo) || 0),
+          price: Math.max(0, Number(t.price) || 0)
+        })))
+      })));
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = "rounded-md border-slate-300 border p-1.5 text-sm focus:ring-brand focus:border-brand";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <div>
+            <h3 className="font-bold text-slate-800">Tarifas de Envío</h3>
+            <p className="text-xs text-slate-500">El envío completo se cobra al precio del tramo donde cae su peso total.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X size={20} /></button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-4">
+          {rates.map(rate => (
+            <div key={rate.id} className="bg-slate-50 p-3 rounded-lg border border-slate-200 space-y-3">
+              <div className="grid grid-cols-2 md:grid-cols-12 gap-2 items-end">
+                <div className="md:col-span-2">
+                  <label className="text-xs text-slate-500">Nombre / Ruta</label>
+                  <input type="text" className={`w-full ${inputClass}`} placeholder="Miami - Caracas" value={rate.name} onChange={e => updateRate(rate.id, 'name', e.target.value)} />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="text-xs text-slate-500">Transportista</label>
+                  <input type="text" className={`w-full ${inputClass}`} value={rate.carrier} onChange={e => updateRate(rate.id, 'carrier', e.target.value)} />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="text-xs text-slate-500">Modalidad</label>
+                  <select className={`w-full ${inputClass}`} value={rate.mode} onChange={e => updateRate(rate.id, 'mode', e.target.value)}>
+                    {Object.values(ShippingMode).map(m => <option key={m} value={m}>{m}</option>)}
+                  </select>
+                </div>
+                <div className="md:col-span-1">
+                  <label className="text-xs text-slate-500">Unidad</label>
+                  <select className={`w-full ${inputClass}`} value={rate.unit} onChange={e => updateRate(rate.id, 'unit', e.target.value)}>
+                    <option value="kg">kg</option>
+                    <option value="lb">lb</option>
+                  </select>
+                </div>
+                <div className="md:col-span-2">
+                  <label className="text-xs text-slate-500">Mínimo ($/envío)</label>
+                  <input type="number" step="0.01" min="0" className={`w-full ${inputClass}`} value={rate.minimum} onChange={e => updateRate(rate.id, 'minimum', parseFloat(e.target.value))} />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="text-xs text-slate-500" title="cm³ por kg; 0 para no cobrar peso volumétrico">Divisor vol.</label>
+                  <input type="number" step="1" min="0" className={`w-full ${inputClass}`} value={rate.volumetricDivisor} onChange={e => updateRate(rate.id, 'volumetricDivisor', parseFloat(e.target.value))} />
+                </div>
+                <div className="md:col-span-1 flex justify-end">
+                  <button type="button" onClick={() => setRates(rates.filter(r => r.id !== rate.id))} className="p-2 text-slate-400 hover:text-red-500" title="Eliminar tarifa">
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <span className="text-xs font-semibold text-slate-500">Tramos de peso</span>
+                {rate.tiers.map((tier, index) => (
+                  <div key={index} className="flex items-center gap-2 text-sm">
+                    <span className="text-xs text-slate-500 w-14">Hasta</span>
+                    {tier.upTo === null ? (
+                      <span className="w-24 text-xs text-slate-400 italic">sin límite</span>
+                    ) : (
+                      <input type="number" step="0.1" min="0" className={`w-24 ${inputClass}`} value={tier.upTo} onChange={e => updateTier(rate.id, index, 'upTo', parseFloat(e.target.value))} />
+                    )}
+                    <span className="text-xs text-slate-500">{rate.unit} a $</span>
+                    <input type="number" step="0.01" min="0" className={`w-24 ${inputClass}`} value={tier.price} onChange={e => updateTier(rate.id, index, 'price', parseFloat(e.target.value))} />
+                    <span className="text-xs text-slate-500">/{rate.unit}</span>
+                    {tier.upTo !== null && (
+                      <button type="button" onClick={() => updateRate(rate.id, 'tiers', rate.tiers.filter((_, i) => i !== index))} className="text-slate-300 hover:text-red-500" title="Eliminar tramo">
+                        <Trash2 size={14} />
+                      </button>
+                    )}
+                  </div>
+                ))}
+                <button type="button" onClick={() => addTier(rate)} className="text-xs text-brand hover:underline flex items-center">
+                  <Plus size={12} className="mr-1" /> Agregar tramo
+                </button>
+              </div>
+            </div>
+          ))}
+          <Button type="button" variant="secondary" size="sm" onClick={addRate}>
+            <Plus size={14} className="mr-1" /> Agregar tarifa
+          </Button>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 flex justify-end gap-3">
+          <Button type="button" variant="secondary" onClick={onClose} disabled={isSaving}>Cancelar</Button>
+          <Button type="button" onClick={handleSave} isLoading={isSaving}>Guardar</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { ProductCategory, TariffRule } from '../types';
+import { StorageService } from '../services/storage';
+import { TARIFF_BASE_LABELS } from '../services/tariffs';
+import { generateId } from '../services/ids';
+import { Button } from './Button';
+import { Plus, Trash2, X } from 'lucide-react';
+
+interface TariffRulesEditorProps {
+  onClose: () => void;
+}
+
+export const TariffRulesEditor: React.FC<TariffRulesEditorProps> = ({ onClose }) => {
+  const [rules, setRules] = useState<TariffRule[]>(StorageService.getTariffRules());
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateRule = (id: string, field: keyof TariffRule, value: any) => {
+    setRules(rules.map(r => (r.id === id ? { ...r, [field]: value } : r)));
+  };
+
+  const addRule = () => {
+    const unused = Object.values(ProductCategory).find(c => c !== ProductCategory.GENERAL && !rules.some(r => r.category === c));
+    setRules([...rules, {
+      id: generateId(),
+      category: unused || ProductCategory.GENERAL,
+      type: 'percent',
+      value: 0,
+      minimum: 0,
+      base: 'taxable'
+    }]);
+  };
+
+  const handleSave = async () => {
+    const categories = rules.map(r => r.category);
+    const repeated = categories.find((c, i) => categories.indexOf(c) !== i);
+    if (repeated) {
+      alert(`La categoría ${repeated} tiene más de una regla`);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await StorageService.setTariffRules(rules.map(r => ({
+        ...r,
+        value: Math.max(0, Number(r.value) || 0),
+        minimum: Math.max(0, Number(r.minimum) || 0)
+      })));
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = "rounded-md border-slate-300 border p-1.5 text-sm focus:ring-brand focus:border-brand";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <div>
+            <h3 className="font-bold text-slate-800">Reglas de Aranceles</h3>
+            <p className="text-xs text-slate-500">Se cobran por unidad según la categoría aduanal de cada producto.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X size={20} /></button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-3">
+          {rules.length === 0 && (
+            <p className="text-center text-slate-400 text-sm py-4">Sin reglas: ningún producto paga arancel.</p>
+          )}
+          {rules.map(rule => (
+            <div key={rule.id} className="grid grid-cols-2 md:grid-cols-12 gap-2 items-end bg-slate-50 p-3 rounded-lg border border-slate-200">
+              <div className="md:col-span-3">
+                <label className="text-xs text-slate-500">Categoría</label>
+                <select className={`w-full ${inputClass}`} value={rule.category} onChange={e => updateRule(rule.id, 'category', e.target.value)}>
+                  {Object.values(ProductCategory).map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+              </div>
+              <div className="md:col-span-2">
+                <label className="text-xs text-slate-500">Tipo</label>
+                <select className={`w-full ${inputClass}`} value={rule.type} onChange={e => updateRule(rule.id, 'type', e.target.value)}>
+                  <option value="percent">Porcentaje</option>
+                  <option value="fixed">Monto fijo</option>
+                </select>
+              </div>
+              <div className="md:col-span-2">
+                <label className="text-xs text-slate-500">{rule.type === 'percent' ? 'Porcentaje (%)' : 'Monto ($ c/u)'}</label>
+                <input type="number" step="0.01" min="0" className={`w-full ${inputClass}`} value={rule.value} onChange={e => updateRule(rule.id, 'value', parseFloat(e.target.value))} />
+              </div>
+              <div className="md:col-span-2">
+                <label className="text-xs text-slate-500">Mínimo ($ c/u)</label>
+                <input type="number" step="0.01" min="0" className={`w-full ${inputClass}`} value={rule.minimum} onChange={e => updateRule(rule.id, 'minimum', parseFloat(e.target.value))} />
+              </div>
+              <div className="md:col-span-2">
+                <label className="text-xs text-slate-500">Base</label>
+                <select
+                  className={`w-full ${inputClass} disabled:bg-slate-100 disabled:text-slate-400`}
+                  value={rule.base}
+                  disabled={rule.type === 'fixed'}
+                  onChange={e => updateRule(rule.id, 'base', e.target.value)}
+                >
+                  {Object.entries(TARIFF_BASE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                </select>
+              </div>
+              <div className="md:col-span-1 flex justify-end">
+                <button type="button" onClick={() => setRules(rules.filter(r => r.id !== rule.id))} className="p-2 text-slate-400 hover:text-red-500" title="Eliminar regla">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+          <Button type="button" variant="secondary" size="sm" onClick={addRule}>
+            <Plus size={14} className="mr-1" /> Agregar regla
+          </Button>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 flex justify-end gap-3">
+          <Button type="button" variant="secondary" onClick={onClose} disabled={isSaving}>Cancelar</Button>
+          <Button type="button" onClick={handleSave} isLoading={isSaving}>Guardar</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+// Local stand-in for the Google Sheet, for development and tests.
+//
+//   npm run mock-server                 -> http://localhost:8787
+//   STORAGE_BACKEND=rest in .env.local  -> the app syncs here instead of the spreadsheet
+//
+// GET  /data     full snapshot (same shape as the Apps Script doGet)
+// POST /changes  change set (same protocol as the Apps Script doPost)
+// GET  /shared/:token  public view of a shared invoice (Apps Script doGet ?view=)
+// POST /reset    wipe everything (handy between test runs)
+//
+// Data is kept in mock-server/data.json unless MOCK_DATA_FILE points elsewhere.
+
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createChangeStore } from '../services/backends/changeStore.js';
+
+const PORT = Number(process.env.PORT || 8787);
+const DATA_FILE = process.env.MOCK_DATA_FILE
+  || path.join(path.dirname(fileURLToPath(import.meta.url)), 'data.json');
+
+const loadInitial = () => {
+  try {
+    return JSON.parse(fs.readFileSync(DATA_FILE, 'utf8'));
+  } catch (e) {
+    return {};
+  }
+};
+
+let store = createChangeStore(loadInitial());
+
+const save = () => fs.writeFileSync(DATA_FILE, JSON.stringify(store.snapshot(), null, 2));
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = req => new Promise((resolve, reject) => {
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    try {
+      resolve(raw ? JSON.parse(raw) : {});
+    } catch (e) {
+      reject(e);
+    }
+  });
+  req.on('error', reject);
+});
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://${req.headers.host}`);
+
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  try {
+    if (req.method === 'GET' && url.pathname === '/data') {
+      return send(res, 200, store.snapshot());
+    }
+    if (req.method === 'GET' && url.pathname.startsWith('/shared/')) {
+      const invoice = store.sharedInvoice(decodeURIComponent(url.pathname.slice('/shared/'.length)));
+      return invoice ? send(res, 200, { invoice }) : send(res, 404, { status: 'error', message: 'Enlace no válido' });
+    }
+    if (req.method === 'POST' && url.pathname === '/changes') {
+      const result = store.apply(await readBody(req));
+      save();
+      return send(res, 200, result);
+    }
+    if (req.method === 'POST' && url.pathname === '/reset') {
+      store = createChangeStore({});
+      save();
+      return send(res, 200, { status: 'success' });
+    }
+    send(res, 404, { status: 'error', message: `Ruta desconocida: ${req.method} ${url.pathname}` });
+  } catch (error) {
+    send(res, 400, { status: 'error', message: String(error) });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`KASSTYLE mock server en http://localhost:${PORT} (datos: ${DATA_FILE})`);
+});
@@ -0,0 +1,139 @@
+import { Client, Invoice, InvoiceStatus } from '../types';
+import { invoiceLabel } from './invoiceNumbers';
+import { toCsv, csvAmount } from './csv';
+
+// Antigüedad de saldos: what each client still owes, bucketed by how long it has been waiting.
+// The clock starts at the invoice date or, when counting from abonos, at the last payment.
+
+export type AgingBasis = 'invoice' | 'lastPayment';
+
+export interface AgingBucket {
+  label: string;
+  maxDays: number | null; // Inclusive upper bound; null for the open-ended one
+}
+
+export const AGING_BUCKETS: AgingBucket[] = [
+  { label: '0–15 días', maxDays: 15 },
+  { label: '16–30 días', maxDays: 30 },
+  { label: '31–60 días', maxDays: 60 },
+  { label: '+60 días', maxDays: null }
+];
+
+export interface AgingInvoice {
+  invoice: Invoice;
+  since: string; // Date the days are counted from
+  days: number;
+  bucket: number; // Index into AGING_BUCKETS
+  balance: number; // USD
+}
+
+export interface AgingClientRow {
+  clientId: string;
+  clientName: string;
+  buckets: number[]; // USD per bucket
+  total: number;
+  oldestDays: number;
+  invoices: AgingInvoice[]; // Oldest first
+}
+
+export interface AgingReport {
+  rows: AgingClientRow[]; // Whom to chase first: most money in the oldest bucket
+  buckets: number[];
+  total: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Below a cent is rounding noise, not debt
+const MIN_BALANCE = 0.005;
+
+export const bucketFor = (days: number) => {
+  const index = AGING_BUCKETS.findIndex(b => b.maxDays !== null && days <= b.maxDays);
+  return index === -1 ? AGING_BUCKETS.length - 1 : index;
+};
+
+const lastPaymentDate = (invoice: Invoice): string | undefined =>
+  (invoice.payments || [])
+    .map(p => p.date)
+    .filter(date => !isNaN(Date.parse(date)))
+    .sort((a, b) => Date.parse(b) - Date.parse(a))[0];
+
+// Without abonos an invoice ages from its own date under either basis
+const agingStart = (invoice: Invoice, basis: AgingBasis) =>
+  (basis === 'lastPayment' && lastPaymentDate(invoice)) || invoice.createdAt;
+
+// Later buckets weigh more, so the sort compares from +60 backwards
+const compareRows = (a: AgingClientRow, b: AgingClientRow) => {
+  for (let i = AGING_BUCKETS.length - 1; i >= 0; i--) {
+    const diff = b.buckets[i] - a.buckets[i];
+    if (Math.abs(diff) >= MIN_BALANCE) return diff;
+  }
+  return b.oldestDays - a.oldestDays;
+};
+
+export const buildAgingReport = (invoices: Invoice[], clients: Client[], basis: AgingBasis, now: Date = new Date()): AgingReport => {
+  const byClient = new Map<string, AgingClientRow>();
+  const buckets = AGING_BUCKETS.map(() => 0);
+  let total = 0;
+
+  invoices.forEach(invoice => {
+    if (invoice.status === InvoiceStatus.DRAFT) return;
+    const balance = (invoice.grandTotalUsd || 0) - (invoice.amountPaid || 0);
+    if (balance < MIN_BALANCE) return;
+
+    const since = agingStart(invoice, basis);
+    const days = Math.max(0, Math.floor((now.getTime() - (Date.parse(since) || now.getTime())) / DAY_MS));
+    const bucket = bucketFor(days);
+
+    let row = byClient.get(invoice.clientId);
+    if (!row) {
+      const client = clients.find(c => c.id === invoice.clientId);
+      row = {
+        clientId: invoice.clientId,
+        clientName: client?.name || 'Cliente desconocido',
+        buckets: AGING_BUCKETS.map(() => 0),
+        total: 0,
+        oldestDays: 0,
+        invoices: []
+      };
+      byClient.set(invoice.clientId, row);
+    }
+    row.buckets[bucket] += balance;
+    row.total += balance;
+    row.oldestDays = Math.max(row.oldestDays, days);
+    row.invoices.push({ invoice, since, days, bucket, balance });
+    buckets[bucket] += balance;
+    total += balance;
+  });
+
+  const rows = [...byClient.values()].sort(compareRows);
+  rows.forEach(row => row.invoices.sort((a, b) => b.days - a.days));
+  return { rows, buckets, total };
+};
+
+// One line per invoice so the sheet can be filtered and pivoted; buckets as amount columns
+export const agingCsv = (report: AgingReport) => {
+  const header = [
+    'Cliente',
+    'Factura',
+    'Fecha factura',
+    'Último abono',
+    'Días',
+    ...AGING_BUCKETS.map(b => b.label),
+    'Saldo USD'
+  ];
+  const lines = report.rows.flatMap(row => row.invoices.map(entry => [
+    row.clientName,
+    invoiceLabel(entry.invoice),
+    new Date(entry.invoice.createdAt).toLocaleDateString(),
+    lastPaymentDate(entry.invoice) ? new Date(lastPaymentDate(entry.invoice)).toLocaleDateString() : '',
+    String(entry.days),
+    ...AGING_BUCKETS.map((_, i) => (i === entry.bucket ? csvAmount(entry.balance) : '')),
+    csvAmount(entry.balance)
+  ]));
+  const totals = ['TOTAL', '', '', '', '', ...report.buckets.map(csvAmount), csvAmount(report.total)];
+  return toCsv([header, ...lines, totals]);
+};
+
+export const agingCsvFileName = (now: Date = new Date()) =>
+  `Antiguedad-de-saldos-${now.toISOString().slice(0, 10)}.csv`;
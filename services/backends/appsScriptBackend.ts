@@ -0,0 +1,49 @@
+import { StorageBackend, RemoteSnapshot, AccessKeyError } from './types';
+import { PublicInvoice } from '../../types';
+import { ChangeSet, ChangeSetResponse } from '../changeSet';
+
+// The script URL ships in the bundle every shared link loads, so reading or writing the sheet
+// also takes the ACCESS_KEY set in the script properties. Entered once per device, never built in.
+const ACCESS_KEY_STORAGE = 'kasstyle.accessKey';
+
+export const getAccessKey = (): string =>
+  typeof localStorage === 'undefined' ? '' : localStorage.getItem(ACCESS_KEY_STORAGE) || '';
+
+export const setAccessKey = (key: string) => {
+  if (typeof localStorage !== 'undefined') localStorage.setItem(ACCESS_KEY_STORAGE, key.trim());
+};
+
+// Google Apps Script web app bound to the spreadsheet (see GOOGLE_APPS_SCRIPT.js)
+export const createAppsScriptBackend = (scriptUrl: string): StorageBackend => ({
+  name: 'apps-script',
+
+  load: async (): Promise<RemoteSnapshot> => {
+    const response = await fetch(`${scriptUrl}?key=${encodeURIComponent(getAccessKey())}`);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const data = await response.json();
+    if (data.code === 'unauthorized') throw new AccessKeyError(data.error);
+    if (data.error) throw new Error(data.error);
+    return data;
+  },
+
+  pushChanges: async (changeSet: ChangeSet): Promise<ChangeSetResponse> => {
+    // text/plain keeps it a "simple" request: Apps Script cannot answer CORS preflights
+    const response = await fetch(scriptUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain;charset=utf-8' },
+      body: JSON.stringify({ ...changeSet, key: getAccessKey() })
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const data = await response.json();
+    if (data.code === 'unauthorized') throw new AccessKeyError(data.message);
+    return data;
+  },
+
+  fetchSharedInvoice: async (token: string): Promise<PublicInvoice | null> => {
+    const response = await fetch(`${scriptUrl}?view=${encodeURIComponent(token)}`);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const data = await response.json();
+    if (data.error) throw new Error(data.error);
+    return data.invoice || null;
+  }
+});
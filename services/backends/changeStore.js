@@ -0,0 +1,130 @@
+// Reference implementation of the sync protocol (same rules as GOOGLE_APPS_SCRIPT.js).
+// Plain JS so it runs both in the app (MemoryBackend) and in Node (mock-server/server.js).
+
+const CHANGESET_PROTOCOL = 'changes-v1';
+const DEFAULT_SETTINGS = { exchangeRate: 40.5, pricePerKg: 15.43, invoicePrefix: 'FAC-', invoiceYearlyReset: true };
+const DRAFT_STATUS = 'Borrador';
+const SEQUENCE_DIGITS = 5;
+
+const clone = value => JSON.parse(JSON.stringify(value));
+
+const isEmpty = v => v === undefined || v === null || v === '';
+
+// Same tolerance as the Apps Script, where Sheets rounds dates
+function sameVersion(a, b) {
+  if (isEmpty(a) || isEmpty(b)) return isEmpty(a) && isEmpty(b);
+  const ta = Date.parse(String(a));
+  const tb = Date.parse(String(b));
+  if (isNaN(ta) || isNaN(tb)) return String(a) === String(b);
+  return Math.abs(ta - tb) < 1000;
+}
+
+// Last number issued per series ({ "FAC-2026-": 42 }), kept in settings
+const COUNTERS_KEY = 'invoiceCounters';
+
+// The yearly series follows the invoice's date, not the clock at sync time
+function invoiceYear(record) {
+  const date = new Date(record.createdAt);
+  return isNaN(date.getTime()) ? new Date().getFullYear() : date.getFullYear();
+}
+
+// Same format as services/invoiceNumbers.ts: the series counter plus one, so a deleted
+// invoice never gives its number away. Existing numbers count too (series older than the counter).
+function nextInvoiceNumber(invoices, settings, year) {
+  const yearly = settings.invoiceYearlyReset !== false && settings.invoiceYearlyReset !== 'false';
+  const series = String(settings.invoicePrefix ?? '') + (yearly ? `${year}-` : '');
+  const counters = { ...(settings[COUNTERS_KEY] || {}) };
+  const last = invoices.reduce((max, inv) => {
+    const number = String(inv.invoiceNumber || '');
+    const rest = number.startsWith(series) ? number.slice(series.length) : '';
+    return /^\d+$/.test(rest) ? Math.max(max, parseInt(rest, 10)) : max;
+  }, Number(counters[series]) || 0);
+  settings[COUNTERS_KEY] = { ...counters, [series]: last + 1 };
+  return series + String(last + 1).padStart(SEQUENCE_DIGITS, '0');
+}
+
+/**
+ * @param {Record<string, any>} [initial] snapshot to start from ({ clients, invoices, expenses, settings, ... })
+ */
+export function createChangeStore(initial = {}) {
+  /** @type {Record<string, any>} */
+  const data = {
+    clients: [],
+    invoices: [],
+    expenses: [],
+    exchangeRates: [],
+    shipments: [],
+    quotes: [],
+    reminders: [],
+    credits: [],
+    ...clone(initial),
+    settings: { ...DEFAULT_SETTINGS, ...(initial.settings || {}) }
+  };
+
+  const collection = entity => {
+    if (!Array.isArray(data[entity])) data[entity] = [];
+    return data[entity];
+  };
+
+  function applyChanges(changes) {
+    const applied = [];
+    const conflicts = [];
+    const invoiceNumbers = {};
+
+    changes.forEach(change => {
+      if (change.entity === 'settings') {
+        if (change.op === 'upsert' && change.record) data.settings[change.record.key] = change.record.value;
+        applied.push(`settings:${change.id}`);
+        return;
+      }
+
+      const rows = collection(change.entity);
+      const index = rows.findIndex(r => r.id === change.id);
+
+      if (index >= 0) {
+        if (!sameVersion(rows[index].updatedAt, change.baseUpdatedAt)) {
+          conflicts.push({ entity: change.entity, id: change.id, record: clone(rows[index]) });
+          return;
+        }
+      } else if (change.op === 'upsert' && change.baseUpdatedAt) {
+        conflicts.push({ entity: change.entity, id: change.id, record: null });
+        return;
+      }
+
+      if (change.op === 'delete') {
+        if (index >= 0) rows.splice(index, 1);
+      } else if (change.record) {
+        const record = clone(change.record);
+        if (change.entity === 'invoices') {
+          // Numbers belong to the server: an issued one is kept, a new one is given on leaving Borrador
+          const kept = index >= 0 ? rows[index].invoiceNumber : '';
+          record.invoiceNumber = kept || (record.status !== DRAFT_STATUS ? nextInvoiceNumber(rows, data.settings, invoiceYear(record)) : '');
+          if (record.invoiceNumber) invoiceNumbers[change.id] = record.invoiceNumber;
+          else delete record.invoiceNumber;
+        }
+        if (index >= 0) rows[index] = record;
+        else rows.push(record);
+      }
+      applied.push(`${change.entity}:${change.id}`);
+    });
+
+    return { status: 'success', applied, conflicts, invoiceNumbers };
+  }
+
+  return {
+    snapshot: () => clone(data),
+
+    /** What a public link shows: only the invoice's publicView, with the server's number and status */
+    sharedInvoice: token => {
+      const invoice = token ? collection('invoices').find(inv => inv.shareToken === token) : undefined;
+      if (!invoice || !invoice.publicView) return null;
+      return { ...clone(invoice.publicView), invoiceNumber: invoice.invoiceNumber || undefined, status: invoice.status };
+    },
+
+    /** Accepts a change set; full snapshots from older app versions are refused untouched */
+    apply: body => {
+      if (body && body.protocol === CHANGESET_PROTOCOL) return applyChanges(body.changes || []);
+      return { status: 'error', message: 'Versión de la app desactualizada: actualiza la app (recarga la página) para sincronizar.' };
+    }
+  };
+}
@@ -0,0 +1,31 @@
+import { StorageBackend } from './types';
+import { createAppsScriptBackend } from './appsScriptBackend';
+import { createRestBackend } from './restBackend';
+import { createMemoryBackend } from './memoryBackend';
+
+export type { StorageBackend, RemoteSnapshot } from './types';
+export { AccessKeyError } from './types';
+export { getAccessKey, setAccessKey } from './appsScriptBackend';
+export { createAppsScriptBackend, createRestBackend, createMemoryBackend };
+
+const DEFAULT_SCRIPT_URL = 'https://script.google.com/macros/s/AKfycbxBpoEQS4ZHx97WST_rOaN5cTE8smy3R4u8dLQ4OTkbOBHg6qvLMDWVksc1dxenKgCfag/exec';
+const DEFAULT_REST_URL = 'http://localhost:8787';
+
+// STORAGE_BACKEND = apps-script (default) | rest | memory, STORAGE_URL overrides the endpoint.
+// Both come from .env.local through vite.config.ts.
+export const createConfiguredBackend = (): StorageBackend => {
+  const kind = process.env.STORAGE_BACKEND || 'apps-script';
+  const url = process.env.STORAGE_URL || '';
+
+  switch (kind) {
+    case 'rest':
+      return createRestBackend(url || DEFAULT_REST_URL);
+    case 'memory':
+      return createMemoryBackend();
+    case 'apps-script':
+      return createAppsScriptBackend(url || DEFAULT_SCRIPT_URL);
+    default:
+      console.warn(`STORAGE_BACKEND desconocido "${kind}", usando Apps Script`);
+      return createAppsScriptBackend(url || DEFAULT_SCRIPT_URL);
+  }
+};
@@ -0,0 +1,16 @@
+import { StorageBackend, RemoteSnapshot } from './types';
+import { PublicInvoice } from '../../types';
+import { ChangeSet, ChangeSetResponse } from '../changeSet';
+import { createChangeStore } from './changeStore.js';
+
+// Keeps the "cloud" in this tab only: for demos and tests, lost on reload
+export const createMemoryBackend = (initial: Partial<RemoteSnapshot> = {}): StorageBackend => {
+  const store = createChangeStore(initial);
+
+  return {
+    name: 'memory',
+    load: async (): Promise<RemoteSnapshot> => store.snapshot() as RemoteSnapshot,
+    pushChanges: async (changeSet: ChangeSet): Promise<ChangeSetResponse> => store.apply(changeSet) as ChangeSetResponse,
+    fetchSharedInvoice: async (token: string): Promise<PublicInvoice | null> => store.sharedInvoice(token) as PublicInvoice | null
+  };
+};
@@ -0,0 +1,35 @@
+import { StorageBackend, RemoteSnapshot } from './types';
+import { PublicInvoice } from '../../types';
+import { ChangeSet, ChangeSetResponse } from '../changeSet';
+
+// JSON/REST server speaking the same protocol, e.g. the local stand-in in mock-server/
+export const createRestBackend = (baseUrl: string): StorageBackend => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  return {
+    name: 'rest',
+
+    load: async (): Promise<RemoteSnapshot> => {
+      const response = await fetch(`${root}/data`);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      return response.json();
+    },
+
+    pushChanges: async (changeSet: ChangeSet): Promise<ChangeSetResponse> => {
+      const response = await fetch(`${root}/changes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changeSet)
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      return response.json();
+    },
+
+    fetchSharedInvoice: async (token: string): Promise<PublicInvoice | null> => {
+      const response = await fetch(`${root}/shared/${encodeURIComponent(token)}`);
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      return (await response.json()).invoice || null;
+    }
+  };
+};
@@ -0,0 +1,28 @@
+import { Client, Invoice, Expense, ExchangeRate, Shipment, Quote, PaymentReminder, CreditEntry, PublicInvoice } from '../../types';
+import { ChangeSet, ChangeSetResponse } from '../changeSet';
+
+// Everything the cloud holds, as returned by a full load
+export interface RemoteSnapshot {
+  clients: Client[];
+  invoices: Invoice[];
+  expenses: Expense[];
+  exchangeRates?: ExchangeRate[];
+  shipments?: Shipment[];
+  quotes?: Quote[];
+  reminders?: PaymentReminder[];
+  credits?: CreditEntry[];
+  settings?: Record<string, any>;
+}
+
+// The backend refused the request because the access key is missing or wrong
+export class AccessKeyError extends Error {}
+
+// Where StorageService syncs to. Implementations must throw on transport errors
+// so the outbox keeps the changes and retries.
+export interface StorageBackend {
+  name: string;
+  load: () => Promise<RemoteSnapshot>;
+  pushChanges: (changeSet: ChangeSet) => Promise<ChangeSetResponse>;
+  // Public read-only link: the publicView of the invoice with that shareToken, null if none
+  fetchSharedInvoice: (token: string) => Promise<PublicInvoice | null>;
+}
@@ -0,0 +1,54 @@
+// Delta-sync protocol shared with GOOGLE_APPS_SCRIPT.js (doPost).
+// Instead of posting every sheet, the client sends one change per edited record.
+
+import { OutboxEntity } from './outbox';
+
+export const CHANGESET_PROTOCOL = 'changes-v1';
+
+export interface RecordChange {
+  entity: OutboxEntity;
+  op: 'upsert' | 'delete';
+  id: string;
+  updatedAt: string;
+  // updatedAt of the cloud version this edit was based on; the server refuses
+  // the change (conflict) when its copy has moved on since
+  baseUpdatedAt?: string;
+  // Full record for upserts; settings travel as { key, value }
+  record?: Record<string, any>;
+}
+
+// A change the server refused, with the server's current copy (null if it was deleted there)
+export interface ChangeConflict {
+  entity: OutboxEntity;
+  id: string;
+  record: Record<string, any> | null;
+}
+
+// A refused change kept on the device until someone picks which version wins
+export interface SyncConflict {
+  entity: OutboxEntity;
+  id: string;
+  local: Record<string, any> | null;
+  remote: Record<string, any> | null;
+  detectedAt: string;
+}
+
+export interface ChangeSet {
+  protocol: typeof CHANGESET_PROTOCOL;
+  changes: RecordChange[];
+}
+
+export interface ChangeSetResponse {
+  status: 'success' | 'error';
+  message?: string;
+  applied?: string[];
+  conflicts?: ChangeConflict[];
+  // Invoice numbers the server holds for the invoices in the change set (id -> number);
+  // the server owns them, so they replace whatever the device had
+  invoiceNumbers?: Record<string, string>;
+}
+
+export const buildChangeSet = (changes: RecordChange[]): ChangeSet => ({
+  protocol: CHANGESET_PROTOCOL,
+  changes
+});
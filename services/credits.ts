@@ -0,0 +1,55 @@
+import { CreditEntry, CreditKind, Invoice, InvoiceStatus, Payment, PaymentMethod } from '../types';
+import { toUsd } from './payments';
+import { generateId } from './ids';
+
+// Saldo a favor: what the business owes a client. It grows with overpaid invoices,
+// anticipos and notas de crédito, and shrinks when it pays other invoices (abonos with
+// method "Saldo a favor") or is handed back (devoluciones). It is a liability.
+
+export const isCreditPayment = (payment: Payment) => payment.method === PaymentMethod.CREDIT;
+
+// Money that actually came in for an invoice: credit abonos only move existing money
+export const cashPaidUsd = (payments: Payment[] = []): number =>
+  payments.filter(p => !isCreditPayment(p)).reduce((acc, p) => acc + (p.amountUsd || 0), 0);
+
+export const creditSign = (kind: CreditKind) => (kind === CreditKind.PAYOUT ? -1 : 1);
+
+export const createCreditEntry = (data: Omit<CreditEntry, 'id' | 'amountUsd' | 'updatedAt' | 'schemaVersion'>): CreditEntry => ({
+  ...data,
+  id: generateId(),
+  amountUsd: parseFloat(toUsd(data.amount, data.currency, data.exchangeRate).toFixed(2))
+});
+
+// Newest first
+export const sortCredits = (credits: CreditEntry[]): CreditEntry[] =>
+  [...credits].sort((a, b) => Date.parse(b.date) - Date.parse(a.date));
+
+// Borradores are not issued: their payments and excess don't count, like in the statement
+export const clientCredit = (
+  invoices: Pick<Invoice, 'clientId' | 'status' | 'grandTotalUsd' | 'payments'>[],
+  credits: CreditEntry[],
+  clientId: string
+): number => {
+  let credit = 0;
+  invoices.forEach(inv => {
+    if (inv.clientId !== clientId || inv.status === InvoiceStatus.DRAFT) return;
+    const payments = inv.payments || [];
+    const paid = payments.reduce((acc, p) => acc + (p.amountUsd || 0), 0);
+    credit += Math.max(0, paid - (inv.grandTotalUsd || 0));
+    credit -= payments.filter(isCreditPayment).reduce((acc, p) => acc + (p.amountUsd || 0), 0);
+  });
+  credits.forEach(c => {
+    if (c.clientId === clientId) credit += creditSign(c.kind) * (c.amountUsd || 0);
+  });
+  return credit;
+};
+
+// What the business owes its clients overall
+export const totalClientCredit = (invoices: Invoice[], credits: CreditEntry[]): number => {
+  const clientIds = new Set([...invoices.map(i => i.clientId), ...credits.map(c => c.clientId)]);
+  let total = 0;
+  clientIds.forEach(id => {
+    total += Math.max(0, clientCredit(invoices, credits, id));
+  });
+  return total;
+};
@@ -0,0 +1,42 @@
+// Small CSV helpers shared by the importers and the exports
+
+// Splits one CSV line honoring double quotes ("36,25")
+export const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (ch === delimiter && !quoted) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+};
+
+// ; and tab are checked first: with them, commas are decimal separators
+export const detectDelimiter = (line: string): string =>
+  line.includes(';') ? ';' : line.includes('\t') ? '\t' : ',';
+
+// Exports use ; and decimal commas, which is what a Spanish-locale Excel opens without a wizard
+const EXPORT_DELIMITER = ';';
+
+export const csvAmount = (amount: number) => (amount || 0).toFixed(2).replace('.', ',');
+
+const csvCell = (value: string) =>
+  /[";\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// The BOM makes Excel read the file as UTF-8 (accents in names and headers)
+export const toCsv = (rows: string[][]): string =>
+  '\uFEFF' + rows.map(row => row.map(csvCell).join(EXPORT_DELIMITER)).join('\r\n');
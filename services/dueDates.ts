@@ -0,0 +1,43 @@
+import { Client, Invoice, InvoiceStatus } from '../types';
+
+// Vencimientos: an invoice is due `paymentTermDays` after its date. The term comes from
+// the invoice, else from its client, else from the global default in settings.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Sheets hands back '' for empty cells, so only real non-negative numbers count as a term
+const validTerm = (days: any): number | undefined =>
+  typeof days === 'number' && !isNaN(days) && days >= 0 ? Math.floor(days) : undefined;
+
+export const paymentTermOf = (
+  invoice: Pick<Invoice, 'paymentTermDays'>,
+  client: Pick<Client, 'paymentTermDays'> | undefined,
+  defaultDays: number
+): number => validTerm(invoice.paymentTermDays) ?? validTerm(client?.paymentTermDays) ?? defaultDays;
+
+// Form input to a stored term: blank means "inherit"
+export const parseTerm = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  return validTerm(parseInt(value, 10));
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Local calendar day the balance falls due
+export const dueDateOf = (invoice: Pick<Invoice, 'createdAt'>, termDays: number): Date => {
+  const due = startOfDay(new Date(invoice.createdAt));
+  due.setDate(due.getDate() + termDays);
+  return due;
+};
+
+// Whole days past the due date; 0 up to and including the due day itself.
+// Rounded because a DST change makes a calendar day 23 or 25 hours long.
+export const daysOverdue = (due: Date, now: Date = new Date()): number =>
+  Math.max(0, Math.round((startOfDay(now).getTime() - due.getTime()) / DAY_MS));
+
+export const balanceOf = (invoice: Pick<Invoice, 'grandTotalUsd' | 'amountPaid'>) =>
+  Math.max(0, (invoice.grandTotalUsd || 0) - (invoice.amountPaid || 0));
+
+// Borradores are not issued yet, so they can't be late
+export const isOverdue = (invoice: Invoice, due: Date, now: Date = new Date()) =>
+  invoice.status !== InvoiceStatus.DRAFT && balanceOf(invoice) > 0.005 && daysOverdue(due, now) > 0;
@@ -0,0 +1,83 @@
+import { ExchangeRate } from '../types';
+import { detectDelimiter, splitCsvLine } from './csv';
+
+export const RATE_SOURCES = ['BCV', 'Paralelo', 'Manual'];
+
+// Local calendar day of an ISO date or timestamp, as YYYY-MM-DD
+export const toRateDate = (value: string | Date): string => {
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  const d = new Date(value);
+  if (isNaN(d.getTime())) return '';
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+// Prefixed so the Sheet keeps the id as text instead of turning it into a date
+export const rateIdFor = (date: string) => `rate-${date}`;
+
+export const createExchangeRate = (date: string, rate: number, source = 'Manual'): ExchangeRate => {
+  const day = toRateDate(date);
+  return { id: rateIdFor(day), date: day, rate, source };
+};
+
+export const sortRates = (rates: ExchangeRate[]): ExchangeRate[] =>
+  [...rates].sort((a, b) => a.date.localeCompare(b.date));
+
+// The rate in effect on `date`: the latest entry on or before that day
+export const findRateForDate = (rates: ExchangeRate[], date: string | Date): ExchangeRate | null => {
+  const day = toRateDate(date);
+  if (!day) return null;
+  return rates.reduce<ExchangeRate | null>(
+    (best, r) => (r.date <= day && (!best || r.date > best.date) ? r : best),
+    null
+  );
+};
+
+// --- CSV import ---
+
+export interface RateImportResult {
+  rates: ExchangeRate[];
+  errors: string[];
+}
+
+// Accepts 2024-01-31, 31/01/2024 and 31-01-2024
+const parseCsvDate = (raw: string): string => {
+  const iso = raw.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) return `${iso[1]}-${iso[2].padStart(2, '0')}-${iso[3].padStart(2, '0')}`;
+  const dmy = raw.match(/^(\d{1,2})[\/-](\d{1,2})[\/-](\d{4})$/);
+  if (dmy) return `${dmy[3]}-${dmy[2].padStart(2, '0')}-${dmy[1].padStart(2, '0')}`;
+  return '';
+};
+
+// "36,25" and "1.036,25" (Venezuelan format) as well as "36.25"
+const parseCsvNumber = (raw: string): number => {
+  let clean = raw.replace(/[^\d.,-]/g, '');
+  if (clean.includes(',')) clean = clean.replace(/\./g, '').replace(',', '.');
+  const num = parseFloat(clean);
+  return isNaN(num) ? NaN : num;
+};
+
+// Columns: fecha, tasa[, fuente]. A header row and ; or tab delimiters are fine.
+export const parseRatesCsv = (text: string, defaultSource = 'BCV'): RateImportResult => {
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+  const rates = new Map<string, ExchangeRate>();
+  const errors: string[] = [];
+  if (lines.length === 0) return { rates: [], errors: ['El archivo está vacío'] };
+
+  const delimiter = detectDelimiter(lines[0]);
+
+  lines.forEach((line, index) => {
+    const [rawDate = '', rawRate = '', rawSource = ''] = splitCsvLine(line, delimiter);
+    const date = parseCsvDate(rawDate);
+    const rate = parseCsvNumber(rawRate);
+
+    if (!date || isNaN(rate) || rate <= 0) {
+      // A first line that doesn't parse is the header
+      if (index > 0) errors.push(`Línea ${index + 1}: "${line}" no se pudo leer`);
+      return;
+    }
+    rates.set(date, createExchangeRate(date, rate, rawSource || defaultSource));
+  });
+
+  return { rates: sortRates(Array.from(rates.values())), errors };
+};
@@ -0,0 +1,31 @@
+import { Invoice, InvoiceStatus } from '../types';
+
+// Invoice numbers are handed out by the server (GOOGLE_APPS_SCRIPT.js, changeStore.js)
+// when an invoice leaves Borrador, so devices working offline never issue the same one.
+// These helpers only format and display them; the server applies the same rules.
+
+export interface InvoiceNumbering {
+  prefix: string;
+  yearlyReset: boolean;
+}
+
+export const DEFAULT_INVOICE_PREFIX = 'FAC-';
+
+const SEQUENCE_DIGITS = 5;
+
+// "FAC-2026-00042", or "FAC-00042" when the series never restarts
+export const formatInvoiceNumber = (numbering: InvoiceNumbering, year: number, sequence: number): string =>
+  `${numbering.prefix}${numbering.yearlyReset ? `${year}-` : ''}${String(sequence).padStart(SEQUENCE_DIGITS, '0')}`;
+
+// Issued but not synced yet: the number arrives with the next successful push
+export const awaitingNumber = (invoice: Pick<Invoice, 'status' | 'invoiceNumber'>): boolean =>
+  invoice.status !== InvoiceStatus.DRAFT && !invoice.invoiceNumber;
+
+// Drafts keep the id fragment they were always shown with
+export const invoiceLabel = (invoice: Pick<Invoice, 'id' | 'invoiceNumber'>): string =>
+  invoice.invoiceNumber || `#${invoice.id.slice(0, 8).toUpperCase()}`;
+
+export const matchesInvoiceNumber = (invoice: Pick<Invoice, 'invoiceNumber'>, query: string): boolean => {
+  const q = query.trim().toUpperCase();
+  return q.length > 0 && String(invoice.invoiceNumber || '').toUpperCase().includes(q);
+};
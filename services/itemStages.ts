@@ -0,0 +1,42 @@
+import { Invoice, ItemStage, ItemStageEvent, ProductItem } from '../types';
+
+export const ITEM_STAGES: ItemStage[] = Object.values(ItemStage);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const stageIndex = (stage: ItemStage): number => ITEM_STAGES.indexOf(stage);
+
+// Items with no timeline yet were bought when the invoice was made
+export const currentStage = (item: Pick<ProductItem, 'stages'>): ItemStage => {
+  const stages = item.stages || [];
+  return stages.length > 0 ? stages[stages.length - 1].stage : ItemStage.PURCHASED;
+};
+
+export const stageEvent = (item: Pick<ProductItem, 'stages'>, stage: ItemStage): ItemStageEvent | undefined =>
+  (item.stages || []).find(e => e.stage === stage);
+
+// Moving back (a correction) drops the later steps, so the timeline always reads in order
+export const setItemStage = (item: ProductItem, stage: ItemStage, date: string = new Date().toISOString()): ProductItem => {
+  const kept = (item.stages || []).filter(e => stageIndex(e.stage) < stageIndex(stage));
+  return { ...item, stages: [...kept, { stage, date }] };
+};
+
+// Whole days in the current stage, counted from `since` (the invoice date) when the
+// item has no timeline
+export const daysInStage = (item: Pick<ProductItem, 'stages'>, since: string, now: Date = new Date()): number => {
+  const stages = item.stages || [];
+  const from = stages.length > 0 ? stages[stages.length - 1].date : since;
+  const time = Date.parse(from);
+  return isNaN(time) ? 0 : Math.max(0, Math.floor((now.getTime() - time) / DAY_MS));
+};
+
+export const allItemsDelivered = (invoice: Pick<Invoice, 'items'>): boolean => {
+  const items = invoice.items || [];
+  return items.length > 0 && items.every(item => currentStage(item) === ItemStage.DELIVERED);
+};
+
+// Items of the invoice sitting in `stage` for at least `minDays`
+export const itemsStuckIn = (invoice: Invoice, stage: ItemStage, minDays: number, now: Date = new Date()): ProductItem[] =>
+  (invoice.items || []).filter(item =>
+    currentStage(item) === stage && daysInStage(item, invoice.createdAt, now) >= minDays
+  );
@@ -0,0 +1,118 @@
+// Durable on-device copy of the data (IndexedDB).
+// StorageService hydrates from here on startup and writes every change here first;
+// the Google Sheet is only a sync target.
+
+const DB_NAME = 'kasstyle';
+const DB_VERSION = 7;
+
+export type CollectionName = 'clients' | 'invoices' | 'expenses' | 'exchangeRates' | 'shipments' | 'quotes' | 'reminders' | 'credits';
+
+// Record stores keyed by `id`: the data collections plus the sync outbox
+export type StoreName = CollectionName | 'outbox';
+
+const STORES: StoreName[] = ['clients', 'invoices', 'expenses', 'exchangeRates', 'shipments', 'quotes', 'reminders', 'credits', 'outbox'];
+const META_STORE = 'meta';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const isAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise(resolve => {
+    if (!isAvailable()) {
+      resolve(null);
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      STORES.forEach(name => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: 'id' });
+        }
+      });
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      // Private browsing or blocked storage: keep working in memory only
+      console.error('❌ IndexedDB no disponible:', request.error);
+      resolve(null);
+    };
+  });
+
+  return dbPromise;
+};
+
+const runTransaction = async (
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => void
+): Promise<void> => {
+  const db = await openDb();
+  if (!db) return;
+
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(storeNames, mode);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+    work(tx);
+  });
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const LocalStore = {
+  getAll: async <T>(collection: StoreName): Promise<T[]> => {
+    const db = await openDb();
+    if (!db) return [];
+    const tx = db.transaction(collection, 'readonly');
+    return requestToPromise(tx.objectStore(collection).getAll() as IDBRequest<T[]>);
+  },
+
+  put: async <T>(collection: StoreName, record: T): Promise<void> => {
+    await runTransaction([collection], 'readwrite', tx => {
+      tx.objectStore(collection).put(record);
+    });
+  },
+
+  remove: async (collection: StoreName, id: string): Promise<void> => {
+    await runTransaction([collection], 'readwrite', tx => {
+      tx.objectStore(collection).delete(id);
+    });
+  },
+
+  // Replace a whole collection in one transaction (used after a cloud pull)
+  replaceAll: async <T>(collection: StoreName, records: T[]): Promise<void> => {
+    await runTransaction([collection], 'readwrite', tx => {
+      const store = tx.objectStore(collection);
+      store.clear();
+      records.forEach(r => store.put(r));
+    });
+  },
+
+  getMeta: async <T>(key: string): Promise<T | undefined> => {
+    const db = await openDb();
+    if (!db) return undefined;
+    const tx = db.transaction(META_STORE, 'readonly');
+    return requestToPromise(tx.objectStore(META_STORE).get(key) as IDBRequest<T | undefined>);
+  },
+
+  setMeta: async <T>(key: string, value: T): Promise<void> => {
+    await runTransaction([META_STORE], 'readwrite', tx => {
+      tx.objectStore(META_STORE).put(value, key);
+    });
+  }
+};
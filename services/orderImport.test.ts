@@ -0,0 +1,104 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { Platform } from '../types';
+import { ImportedLine, parseMoney, parseOrder, toProductItems } from './orderImport';
+
+// Orders as users paste them: confirmation text, a store CSV export and a saved email
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', 'orders', name), 'utf8');
+
+const orderTotal = (lines: ImportedLine[], field: 'taxes' | 'discounts') =>
+  lines.reduce((acc, l) => acc + l[field] * l.quantity, 0);
+
+describe('parseMoney', () => {
+  it('reads dot and comma decimals, with or without thousands', () => {
+    expect(parseMoney('$1,234.56')).toBe(1234.56);
+    expect(parseMoney('US$ 12.99')).toBe(12.99);
+    expect(parseMoney('12,99 $')).toBe(12.99);
+    expect(parseMoney('1.234,56')).toBe(1234.56);
+    expect(parseMoney('gratis')).toBeNaN();
+  });
+});
+
+describe('parseOrder', () => {
+  it('reads a Shein confirmation, keeping the sale price and spreading coupon and tax', () => {
+    const result = parseOrder(fixture('shein.txt'));
+
+    expect(result.platform).toBe(Platform.SHEIN);
+    expect(result.warnings).toEqual([]);
+    expect(result.lines.map(l => [l.name, l.quantity, l.price])).toEqual([
+      ['SHEIN EZwear Ribbed Knit Crop Tee', 2, 8.49],
+      ['Solid Wide Leg Pants', 1, 15]
+    ]);
+    expect(orderTotal(result.lines, 'discounts')).toBeCloseTo(3, 1);
+    expect(orderTotal(result.lines, 'taxes')).toBeCloseTo(2.1, 1);
+  });
+
+  it('reads an Amazon confirmation with quantities above the price', () => {
+    const result = parseOrder(fixture('amazon.txt'));
+
+    expect(result.platform).toBe(Platform.AMAZON);
+    expect(result.warnings).toEqual([]);
+    expect(result.lines.map(l => [l.name, l.quantity, l.price])).toEqual([
+      ['Anker Portable Charger, 10000mAh Power Bank', 1, 25.99],
+      ['Apple AirTag 4 Pack', 2, 79]
+    ]);
+    expect(orderTotal(result.lines, 'taxes')).toBeCloseTo(12.88, 1);
+  });
+
+  it('reads a Temu order with name, price and quantity on one line', () => {
+    const result = parseOrder(fixture('temu.txt'));
+
+    expect(result.platform).toBe(Platform.TEMU);
+    expect(result.warnings).toEqual([]);
+    expect(result.lines.map(l => [l.name, l.quantity, l.price])).toEqual([
+      ['Kitchen Silicone Spatula Set 5pcs', 3, 6.48],
+      ['LED Strip Lights 5m RGB', 1, 9.99],
+      ['Phone Case Shockproof', 2, 3.29]
+    ]);
+    expect(orderTotal(result.lines, 'discounts')).toBeCloseTo(5, 1);
+  });
+
+  it('reads a CSV export, taking the unit price and splitting line taxes per unit', () => {
+    const result = parseOrder(fixture('amazon.csv'));
+
+    expect(result.platform).toBe(Platform.AMAZON);
+    expect(result.lines).toEqual([
+      { name: 'Anker Portable Charger, 10000mAh', quantity: 1, price: 25.99, taxes: 1.82, discounts: 0 },
+      { name: 'Apple AirTag 4 Pack', quantity: 2, price: 79, taxes: 5.53, discounts: 0 }
+    ]);
+    expect(result.warnings).toEqual(['Fila 4: "Gift card" sin precio, se omitió']);
+  });
+
+  it('reads the table of a saved HTML email and ignores the text around it', () => {
+    const result = parseOrder(fixture('shein-email.html'));
+
+    expect(result.platform).toBe(Platform.SHEIN);
+    expect(result.warnings).toEqual([]);
+    expect(result.lines).toEqual([
+      { name: 'Vestido Floral & Encaje', quantity: 1, price: 18.5, taxes: 0, discounts: 2 },
+      { name: 'Sandalias de Tira', quantity: 2, price: 11.25, taxes: 0, discounts: 0 }
+    ]);
+  });
+
+  it('keeps the platform chosen by the user', () => {
+    expect(parseOrder(fixture('temu.txt'), Platform.ALIEXPRESS).platform).toBe(Platform.ALIEXPRESS);
+  });
+
+  it('warns when nothing with a price is found', () => {
+    const result = parseOrder('Gracias por tu compra');
+    expect(result.lines).toEqual([]);
+    expect(result.warnings).toEqual(['No se encontraron productos con precio']);
+  });
+});
+
+describe('toProductItems', () => {
+  it('bills the price paid and records taxes and discounts on the cost side', () => {
+    const [dress] = toProductItems(parseOrder(fixture('shein-email.html')).lines, Platform.SHEIN);
+
+    expect(dress.finalPrice).toBe(18.5);
+    expect(dress.originalPrice).toBe(16.5);
+    expect(dress.originalPrice - dress.taxes + dress.discounts).toBe(dress.finalPrice);
+    expect(dress.platform).toBe(Platform.SHEIN);
+  });
+});
@@ -0,0 +1,256 @@
+// Reads order confirmations pasted from Shein, Amazon, Temu... (plain text, CSV
+// exports or the HTML of the confirmation email) into invoice items.
+
+import { Platform, ProductCategory, ProductItem } from '../types';
+import { generateId } from './ids';
+import { detectDelimiter, splitCsvLine } from './csv';
+
+export interface ImportedLine {
+  name: string;
+  quantity: number;
+  // Per unit
+  price: number; // List price at the store
+  taxes: number;
+  discounts: number;
+}
+
+export interface OrderImportResult {
+  platform: Platform;
+  lines: ImportedLine[];
+  warnings: string[];
+}
+
+const PLATFORM_KEYWORDS: [Platform, RegExp][] = [
+  [Platform.SHEIN, /shein/i],
+  [Platform.AMAZON, /amazon|\bASIN\b/i],
+  [Platform.TEMU, /temu/i],
+  [Platform.ALIEXPRESS, /aliexpress/i],
+  [Platform.ALIBABA, /alibaba/i]
+];
+
+export const detectPlatform = (text: string): Platform =>
+  PLATFORM_KEYWORDS.find(([, re]) => re.test(text))?.[0] || Platform.OTHER;
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+// "$1,234.56", "US$ 12.99", "12,99 $" and "1.234,56": the last separator followed by
+// one or two digits is the decimal one
+export const parseMoney = (raw: string): number => {
+  const match = String(raw).match(/\d[\d.,]*/);
+  if (!match) return NaN;
+  let s = match[0].replace(/[.,]$/, '');
+  const lastComma = s.lastIndexOf(',');
+  const lastDot = s.lastIndexOf('.');
+  if (lastComma > lastDot && s.length - lastComma - 1 <= 2) s = s.replace(/\./g, '').replace(',', '.');
+  else s = s.replace(/,/g, '');
+  const value = parseFloat(s);
+  return isNaN(value) ? NaN : value;
+};
+
+const stripAccents = (s: string) => s.normalize('NFD').replace(/[̀-ͯ]/g, '');
+
+// --- HTML ---
+
+const decodeEntities = (s: string) => s
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&amp;/g, '&')
+  .replace(/&quot;/g, '"')
+  .replace(/&#39;|&apos;/g, "'")
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)));
+
+// Table cells become tab-separated columns and block elements become lines
+export const htmlToText = (html: string): string =>
+  decodeEntities(html
+    .replace(/<(script|style|head)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/t[dh]>/gi, '\t')
+    .replace(/<\/(p|div|li|tr|h\d|table|section)>/gi, '\n')
+    .replace(/<[^>]+>/g, ''))
+  .split('\n')
+  .map(line => line.replace(/[  ]+/g, ' ').replace(/\t\s*/g, '\t').replace(/^\s+|[\s\t]+$/g, ''))
+  .filter(Boolean)
+  .join('\n');
+
+// --- Distributing order-level amounts ---
+
+// Taxes and discounts shown once for the whole order are spread over the units in
+// proportion to their price
+const spreadOrderAmounts = (lines: ImportedLine[], taxes: number, discounts: number): ImportedLine[] => {
+  const subtotal = lines.reduce((acc, l) => acc + l.price * l.quantity, 0);
+  if (subtotal <= 0 || (taxes === 0 && discounts === 0)) return lines;
+  return lines.map(l => {
+    const share = l.price / subtotal; // Per unit
+    return { ...l, taxes: round2(l.taxes + taxes * share), discounts: round2(l.discounts + discounts * share) };
+  });
+};
+
+// --- CSV / tables ---
+
+type Column = 'name' | 'quantity' | 'price' | 'taxes' | 'discounts';
+
+// Header words in English (store exports) and Spanish
+const classifyHeader = (header: string): Column | null => {
+  const h = stripAccents(header.toLowerCase());
+  if (/\b(quantity|qty|cantidad|cant)\b/.test(h)) return 'quantity';
+  if (/(tax|impuesto|iva)/.test(h)) return 'taxes';
+  if (/(discount|descuento|coupon|cupon|promo)/.test(h)) return 'discounts';
+  if (/(price|precio|cost|costo|amount|monto|subtotal|total)/.test(h)) return 'price';
+  if (/\b(id|number|numero|asin|sku|url|link|date|fecha)\b/.test(h)) return null;
+  if (/(title|name|nombre|product|producto|item|articulo|descripcion|description)/.test(h)) return 'name';
+  return null;
+};
+
+// Subtotal/total columns hold the whole line, not one unit
+const isLineAmount = (header: string) => /(subtotal|total)/i.test(header) && !/(unit|unitario)/i.test(header);
+
+const parseTable = (rows: string[][], warnings: string[]): ImportedLine[] | null => {
+  const headerIndex = rows.findIndex(r => {
+    const kinds = r.map(classifyHeader);
+    return kinds.includes('name') && kinds.includes('price');
+  });
+  if (headerIndex < 0) return null;
+
+  const header = rows[headerIndex];
+  const columns: Partial<Record<Column, number>> = {};
+  header.forEach((h, i) => {
+    const kind = classifyHeader(h);
+    if (!kind) return;
+    // Of several price columns, the per-unit one wins
+    if (columns[kind] === undefined || (kind === 'price' && /(unit|unitario)/i.test(h))) columns[kind] = i;
+  });
+
+  const amount = (row: string[], kind: Column, quantity: number): number => {
+    const index = columns[kind];
+    if (index === undefined || !row[index]) return 0;
+    const value = Math.abs(parseMoney(row[index]));
+    if (isNaN(value)) return 0;
+    return isLineAmount(header[index]) && quantity > 0 ? value / quantity : value;
+  };
+
+  const lines: ImportedLine[] = [];
+  rows.slice(headerIndex + 1).forEach((row, i) => {
+    // Text around the table (totals under an HTML table, notes in a CSV) has a single cell
+    if (row.length < 2) return;
+    const name = (row[columns.name!] || '').trim();
+    if (!name) return;
+    const quantity = columns.quantity !== undefined ? Math.max(1, parseInt(row[columns.quantity], 10) || 1) : 1;
+    const price = amount(row, 'price', quantity);
+    if (price <= 0) {
+      warnings.push(`Fila ${headerIndex + i + 2}: "${name}" sin precio, se omitió`);
+      return;
+    }
+    lines.push({
+      name,
+      quantity,
+      price: round2(price),
+      taxes: round2(amount(row, 'taxes', quantity)),
+      discounts: round2(amount(row, 'discounts', quantity))
+    });
+  });
+  return lines;
+};
+
+// --- Free text ---
+
+const PRICE_RE = /(?:US\s?\$|\$|USD\s?)\s?-?\d[\d.,]*|-?\d[\d.,]*\s?(?:\$|USD)/gi;
+const QTY_RE = /(?:^|\s)(?:x\s?(\d+)|(\d+)\s?x(?=\s|$)|(?:qty|quantity|cantidad|cant\.?)\s*:?\s*(\d+))/i;
+const SUMMARY_RE = /^(retail\s+)?(sub\s?total|total|grand total|order total|items?(\(s\))?\s*(sub)?total|shipping|env[ií]o|delivery|payment|paid|pagado|balance|saldo)/i;
+const TAX_RE = /^(estimated\s+)?(sales\s+)?(tax|impuesto|iva)/i;
+const DISCOUNT_RE = /^(discount|descuento|coupon|cup[oó]n|promo|savings|ahorro)/i;
+// "Size: M", "Color: Negro", "Sold by: ..." describe the item above them
+const META_RE = /^[^:$]{1,20}:\s/;
+
+const quantityIn = (line: string): number | null => {
+  const m = line.match(QTY_RE);
+  return m ? parseInt(m[1] || m[2] || m[3], 10) : null;
+};
+
+const parseText = (text: string, warnings: string[]): ImportedLine[] => {
+  const lines: ImportedLine[] = [];
+  let orderTaxes = 0;
+  let orderDiscounts = 0;
+  let pendingName = '';
+  let pendingQty: number | null = null;
+  let lastExplicitQty = true;
+
+  text.split('\n').map(l => l.replace(/\t/g, ' ').trim()).filter(Boolean).forEach(line => {
+    const prices = line.match(PRICE_RE) || [];
+    const qty = quantityIn(line);
+
+    if (prices.length > 0) {
+      // The last price shown is the one paid (sale prices come after the crossed-out one)
+      const value = Math.abs(parseMoney(prices[prices.length - 1]));
+      if (TAX_RE.test(line)) { orderTaxes += value; return; }
+      if (DISCOUNT_RE.test(line)) { orderDiscounts += value; return; }
+      if (SUMMARY_RE.test(line)) return;
+
+      const ownName = line.replace(PRICE_RE, '').replace(QTY_RE, ' ').replace(/[\s|·•:\-–]+$/, '').replace(/^[\s|·•:\-–]+/, '').trim();
+      const name = ownName.length >= 3 && !META_RE.test(line) ? ownName : pendingName;
+      if (!name) {
+        warnings.push(`"${line}": precio sin nombre de producto, se omitió`);
+        return;
+      }
+      const quantity = qty ?? pendingQty;
+      lines.push({ name, quantity: quantity || 1, price: round2(value), taxes: 0, discounts: 0 });
+      lastExplicitQty = quantity !== null;
+      pendingName = '';
+      pendingQty = null;
+      return;
+    }
+
+    if (qty !== null && line.replace(QTY_RE, '').trim().length === 0) {
+      // A bare "x2" line belongs to the item right before it, unless a new name came first
+      if (!pendingName && lines.length > 0 && !lastExplicitQty) {
+        lines[lines.length - 1].quantity = qty;
+        lastExplicitQty = true;
+      } else {
+        pendingQty = qty;
+      }
+      return;
+    }
+
+    if (META_RE.test(line) || SUMMARY_RE.test(line)) return;
+    pendingName = line;
+  });
+
+  return spreadOrderAmounts(lines, orderTaxes, orderDiscounts);
+};
+
+export const parseOrder = (input: string, platform?: Platform): OrderImportResult => {
+  const warnings: string[] = [];
+  const isHtml = /<\/?(html|body|table|div|tr|td|p|span)\b/i.test(input);
+  const text = isHtml ? htmlToText(input) : input.replace(/\r\n?/g, '\n');
+  const detected = platform || detectPlatform(input);
+
+  const rawLines = text.split('\n').filter(l => l.trim());
+  let lines: ImportedLine[] | null = null;
+
+  // A header row with product and price columns means a table (CSV export or HTML table)
+  const delimiter = isHtml ? '\t' : detectDelimiter(rawLines[0] || '');
+  const rows = rawLines.map(l => splitCsvLine(l, delimiter));
+  if (rows.some(r => r.length > 1)) lines = parseTable(rows, warnings);
+  if (!lines) lines = parseText(text, warnings);
+
+  if (lines.length === 0) warnings.push('No se encontraron productos con precio');
+  return { platform: detected, lines, warnings };
+};
+
+// What the store charged is the item's cost; the client is billed the list price, so
+// finalPrice = originalPrice - taxes + discounts gives back `price`
+export const toProductItems = (lines: ImportedLine[], platform: Platform): ProductItem[] =>
+  lines.map(line => ({
+    id: generateId(),
+    name: line.name,
+    quantity: line.quantity,
+    weight: 0,
+    weightUnit: 'kg',
+    platform,
+    originalPrice: round2(line.price + line.taxes - line.discounts),
+    taxes: line.taxes,
+    discounts: line.discounts,
+    finalPrice: line.price,
+    commission: 0,
+    category: ProductCategory.GENERAL
+  }));
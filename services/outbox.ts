@@ -0,0 +1,158 @@
+// Persistent queue of local changes the cloud has not confirmed yet.
+// Entries survive reloads (IndexedDB) and are retried with exponential backoff.
+
+import { LocalStore, CollectionName } from './localStore';
+import { generateId } from './ids';
+
+export type OutboxEntity = CollectionName | 'settings';
+
+export interface OutboxEntry {
+  id: string;
+  entity: OutboxEntity;
+  recordId: string;
+  op: 'upsert' | 'delete';
+  queuedAt: string;
+}
+
+export interface OutboxStatus {
+  pending: number;
+  isFlushing: boolean;
+  lastError: string | null;
+  nextRetryAt: number | null;
+}
+
+// Receives the queued entries and returns the ones it could not send (they stay queued);
+// must throw if the cloud did not accept them
+type Sender = (entries: OutboxEntry[]) => Promise<OutboxEntry[] | void>;
+
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+
+// One entry per record: re-editing a record replaces its queued entry
+const entryKey = (entity: OutboxEntity, recordId: string) => `${entity}:${recordId}`;
+
+let _entries = new Map<string, OutboxEntry>();
+let _sender: Sender | null = null;
+let _loadPromise: Promise<void> | null = null;
+let _flushPromise: Promise<void> | null = null;
+let _attempts = 0;
+let _retryTimer: ReturnType<typeof setTimeout> | null = null;
+let _nextRetryAt: number | null = null;
+let _lastError: string | null = null;
+
+type Listener = () => void;
+let listeners: Listener[] = [];
+
+const notifyListeners = () => {
+  listeners.forEach(l => l());
+};
+
+const clearRetry = () => {
+  if (_retryTimer) clearTimeout(_retryTimer);
+  _retryTimer = null;
+  _nextRetryAt = null;
+};
+
+const scheduleRetry = () => {
+  clearRetry();
+  const delay = Math.min(BASE_RETRY_MS * Math.pow(2, _attempts - 1), MAX_RETRY_MS);
+  const jitter = Math.random() * 0.2 * delay;
+  _nextRetryAt = Date.now() + delay + jitter;
+  _retryTimer = setTimeout(() => {
+    _retryTimer = null;
+    Outbox.flush();
+  }, delay + jitter);
+};
+
+const runFlush = async () => {
+  if (!_sender || _entries.size === 0) return;
+
+  const batch = Array.from(_entries.values());
+  try {
+    const held = new Set(((await _sender(batch)) || []).map(e => e.id));
+
+    // Only drop what was sent; records re-queued meanwhile carry a new entry id
+    batch.forEach(sent => {
+      if (held.has(sent.id)) return;
+      const key = entryKey(sent.entity, sent.recordId);
+      if (_entries.get(key)?.id === sent.id) {
+        _entries.delete(key);
+        LocalStore.remove('outbox', sent.id).catch(() => {});
+      }
+    });
+    _attempts = 0;
+    _lastError = null;
+    clearRetry();
+
+    // Changes queued while this batch was in flight
+    if (_entries.size > held.size) setTimeout(() => Outbox.flush(), 0);
+  } catch (error) {
+    _attempts += 1;
+    _lastError = error instanceof Error ? error.message : String(error);
+    console.error(`❌ Error sincronizando (intento ${_attempts}):`, error);
+    scheduleRetry();
+  }
+};
+
+export const Outbox = {
+  subscribe: (listener: Listener) => {
+    listeners.push(listener);
+    return () => {
+      listeners = listeners.filter(l => l !== listener);
+    };
+  },
+
+  setSender: (sender: Sender) => {
+    _sender = sender;
+  },
+
+  // Restores the entries left over from a previous session; safe to call repeatedly
+  load: (): Promise<void> => {
+    if (!_loadPromise) {
+      _loadPromise = LocalStore.getAll<OutboxEntry>('outbox')
+        .then(stored => {
+          stored
+            .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt))
+            .forEach(e => _entries.set(entryKey(e.entity, e.recordId), e));
+          notifyListeners();
+        })
+        .catch(error => console.error('❌ Error leyendo cola de sincronización:', error));
+    }
+    return _loadPromise;
+  },
+
+  enqueue: async (entity: OutboxEntity, recordId: string, op: 'upsert' | 'delete') => {
+    await Outbox.load();
+    const key = entryKey(entity, recordId);
+    const previous = _entries.get(key);
+    const entry: OutboxEntry = { id: generateId(), entity, recordId, op, queuedAt: new Date().toISOString() };
+
+    _entries.set(key, entry);
+    if (previous) LocalStore.remove('outbox', previous.id).catch(() => {});
+    LocalStore.put('outbox', entry).catch(err => console.error('❌ Error guardando cola:', err));
+    notifyListeners();
+  },
+
+  getEntries: (): OutboxEntry[] => Array.from(_entries.values()),
+
+  pendingCount: (): number => _entries.size,
+
+  getStatus: (): OutboxStatus => ({
+    pending: _entries.size,
+    isFlushing: _flushPromise !== null,
+    lastError: _lastError,
+    nextRetryAt: _nextRetryAt
+  }),
+
+  // Sends everything queued; concurrent callers share the same in-flight attempt
+  flush: (): Promise<void> => {
+    if (_flushPromise) return _flushPromise;
+    clearRetry();
+    _flushPromise = runFlush().finally(() => {
+      _flushPromise = null;
+      notifyListeners();
+    });
+    notifyListeners();
+    return _flushPromise;
+  }
+};
@@ -0,0 +1,55 @@
+import { Invoice, InvoiceStatus, Payment, PaymentMethod, Currency } from '../types';
+import { generateId } from './ids';
+
+// Differences below half a cent are rounding noise
+const EPSILON = 0.005;
+
+export const toUsd = (amount: number, currency: Currency, exchangeRate: number): number => {
+  if (currency === 'USD') return amount;
+  return exchangeRate > 0 ? amount / exchangeRate : 0;
+};
+
+export const createPayment = (data: {
+  amount: number;
+  currency: Currency;
+  exchangeRate: number;
+  method: PaymentMethod;
+  date?: string;
+  reference?: string;
+  notes?: string;
+}): Payment => ({
+  id: generateId(),
+  date: data.date || new Date().toISOString(),
+  amount: data.amount,
+  currency: data.currency,
+  exchangeRate: data.exchangeRate,
+  amountUsd: parseFloat(toUsd(data.amount, data.currency, data.exchangeRate).toFixed(2)),
+  method: data.method,
+  reference: data.reference || undefined,
+  notes: data.notes || undefined
+});
+
+export const totalPaidUsd = (payments: Payment[] = []): number =>
+  payments.reduce((acc, p) => acc + (p.amountUsd || 0), 0);
+
+export const sortPayments = (payments: Payment[] = []): Payment[] =>
+  [...payments].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+// Borrador and Entregado are set by hand; every other status follows the ledger
+export const deriveStatus = (current: InvoiceStatus, grandTotalUsd: number, paidUsd: number): InvoiceStatus => {
+  if (current === InvoiceStatus.DRAFT || current === InvoiceStatus.DELIVERED) return current;
+  if (paidUsd <= EPSILON) return InvoiceStatus.PENDING;
+  if (paidUsd < grandTotalUsd - EPSILON) return InvoiceStatus.PARTIAL;
+  return InvoiceStatus.PAID;
+};
+
+export const remainingUsd = (invoice: Pick<Invoice, 'grandTotalUsd' | 'payments'>): number =>
+  Math.max(0, invoice.grandTotalUsd - totalPaidUsd(invoice.payments));
+
+// A Bs abono settles USD debt at its own day's rate. Measured against the rate the
+// invoice was issued at, the Bs received differ from the Bs booked: that difference
+// is the realized exchange gain (positive) or loss (negative), in Bs.
+export const realizedFxBs = (invoice: Pick<Invoice, 'exchangeRate' | 'payments'>): number =>
+  (invoice.payments || [])
+    .filter(p => p.currency === 'Bs')
+    .reduce((acc, p) => acc + (p.amount - p.amountUsd * (invoice.exchangeRate || 0)), 0);
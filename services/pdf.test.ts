@@ -0,0 +1,137 @@
+import { mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { jsPDF } from 'jspdf';
+import { Client, Expense, Invoice, InvoiceStatus, PaymentMethod, Platform, ProductCategory, ProductItem, Quote, QuoteStatus } from '../types';
+import { buildInvoicePdf, buildQuotePdf, buildReportPdf, buildStatementPdf } from './pdf';
+import { priceInvoice } from './pricing';
+import { defaultShippingRates } from './shipping';
+import { DEFAULT_TARIFF_RULES } from './tariffs';
+import { buildStatement } from './statements';
+
+// Renders every document to a real file, the same bytes the browser would download
+const outDir = mkdtempSync(join(tmpdir(), 'kasstyle-pdf-'));
+
+const render = (doc: jsPDF, fileName: string): string => {
+  const file = join(outDir, fileName);
+  writeFileSync(file, Buffer.from(doc.output('arraybuffer')));
+  return readFileSync(file, 'latin1');
+};
+
+const item = (overrides: Partial<ProductItem>): ProductItem => ({
+  id: 'item',
+  name: 'Producto',
+  quantity: 1,
+  weight: 1,
+  weightUnit: 'kg',
+  platform: Platform.SHEIN,
+  originalPrice: 10,
+  taxes: 0,
+  discounts: 0,
+  finalPrice: 12,
+  commission: 0,
+  category: ProductCategory.GENERAL,
+  ...overrides
+});
+
+const items = [
+  item({ id: 'shoes', name: 'Shoes', weight: 2, length: 40, width: 30, height: 20, dimensionUnit: 'cm', category: ProductCategory.SHOES }),
+  item({ id: 'phone', name: 'Phone', quantity: 2, platform: Platform.AMAZON, originalPrice: 100, finalPrice: 120, category: ProductCategory.ELECTRONICS, trackingNumber: '1Z999AA10123456784' })
+];
+
+const pricing = priceInvoice(items, { shippingRate: defaultShippingRates(15.43)[0], tariffRules: DEFAULT_TARIFF_RULES });
+
+const client: Client = { id: 'c1', name: 'Maria Perez', phone: '0414-1234567', address: 'Caracas', email: '' };
+
+const invoice: Invoice = {
+  id: 'inv-1',
+  clientId: 'c1',
+  createdAt: '2026-03-02T12:00:00.000Z',
+  updatedAt: '2026-03-02T12:00:00.000Z',
+  status: InvoiceStatus.PARTIAL,
+  exchangeRate: 40,
+  items,
+  logisticsCost: pricing.logistics,
+  grandTotalUsd: pricing.grandTotal,
+  amountPaid: 100,
+  totalProductCost: pricing.productCost,
+  totalProductSale: pricing.productSale,
+  totalCommissions: pricing.commissions,
+  invoiceNumber: 'FAC-2026-00007',
+  payments: [{ id: 'p1', date: '2026-03-03T12:00:00.000Z', amount: 100, currency: 'USD', exchangeRate: 40, amountUsd: 100, method: PaymentMethod.ZELLE, reference: 'ZX-77' }]
+};
+
+describe('PDF documents rendered in Node', () => {
+  it('writes the invoice with its items, weights, payments and totals', () => {
+    const pdf = render(buildInvoicePdf({ invoice, client, pricing, currency: 'USD', todayRate: 42 }), 'factura.pdf');
+
+    expect(pdf.startsWith('%PDF-')).toBe(true);
+    expect(pdf).toContain('FACTURA FAC-2026-00007');
+    expect(pdf).toContain('Maria Perez');
+    expect(pdf).toContain('Peso real 2.00 kg');
+    expect(pdf).toContain('Volum'); // Volumétrico, only for the item with a package size
+    expect(pdf).toContain('Facturable 4.80 kg');
+    expect(pdf).toContain('Ref ZX-77');
+    expect(pdf).toContain('1Z999AA10123456784');
+  });
+
+  it('quotes Bs amounts at the invoice rate', () => {
+    const pdf = render(buildInvoicePdf({ invoice, client, pricing, currency: 'Bs', todayRate: 42 }), 'factura-bs.pdf');
+    expect(pdf).toContain('Tasa: 40 Bs/USD');
+  });
+
+  it('writes the quote with its validity and notes', () => {
+    const quote: Quote = {
+      id: 'q1b2c3d4e5',
+      clientId: 'c1',
+      createdAt: '2026-03-01T12:00:00.000Z',
+      updatedAt: '2026-03-01T12:00:00.000Z',
+      validUntil: '2026-03-08T12:00:00.000Z',
+      status: QuoteStatus.OPEN,
+      exchangeRate: 40,
+      items,
+      logisticsCost: pricing.logistics,
+      grandTotalUsd: pricing.grandTotal,
+      notes: 'Delivery in 15 days'
+    };
+    const pdf = render(buildQuotePdf({ quote, client, pricing }), 'cotizacion.pdf');
+
+    expect(pdf.startsWith('%PDF-')).toBe(true);
+    expect(pdf).toContain('#Q1B2C3D4');
+    expect(pdf).toContain('Tasa 40');
+    expect(pdf).toContain('Delivery in 15 days');
+  });
+
+  it('breaks long tables across pages with numbered footers', () => {
+    const expenses: Expense[] = Array.from({ length: 80 }, (_, i) => ({
+      id: `e${i}`,
+      description: `Expense ${i}`,
+      amount: 10,
+      category: 'Otro',
+      date: '2026-03-05T12:00:00.000Z'
+    }));
+    const doc = buildReportPdf({
+      periodLabel: 'March 2026',
+      generatedAt: new Date('2026-04-01T12:00:00.000Z'),
+      stats: { revenue: 100, totalExpenses: 800, netProfit: -700, profitMargin: -700, pending: pricing.grandTotal - 100 },
+      invoices: [invoice],
+      expenses,
+      clientName: () => client.name
+    });
+    const pdf = render(doc, 'reporte.pdf');
+
+    expect(doc.getNumberOfPages()).toBeGreaterThan(1);
+    expect(pdf).toContain(`1 de ${doc.getNumberOfPages()}`);
+    expect(pdf).toContain('Expense 79');
+  });
+
+  it('writes the account statement with the available credit', () => {
+    const statement = buildStatement([invoice], 'c1');
+    const pdf = render(buildStatementPdf({ client, statement, rangeLabel: 'Todo', generatedAt: new Date('2026-04-01T12:00:00.000Z'), credit: 25 }), 'estado.pdf');
+
+    expect(pdf).toContain('ESTADO DE CUENTA');
+    expect(pdf).toContain('SALDO PENDIENTE');
+    expect(pdf).toContain('Saldo a favor disponible');
+  });
+});
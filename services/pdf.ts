@@ -0,0 +1,562 @@
+import { jsPDF } from 'jspdf';
+import { Client, Expense, Invoice, Quote } from '../types';
+import { InvoiceBreakdown } from './pricing';
+import { describeRule } from './tariffs';
+import { invoiceLabel } from './invoiceNumbers';
+import { realizedFxBs, sortPayments } from './payments';
+import { ClientStatement } from './statements';
+
+// Builds the invoice, quote, report and account statement PDFs with jsPDF. Nothing here touches the DOM, so a
+// document can be saved from the browser (doc.save) or written to a file in Node
+// (doc.output('arraybuffer')).
+
+type RGB = [number, number, number];
+
+const BRAND: RGB = [62, 19, 107];
+const TEXT: RGB = [30, 41, 59];
+const MUTED: RGB = [100, 116, 139];
+const FAINT: RGB = [148, 163, 184];
+const BORDER: RGB = [226, 232, 240];
+const HEADER_FILL: RGB = [241, 245, 249];
+const PANEL_FILL: RGB = [248, 250, 252];
+const GREEN: RGB = [16, 185, 129];
+const AMBER: RGB = [245, 158, 11];
+const RED: RGB = [220, 38, 38];
+
+const MARGIN = 14; // mm, A4 portrait
+const FOOTER_SPACE = 16;
+const CELL_PADDING = 2;
+
+const lineHeight = (fontSize: number) => fontSize * 0.42;
+
+const amount = (value: number) =>
+  (value || 0).toLocaleString('es-VE', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const formatUsd = (value: number) => `$ ${amount(value)}`;
+const formatBs = (value: number) => `Bs ${amount(value)}`;
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString();
+
+export interface PdfColumn {
+  header: string;
+  width: number; // share of the content width
+  align?: 'left' | 'center' | 'right';
+  bold?: boolean;
+}
+
+export interface PdfRow {
+  cells: string[];
+  detail?: string; // smaller grey line under the first cell
+  color?: RGB; // for the last cell
+}
+
+interface Cursor {
+  doc: jsPDF;
+  y: number;
+}
+
+const pageWidth = (doc: jsPDF) => doc.internal.pageSize.getWidth();
+const pageHeight = (doc: jsPDF) => doc.internal.pageSize.getHeight();
+const contentWidth = (doc: jsPDF) => pageWidth(doc) - MARGIN * 2;
+
+const setText = (doc: jsPDF, size: number, color: RGB = TEXT, bold = false) => {
+  doc.setFont('helvetica', bold ? 'bold' : 'normal');
+  doc.setFontSize(size);
+  doc.setTextColor(...color);
+};
+
+// Starts a new page when `height` does not fit above the footer
+const ensureSpace = (cursor: Cursor, height: number): boolean => {
+  if (cursor.y + height <= pageHeight(cursor.doc) - FOOTER_SPACE) return false;
+  cursor.doc.addPage();
+  cursor.y = MARGIN;
+  return true;
+};
+
+const drawHeader = (cursor: Cursor, title: string, lines: string[]) => {
+  const { doc } = cursor;
+  const right = pageWidth(doc) - MARGIN;
+  const top = MARGIN + 8;
+
+  setText(doc, 26, BRAND, true);
+  doc.text('KASSTYLE', MARGIN, top);
+  setText(doc, 9, MUTED);
+  doc.text('Logística & Importación', MARGIN, top + 5);
+
+  setText(doc, 12, TEXT, true);
+  doc.text(title, right, top - 3, { align: 'right' });
+  setText(doc, 9, MUTED);
+  lines.forEach((line, index) => doc.text(line, right, top + 2 + index * lineHeight(9), { align: 'right' }));
+
+  const bottom = Math.max(top + 9, top + 3 + lines.length * lineHeight(9));
+  doc.setDrawColor(...BRAND);
+  doc.setLineWidth(0.8);
+  doc.line(MARGIN, bottom, right, bottom);
+  cursor.y = bottom + 8;
+};
+
+const drawSectionTitle = (cursor: Cursor, title: string) => {
+  ensureSpace(cursor, 20);
+  const { doc } = cursor;
+  setText(doc, 9, MUTED, true);
+  doc.text(title.toUpperCase(), MARGIN, cursor.y);
+  cursor.y += 3;
+};
+
+const drawTable = (cursor: Cursor, columns: PdfColumn[], rows: PdfRow[], emptyText: string) => {
+  const { doc } = cursor;
+  const total = columns.reduce((sum, c) => sum + c.width, 0);
+  const widths = columns.map(c => (c.width / total) * contentWidth(doc));
+  const lefts = widths.map((_, index) => MARGIN + widths.slice(0, index).reduce((sum, w) => sum + w, 0));
+
+  const textX = (index: number) => {
+    const align = columns[index].align || 'left';
+    if (align === 'right') return lefts[index] + widths[index] - CELL_PADDING;
+    if (align === 'center') return lefts[index] + widths[index] / 2;
+    return lefts[index] + CELL_PADDING;
+  };
+
+  const drawHeaderRow = () => {
+    const height = 7;
+    doc.setFillColor(...HEADER_FILL);
+    doc.rect(MARGIN, cursor.y, contentWidth(doc), height, 'F');
+    setText(doc, 7.5, MUTED, true);
+    columns.forEach((column, index) =>
+      doc.text(column.header.toUpperCase(), textX(index), cursor.y + 4.7, { align: column.align || 'left' })
+    );
+    cursor.y += height;
+  };
+
+  ensureSpace(cursor, 16);
+  drawHeaderRow();
+
+  if (rows.length === 0) {
+    setText(doc, 9, FAINT);
+    doc.text(emptyText, pageWidth(doc) / 2, cursor.y + 6, { align: 'center' });
+    cursor.y += 10;
+    return;
+  }
+
+  rows.forEach(row => {
+    setText(doc, 9);
+    const cellLines = row.cells.map((cell, index) => doc.splitTextToSize(cell, widths[index] - CELL_PADDING * 2) as string[]);
+    setText(doc, 7.5);
+    const detailLines = row.detail ? doc.splitTextToSize(row.detail, widths[0] - CELL_PADDING * 2) as string[] : [];
+    const textHeight = Math.max(...cellLines.map(lines => lines.length)) * lineHeight(9);
+    const height = textHeight + detailLines.length * lineHeight(7.5) + CELL_PADDING * 2;
+
+    // Rows never split across pages; the column headers repeat on the next one
+    if (ensureSpace(cursor, height)) drawHeaderRow();
+
+    const baseline = cursor.y + CELL_PADDING + lineHeight(9) * 0.8;
+    cellLines.forEach((lines, index) => {
+      const isLast = index === cellLines.length - 1;
+      setText(doc, 9, isLast && row.color ? row.color : TEXT, !!columns[index].bold);
+      doc.text(lines, textX(index), baseline, { align: columns[index].align || 'left' });
+    });
+    if (detailLines.length > 0) {
+      setText(doc, 7.5, MUTED);
+      doc.text(detailLines, textX(0), baseline + cellLines[0].length * lineHeight(9));
+    }
+
+    cursor.y += height;
+    doc.setDrawColor(...BORDER);
+    doc.setLineWidth(0.2);
+    doc.line(MARGIN, cursor.y, pageWidth(doc) - MARGIN, cursor.y);
+  });
+  cursor.y += 6;
+};
+
+interface TotalLine {
+  label: string;
+  value: string;
+  strong?: boolean;
+  color?: RGB;
+  note?: boolean; // small grey line
+}
+
+const drawTotals = (cursor: Cursor, lines: TotalLine[]) => {
+  const { doc } = cursor;
+  const right = pageWidth(doc) - MARGIN;
+  const left = right - 85;
+  const height = lines.reduce((sum, line) => sum + lineHeight(line.strong ? 12 : line.note ? 8 : 10) + 1.5, 0);
+  ensureSpace(cursor, height + 4);
+
+  lines.forEach(line => {
+    const size = line.strong ? 12 : line.note ? 8 : 10;
+    const color = line.color || (line.strong ? BRAND : line.note ? MUTED : TEXT);
+    if (line.strong) {
+      doc.setDrawColor(...BRAND);
+      doc.setLineWidth(0.6);
+      doc.line(left, cursor.y, right, cursor.y);
+      cursor.y += 1.5;
+    }
+    cursor.y += lineHeight(size);
+    setText(doc, size, color, !!line.strong);
+    doc.text(line.label, left, cursor.y);
+    doc.text(line.value, right, cursor.y, { align: 'right' });
+    cursor.y += 1.5;
+  });
+  cursor.y += 4;
+};
+
+const drawParagraph = (cursor: Cursor, text: string) => {
+  const { doc } = cursor;
+  setText(doc, 9.5);
+  const lines = doc.splitTextToSize(text, contentWidth(doc)) as string[];
+  ensureSpace(cursor, lines.length * lineHeight(9.5));
+  doc.text(lines, MARGIN, cursor.y + lineHeight(9.5) * 0.8);
+  cursor.y += lines.length * lineHeight(9.5) + 6;
+};
+
+// Page numbers and the closing line go on every page once the content is laid out
+const drawFooters = (doc: jsPDF, text: string) => {
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    const y = pageHeight(doc) - 8;
+    doc.setDrawColor(...BORDER);
+    doc.setLineWidth(0.2);
+    doc.line(MARGIN, y - 5, pageWidth(doc) - MARGIN, y - 5);
+    setText(doc, 8, FAINT);
+    doc.text(text, MARGIN, y);
+    doc.text(`Página ${page} de ${pages}`, pageWidth(doc) - MARGIN, y, { align: 'right' });
+  }
+};
+
+const drawClientPanel = (cursor: Cursor, client: Client) => {
+  const { doc } = cursor;
+  const clientLines = [client.phone, client.address].filter(Boolean);
+  const panelHeight = 12 + clientLines.length * lineHeight(9.5);
+  doc.setFillColor(...PANEL_FILL);
+  doc.rect(MARGIN, cursor.y, contentWidth(doc), panelHeight, 'F');
+  doc.setFillColor(...BRAND);
+  doc.rect(MARGIN, cursor.y, 1.2, panelHeight, 'F');
+  setText(doc, 7.5, MUTED, true);
+  doc.text('CLIENTE', MARGIN + 5, cursor.y + 5);
+  setText(doc, 12, TEXT, true);
+  doc.text(client.name, MARGIN + 5, cursor.y + 10);
+  setText(doc, 9.5, MUTED);
+  clientLines.forEach((line, index) => doc.text(line, MARGIN + 5, cursor.y + 10 + (index + 1) * lineHeight(9.5)));
+  cursor.y += panelHeight + 8;
+};
+
+const ITEM_COLUMNS: PdfColumn[] = [
+  { header: 'Descripción', width: 46, bold: true },
+  { header: 'Cant.', width: 8, align: 'center' },
+  { header: 'Precio', width: 15, align: 'right' },
+  { header: 'Envío/Imp', width: 15, align: 'right' },
+  { header: 'Total', width: 16, align: 'right', bold: true }
+];
+
+const newDocument = (title: string): jsPDF => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  doc.setProperties({ title, author: 'KASSTYLE', creator: 'KASSTYLE Manager' });
+  return doc;
+};
+
+// --- Invoice ---
+
+export interface InvoicePdfInput {
+  invoice: Invoice;
+  client: Client;
+  pricing: InvoiceBreakdown;
+  currency: 'USD' | 'Bs'; // Bs amounts use the invoice's own rate
+  todayRate: number;      // what is still owed is quoted at today's rate
+}
+
+export const buildInvoicePdf = ({ invoice, client, pricing, currency, todayRate }: InvoicePdfInput): jsPDF => {
+  const label = invoiceLabel(invoice);
+  const doc = newDocument(`Factura ${label} - KASSTYLE`);
+  const cursor: Cursor = { doc, y: MARGIN };
+  const rate = invoice.exchangeRate || 1;
+  const formatBody = (usd: number) => currency === 'Bs' ? formatBs(usd * rate) : formatUsd(usd);
+
+  drawHeader(cursor, `FACTURA ${label}`, [
+    `Fecha: ${formatDate(invoice.createdAt)}`,
+    `Estado: ${invoice.status}`,
+    ...(currency === 'Bs' ? [`Tasa: ${rate} Bs/USD`] : [])
+  ]);
+
+  drawClientPanel(cursor, client);
+
+  // Same per-item amounts as the stored total, so the rows add up to it
+  const itemRows: PdfRow[] = (invoice.items || []).map((item, index) => {
+    const line = pricing.items[index];
+    const details = [
+      item.platform,
+      line.dutyRule && line.duty > 0 ? `${item.category} (${describeRule(line.dutyRule)})` : '',
+      item.trackingNumber ? `Tracking${item.trackingCarrier ? ` ${item.trackingCarrier}` : ''}: ${item.trackingNumber}` : '',
+      `Peso real ${line.actualWeightKg.toFixed(2)} kg`,
+      line.volumetricWeightKg > 0 ? `Volumétrico ${line.volumetricWeightKg.toFixed(2)} kg` : '',
+      line.volumetricWeightKg > 0 ? `Facturable ${line.weightKg.toFixed(2)} kg` : ''
+    ].filter(Boolean);
+    return {
+      cells: [
+        item.name || 'Producto',
+        String(item.quantity),
+        formatBody(item.finalPrice),
+        formatBody(line.unitLogistics + line.unitCommission),
+        formatBody(line.total)
+      ],
+      detail: details.join(' • ')
+    };
+  });
+  drawTable(cursor, ITEM_COLUMNS, itemRows, 'Sin productos.');
+
+  const payments = sortPayments(invoice.payments);
+  if (payments.length > 0) {
+    drawSectionTitle(cursor, 'Abonos');
+    drawTable(cursor, [
+      { header: 'Fecha', width: 16 },
+      { header: 'Método', width: 36 },
+      { header: 'Monto', width: 18, align: 'right' },
+      { header: 'Tasa', width: 12, align: 'right' },
+      { header: 'USD', width: 18, align: 'right', bold: true }
+    ], payments.map(p => ({
+      cells: [
+        formatDate(p.date),
+        `${p.method}${p.reference ? ` · Ref ${p.reference}` : ''}`,
+        p.currency === 'Bs' ? formatBs(p.amount) : formatUsd(p.amount),
+        p.currency === 'Bs' ? String(p.exchangeRate) : '—',
+        formatUsd(p.amountUsd)
+      ]
+    })), '');
+  }
+
+  const paid = invoice.amountPaid || 0;
+  const remaining = Math.max(0, pricing.grandTotal - paid);
+  const fxBs = realizedFxBs(invoice);
+  drawTotals(cursor, [
+    ...pricing.dutiesByCategory.map(d => ({
+      label: `Incl. arancel ${d.category} (${describeRule(d.rule)})`,
+      value: formatBody(d.amount),
+      note: true
+    })),
+    { label: `TOTAL (${currency === 'Bs' ? 'Bs' : '$'})`, value: formatBody(pricing.grandTotal), strong: true },
+    { label: 'Abonado', value: formatBody(paid) },
+    { label: 'Restante', value: formatUsd(remaining), color: remaining <= 0 ? GREEN : AMBER },
+    ...(remaining > 0 ? [{ label: `Tasa del día ${todayRate}`, value: formatBs(remaining * todayRate), note: true }] : []),
+    ...(payments.some(p => p.currency === 'Bs')
+      ? [{ label: fxBs >= 0 ? 'Ganancia cambiaria realizada' : 'Pérdida cambiaria realizada', value: formatBs(fxBs), note: true }]
+      : [])
+  ]);
+
+  drawFooters(doc, 'Gracias por confiar en nuestros servicios. KASSTYLE - Gestión de Logística e Importación');
+  return doc;
+};
+
+export const invoicePdfFileName = (invoice: Pick<Invoice, 'id' | 'invoiceNumber'>): string =>
+  `Factura-${invoiceLabel(invoice).replace(/^#/, '')}.pdf`;
+
+// --- Quote ---
+
+export interface QuotePdfInput {
+  quote: Quote;
+  client: Client;
+  pricing: InvoiceBreakdown;
+}
+
+const quoteLabel = (quote: Pick<Quote, 'id'>) => quote.id.slice(0, 8).toUpperCase();
+
+export const buildQuotePdf = ({ quote, client, pricing }: QuotePdfInput): jsPDF => {
+  const doc = newDocument(`Cotización ${client.name} - KASSTYLE`);
+  const cursor: Cursor = { doc, y: MARGIN };
+
+  drawHeader(cursor, `COTIZACIÓN #${quoteLabel(quote)}`, [
+    `Fecha: ${formatDate(quote.createdAt)}`,
+    `Válida hasta: ${formatDate(quote.validUntil)}`
+  ]);
+  drawClientPanel(cursor, client);
+
+  drawTable(cursor, ITEM_COLUMNS, (quote.items || []).map((item, index) => {
+    const line = pricing.items[index];
+    return {
+      cells: [
+        item.name || 'Producto',
+        String(item.quantity),
+        formatUsd(item.finalPrice),
+        formatUsd(line.unitLogistics + line.unitCommission),
+        formatUsd(line.total)
+      ],
+      detail: [item.platform, line.dutyRule && line.duty > 0 ? `${item.category} (${describeRule(line.dutyRule)})` : '']
+        .filter(Boolean)
+        .join(' • ')
+    };
+  }), 'Sin productos.');
+
+  drawTotals(cursor, [
+    { label: 'TOTAL (USD)', value: formatUsd(pricing.grandTotal), strong: true },
+    { label: `Tasa ${quote.exchangeRate}`, value: formatBs(pricing.grandTotal * (quote.exchangeRate || 0)), note: true }
+  ]);
+
+  if (quote.notes) drawParagraph(cursor, quote.notes);
+
+  drawFooters(doc, 'Precios sujetos a disponibilidad y a la tasa vigente al facturar. KASSTYLE');
+  return doc;
+};
+
+export const quotePdfFileName = (quote: Pick<Quote, 'id'>): string => `Cotizacion-${quoteLabel(quote)}.pdf`;
+
+// --- Financial report ---
+
+export interface ReportStats {
+  revenue: number;
+  totalExpenses: number;
+  netProfit: number;
+  profitMargin: number;
+  pending: number;
+}
+
+export interface ReportPdfInput {
+  periodLabel: string;
+  generatedAt: Date;
+  stats: ReportStats;
+  invoices: Invoice[]; // already filtered to the period, drafts excluded
+  expenses: Expense[];
+  clientName: (clientId: string) => string;
+}
+
+export const buildReportPdf = ({ periodLabel, generatedAt, stats, invoices, expenses, clientName }: ReportPdfInput): jsPDF => {
+  const doc = newDocument('Reporte Financiero - KASSTYLE');
+  const cursor: Cursor = { doc, y: MARGIN };
+
+  drawHeader(cursor, 'REPORTE FINANCIERO', [
+    `Periodo: ${periodLabel}`,
+    `Generado el ${generatedAt.toLocaleDateString()} a las ${generatedAt.toLocaleTimeString()}`
+  ]);
+
+  // Key figures, two cards per row
+  const cards: { title: string; value: string; color: RGB }[] = [
+    { title: 'Dinero Recibido', value: formatUsd(stats.revenue), color: TEXT },
+    { title: 'Gastos Operativos', value: `-${formatUsd(stats.totalExpenses)}`, color: RED },
+    { title: 'Utilidad Neta Real', value: formatUsd(stats.netProfit), color: stats.netProfit >= 0 ? GREEN : RED },
+    { title: 'Margen de Ganancia', value: `${stats.profitMargin.toFixed(1)}%`, color: stats.profitMargin > 15 ? GREEN : AMBER }
+  ];
+  const gap = 5;
+  const cardWidth = (contentWidth(doc) - gap) / 2;
+  const cardHeight = 17;
+  cards.forEach((card, index) => {
+    const x = MARGIN + (index % 2) * (cardWidth + gap);
+    const y = cursor.y + Math.floor(index / 2) * (cardHeight + gap);
+    doc.setDrawColor(...BORDER);
+    doc.setLineWidth(0.3);
+    doc.rect(x, y, cardWidth, cardHeight);
+    setText(doc, 7.5, MUTED, true);
+    doc.text(card.title.toUpperCase(), x + cardWidth / 2, y + 6, { align: 'center' });
+    setText(doc, 14, card.color, true);
+    doc.text(card.value, x + cardWidth / 2, y + 13, { align: 'center' });
+  });
+  cursor.y += 2 * cardHeight + gap + 8;
+
+  drawSectionTitle(cursor, 'Análisis de Resultados');
+  cursor.y += 1;
+  drawParagraph(cursor,
+    `Durante el periodo ${periodLabel}, la operación generó ingresos reales por cobranza de ${formatUsd(stats.revenue)}. ` +
+    `Se registraron gastos operativos por ${formatUsd(stats.totalExpenses)}, dejando una utilidad neta de ${formatUsd(stats.netProfit)}. ` +
+    `El rendimiento sobre ingresos es del ${stats.profitMargin.toFixed(1)}%. ` +
+    `Actualmente existe una cartera pendiente por cobrar de ${formatUsd(stats.pending)}.`
+  );
+
+  drawSectionTitle(cursor, 'Detalle de Ingresos (Facturación)');
+  drawTable(cursor, [
+    { header: 'Fecha', width: 14 },
+    { header: 'Cliente', width: 36 },
+    { header: 'Estado', width: 16, align: 'center' },
+    { header: 'Abonado', width: 16, align: 'right' },
+    { header: 'Total Factura', width: 18, align: 'right', bold: true }
+  ], [...invoices]
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    .map(inv => ({
+      cells: [
+        formatDate(inv.createdAt),
+        clientName(inv.clientId),
+        inv.status,
+        formatUsd(inv.amountPaid || 0),
+        formatUsd(inv.grandTotalUsd || 0)
+      ],
+      detail: inv.invoiceNumber
+    })), 'No hay facturas registradas en este periodo.');
+
+  drawSectionTitle(cursor, 'Detalle de Egresos (Gastos Operativos)');
+  drawTable(cursor, [
+    { header: 'Fecha', width: 14 },
+    { header: 'Descripción / Concepto', width: 48 },
+    { header: 'Categoría', width: 20 },
+    { header: 'Monto', width: 18, align: 'right', bold: true }
+  ], [...expenses]
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+    .map(exp => ({
+      cells: [formatDate(exp.date), exp.description, exp.category, `-${formatUsd(exp.amount || 0)}`],
+      color: RED
+    })), 'No hay gastos registrados en este periodo.');
+
+  drawFooters(doc, 'Documento generado por KASSTYLE Manager.');
+  return doc;
+};
+
+export const reportPdfFileName = (generatedAt: Date): string =>
+  `Reporte-KASSTYLE-${generatedAt.toISOString().split('T')[0]}.pdf`;
+
+// --- Client account statement ---
+
+export interface StatementPdfInput {
+  client: Client;
+  statement: ClientStatement;
+  rangeLabel: string;
+  generatedAt: Date;
+  credit?: number; // Wallet credit available today
+}
+
+export const buildStatementPdf = ({ client, statement, rangeLabel, generatedAt, credit = 0 }: StatementPdfInput): jsPDF => {
+  const doc = newDocument(`Estado de cuenta ${client.name} - KASSTYLE`);
+  const cursor: Cursor = { doc, y: MARGIN };
+
+  drawHeader(cursor, 'ESTADO DE CUENTA', [
+    `Periodo: ${rangeLabel}`,
+    `Emitido el ${generatedAt.toLocaleDateString()}`
+  ]);
+
+  setText(doc, 7.5, MUTED, true);
+  doc.text('CLIENTE', MARGIN, cursor.y);
+  setText(doc, 12, TEXT, true);
+  doc.text(client.name, MARGIN, cursor.y + 5);
+  setText(doc, 9.5, MUTED);
+  doc.text([client.phone, client.address].filter(Boolean).join(' · '), MARGIN, cursor.y + 9.5);
+  cursor.y += 17;
+
+  const rows: PdfRow[] = [
+    { cells: ['', 'Saldo anterior', '', '', formatUsd(statement.openingBalance)] },
+    ...statement.entries.map(entry => ({
+      cells: [
+        formatDate(entry.date),
+        entry.description,
+        entry.charge ? formatUsd(entry.charge) : '',
+        entry.credit ? formatUsd(entry.credit) : '',
+        formatUsd(entry.balance)
+      ]
+    }))
+  ];
+  drawTable(cursor, [
+    { header: 'Fecha', width: 14 },
+    { header: 'Concepto', width: 44 },
+    { header: 'Cargo', width: 14, align: 'right' },
+    { header: 'Abono', width: 14, align: 'right' },
+    { header: 'Saldo', width: 14, align: 'right', bold: true }
+  ], rows, '');
+
+  drawTotals(cursor, [
+    { label: 'Facturado en el periodo', value: formatUsd(statement.charged) },
+    { label: 'Abonado en el periodo', value: formatUsd(statement.paid) },
+    {
+      label: statement.closingBalance < 0 ? 'SALDO A FAVOR' : 'SALDO PENDIENTE',
+      value: formatUsd(Math.abs(statement.closingBalance)),
+      strong: true
+    },
+    ...(credit > 0.005 ? [{ label: 'Saldo a favor disponible', value: formatUsd(credit) }] : [])
+  ]);
+
+  drawFooters(doc, 'KASSTYLE - Gestión de Logística e Importación');
+  return doc;
+};
+
+export const statementPdfFileName = (client: Pick<Client, 'name'>, generatedAt: Date): string =>
+  `Estado-de-cuenta-${client.name.trim().replace(/[^\p{L}\p{N}]+/gu, '-')}-${generatedAt.toISOString().split('T')[0]}.pdf`;
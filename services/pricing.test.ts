@@ -0,0 +1,231 @@
+import { describe, expect, it } from 'vitest';
+import { Platform, ProductCategory, ProductItem, ShippingMode, ShippingRate, TariffRule } from '../types';
+import { priceInvoice, priceItem, volumetricWeightInKg, weightInKg } from './pricing';
+import { DEFAULT_TARIFF_RULES } from './tariffs';
+
+const item = (overrides: Partial<ProductItem> = {}): ProductItem => ({
+  id: 'item',
+  name: 'Producto',
+  quantity: 1,
+  weight: 0,
+  weightUnit: 'kg',
+  platform: Platform.SHEIN,
+  originalPrice: 0,
+  taxes: 0,
+  discounts: 0,
+  finalPrice: 0,
+  commission: 0,
+  category: ProductCategory.GENERAL,
+  ...overrides
+});
+
+const rate = (overrides: Partial<ShippingRate> = {}): ShippingRate => ({
+  id: 'rate',
+  name: 'General',
+  carrier: '',
+  mode: ShippingMode.AIR,
+  unit: 'kg',
+  tiers: [{ upTo: null, price: 10 }],
+  minimum: 0,
+  volumetricDivisor: 0,
+  ...overrides
+});
+
+const rule = (overrides: Partial<TariffRule>): TariffRule => ({
+  id: 'rule',
+  category: ProductCategory.ELECTRONICS,
+  type: 'percent',
+  value: 20,
+  minimum: 0,
+  base: 'taxable',
+  ...overrides
+});
+
+const itemOptions = { tariffRules: [] as TariffRule[], freightPerKg: 10, volumetricDivisor: 0 };
+
+describe('weights', () => {
+  it('converts pounds to kilograms', () => {
+    expect(weightInKg(item({ weight: 2.20462, weightUnit: 'lb' }))).toBeCloseTo(1, 6);
+    expect(weightInKg(item({ weight: 3 }))).toBe(3);
+  });
+
+  it('computes volumetric weight from the package size, in cm or inches', () => {
+    expect(volumetricWeightInKg(item({ length: 50, width: 40, height: 30, dimensionUnit: 'cm' }), 5000)).toBe(12);
+    expect(volumetricWeightInKg(item({ length: 10, width: 10, height: 10, dimensionUnit: 'in' }), 5000)).toBeCloseTo(3.277, 3);
+  });
+
+  it('ignores incomplete sizes and rates without a divisor', () => {
+    expect(volumetricWeightInKg(item({ length: 50, width: 40 }), 5000)).toBe(0);
+    expect(volumetricWeightInKg(item({ length: 50, width: 40, height: 30 }), 0)).toBe(0);
+  });
+});
+
+describe('priceItem', () => {
+  it('prices a whole line from its unit amounts', () => {
+    const b = priceItem(item({ quantity: 3, weight: 0.5, originalPrice: 10, taxes: 1, finalPrice: 15, commission: 2 }), itemOptions);
+
+    expect(b.weightKg).toBe(1.5);
+    expect(b.weightLogistics).toBe(15);
+    expect(b.cost).toBe(30);
+    expect(b.sale).toBe(45);
+    expect(b.commission).toBe(6);
+    expect(b.logistics).toBe(15);
+    expect(b.total).toBe(66);
+    expect(b.unitLogistics).toBe(5);
+    expect(b.unitTotal).toBe(22);
+    // Venta + Comisión - (Costo - Impuesto)
+    expect(b.profit).toBe(45 + 6 - (10 - 1) * 3);
+  });
+
+  it('bills the greater of actual and volumetric weight', () => {
+    const bulky = item({ quantity: 2, weight: 1, length: 50, width: 40, height: 30 });
+    const b = priceItem(bulky, { ...itemOptions, volumetricDivisor: 5000 });
+
+    expect(b.actualWeightKg).toBe(2);
+    expect(b.volumetricWeightKg).toBe(24);
+    expect(b.weightKg).toBe(24);
+    expect(b.weightLogistics).toBe(240);
+  });
+
+  it('has no duty when no rule covers the category', () => {
+    const b = priceItem(item({ originalPrice: 100 }), { ...itemOptions, tariffRules: DEFAULT_TARIFF_RULES });
+    expect(b.duty).toBe(0);
+    expect(b.dutyRule).toBeUndefined();
+  });
+});
+
+describe('duty rules', () => {
+  const electronics = item({ quantity: 2, category: ProductCategory.ELECTRONICS, originalPrice: 100, taxes: 10, discounts: 5, finalPrice: 150 });
+  const dutyWith = (r: TariffRule) => priceItem(electronics, { ...itemOptions, tariffRules: [r] }).duty;
+
+  it('applies a percentage to the taxable amount by default', () => {
+    // (100 - 10 - 5) * 20% per unit
+    expect(dutyWith(rule({}))).toBeCloseTo(34, 6);
+  });
+
+  it('applies a percentage to the original or the sale price', () => {
+    expect(dutyWith(rule({ base: 'original' }))).toBeCloseTo(40, 6);
+    expect(dutyWith(rule({ base: 'final' }))).toBeCloseTo(60, 6);
+  });
+
+  it('charges a fixed amount per unit', () => {
+    expect(dutyWith(rule({ type: 'fixed', value: 7 }))).toBe(14);
+  });
+
+  it('charges at least the minimum per unit', () => {
+    expect(dutyWith(rule({ value: 1, minimum: 5 }))).toBe(10);
+    expect(dutyWith(rule({ minimum: 5 }))).toBeCloseTo(34, 6);
+  });
+
+  it('adds the duty to the item logistics, not to the weight logistics', () => {
+    const b = priceItem(item({ category: ProductCategory.ELECTRONICS, originalPrice: 50, weight: 1 }), { ...itemOptions, tariffRules: DEFAULT_TARIFF_RULES });
+    expect(b.weightLogistics).toBe(10);
+    expect(b.duty).toBe(10);
+    expect(b.logistics).toBe(20);
+  });
+});
+
+describe('priceInvoice', () => {
+  const shoes = item({ id: 'shoes', quantity: 1, weight: 2, originalPrice: 40, taxes: 4, finalPrice: 50, commission: 5, category: ProductCategory.SHOES });
+  const phone = item({ id: 'phone', quantity: 2, weight: 1, originalPrice: 100, taxes: 10, finalPrice: 120, category: ProductCategory.ELECTRONICS });
+
+  it('adds up items, freight and duties into the invoice totals', () => {
+    const b = priceInvoice([shoes, phone], { shippingRate: rate(), tariffRules: DEFAULT_TARIFF_RULES });
+
+    expect(b.totalWeightKg).toBe(4);
+    expect(b.freight.cost).toBe(40);
+    expect(b.weightLogistics).toBe(40);
+    expect(b.duties).toBe(36);
+    expect(b.dutiesByCategory).toEqual([{ category: ProductCategory.ELECTRONICS, rule: DEFAULT_TARIFF_RULES[0], amount: 36 }]);
+    expect(b.productCost).toBe(240);
+    expect(b.productSale).toBe(290);
+    expect(b.commissions).toBe(5);
+    expect(b.suggestedLogistics).toBe(76);
+    expect(b.logistics).toBe(76);
+    expect(b.logisticsAdjustment).toBe(0);
+    expect(b.grandTotal).toBe(290 + 5 + 76);
+  });
+
+  it('prices freight at the band the whole shipment falls in', () => {
+    const banded = rate({ tiers: [{ upTo: null, price: 6 }, { upTo: 3, price: 10 }] });
+    expect(priceInvoice([shoes], { shippingRate: banded, tariffRules: [] }).freight.unitPrice).toBe(10);
+
+    const b = priceInvoice([shoes, phone], { shippingRate: banded, tariffRules: [] });
+    expect(b.freight.unitPrice).toBe(6);
+    expect(b.items.map(i => i.weightLogistics)).toEqual([12, 12]);
+  });
+
+  it('bills pound rates on the weight in pounds', () => {
+    const b = priceInvoice([shoes], { shippingRate: rate({ unit: 'lb', tiers: [{ upTo: null, price: 1 }] }), tariffRules: [] });
+    expect(b.freight.weight).toBeCloseTo(4.40924, 5);
+    expect(b.freight.cost).toBeCloseTo(4.40924, 5);
+  });
+
+  it('spreads a freight minimum over the items by weight', () => {
+    const b = priceInvoice([shoes, phone], { shippingRate: rate({ minimum: 100 }), tariffRules: [] });
+
+    expect(b.freight.minimumApplied).toBe(true);
+    expect(b.freight.cost).toBe(100);
+    expect(b.items.map(i => i.weightLogistics)).toEqual([50, 50]);
+  });
+
+  it('has no freight without a rate or without weight', () => {
+    expect(priceInvoice([shoes], { tariffRules: [] }).freight.cost).toBe(0);
+    expect(priceInvoice([item({ finalPrice: 10 })], { shippingRate: rate({ minimum: 20 }), tariffRules: [] }).freight.cost).toBe(0);
+  });
+
+  it('spreads a logistics adjustment in proportion to each item logistics', () => {
+    // Suggested: shoes 20 (weight), phone 20 (weight) + 36 (duty)
+    const b = priceInvoice([shoes, phone], { shippingRate: rate(), tariffRules: DEFAULT_TARIFF_RULES, logisticsCost: 95 });
+
+    expect(b.logistics).toBe(95);
+    expect(b.logisticsAdjustment).toBe(19);
+    expect(b.items[0].logistics).toBeCloseTo(20 + 19 * 20 / 76, 9);
+    expect(b.items[1].logistics).toBeCloseTo(56 + 19 * 56 / 76, 9);
+    // Weight logistics and duty stay what the items imply
+    expect(b.items[1].duty).toBe(36);
+    expect(b.weightLogistics).toBe(40);
+  });
+
+  it('spreads the adjustment evenly per unit when nothing has weight or duty', () => {
+    const b = priceInvoice(
+      [item({ id: 'a', quantity: 1, finalPrice: 10 }), item({ id: 'b', quantity: 3, finalPrice: 10 })],
+      { shippingRate: rate(), tariffRules: [], logisticsCost: 8 }
+    );
+    expect(b.items.map(i => i.logistics)).toEqual([2, 6]);
+    expect(b.items.map(i => i.unitLogistics)).toEqual([2, 2]);
+  });
+
+  it('can lower the logistics below what the items imply', () => {
+    const b = priceInvoice([shoes, phone], { shippingRate: rate(), tariffRules: [], logisticsCost: 20 });
+    expect(b.logisticsAdjustment).toBe(-20);
+    expect(b.items.map(i => i.logistics)).toEqual([10, 10]);
+  });
+
+  it('rounds the suggested logistics to the cent', () => {
+    const b = priceInvoice([item({ weight: 1, weightUnit: 'lb' })], { shippingRate: rate(), tariffRules: [] });
+    expect(b.suggestedLogistics).toBe(4.54);
+    expect(b.logistics).toBe(4.54);
+    expect(b.grandTotal).toBe(4.54);
+  });
+
+  it('keeps item totals adding up to the grand total to the cent', () => {
+    const odd = [
+      item({ id: 'a', quantity: 3, weight: 0.37, weightUnit: 'lb', finalPrice: 9.99, commission: 1.1 }),
+      item({ id: 'b', quantity: 1, weight: 1.13, finalPrice: 14.5, category: ProductCategory.ELECTRONICS, originalPrice: 12.35 }),
+      item({ id: 'c', quantity: 7, weight: 0.05, finalPrice: 2.25 })
+    ];
+    [undefined, 33.33, 10].forEach(logisticsCost => {
+      const b = priceInvoice(odd, { shippingRate: rate({ tiers: [{ upTo: null, price: 15.43 }] }), tariffRules: DEFAULT_TARIFF_RULES, logisticsCost });
+      const itemsTotal = b.items.reduce((acc, i) => acc + i.total, 0);
+      expect(itemsTotal).toBeCloseTo(b.grandTotal, 9);
+      expect(b.items.reduce((acc, i) => acc + i.logistics, 0)).toBeCloseTo(b.logistics, 9);
+    });
+  });
+
+  it('treats text amounts from older rows as numbers', () => {
+    const b = priceInvoice([item({ quantity: '2' as any, weight: '1.5' as any, finalPrice: '10' as any })], { shippingRate: rate(), tariffRules: [] });
+    expect(b.productSale).toBe(20);
+    expect(b.totalWeightKg).toBe(3);
+  });
+});
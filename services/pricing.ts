@@ -0,0 +1,186 @@
+// The one place invoice money is calculated. Screens, storage and reports all read
+// these breakdowns instead of re-adding item fields on their own.
+
+import { ProductItem, ProductCategory, TariffRule, ShippingRate } from '../types';
+import { ruleForCategory, unitDuty } from './tariffs';
+import { FreightQuote, LB_PER_KG, quoteFreight } from './shipping';
+
+export const KG_PER_LB = 1 / LB_PER_KG;
+export const CM_PER_IN = 2.54;
+
+export interface PricingOptions {
+  shippingRate?: ShippingRate;
+  tariffRules: TariffRule[];
+  // logisticsCost stored on the invoice. When it differs from what the items add up
+  // to (the rate per kg changed, or it was edited), the difference is spread over
+  // the items so their totals still add up to the invoice total.
+  logisticsCost?: number;
+}
+
+export interface ItemBreakdown {
+  itemId: string;
+  quantity: number;
+  actualWeightKg: number; // Whole line, as weighed
+  volumetricWeightKg: number; // Whole line, from the package size
+  weightKg: number; // Whole line, billable: the greater of the two
+  // Per unit
+  unitSale: number;
+  unitCommission: number;
+  unitLogistics: number;
+  unitTotal: number;
+  // Whole line
+  cost: number; // What we pay the store: originalPrice
+  sale: number; // What the client pays for the product: finalPrice
+  commission: number;
+  weightLogistics: number;
+  duty: number;
+  dutyRule?: TariffRule;
+  logistics: number; // weightLogistics + duty + share of any adjustment
+  total: number; // sale + commission + logistics
+  profit: number;
+}
+
+export interface InvoiceBreakdown {
+  items: ItemBreakdown[];
+  totalWeightKg: number; // Billable
+  productCost: number;
+  productSale: number;
+  commissions: number;
+  weightLogistics: number;
+  freight: FreightQuote;
+  duties: number;
+  dutiesByCategory: { category: ProductCategory; rule: TariffRule; amount: number }[];
+  suggestedLogistics: number; // What the items add up to
+  logistics: number; // What the invoice charges
+  logisticsAdjustment: number; // logistics - suggestedLogistics
+  grandTotal: number;
+  profit: number;
+}
+
+const num = (v: any): number => {
+  const n = typeof v === 'number' ? v : parseFloat(v);
+  return isNaN(n) ? 0 : n;
+};
+
+const round2 = (v: number) => parseFloat(v.toFixed(2));
+
+export const weightInKg = (item: Pick<ProductItem, 'weight' | 'weightUnit'>): number =>
+  item.weightUnit === 'lb' ? num(item.weight) * KG_PER_LB : num(item.weight);
+
+// Per unit; 0 when the size is incomplete or the rate has no divisor
+export const volumetricWeightInKg = (
+  item: Pick<ProductItem, 'length' | 'width' | 'height' | 'dimensionUnit'>,
+  divisor: number
+): number => {
+  const [l, w, h] = [item.length, item.width, item.height].map(num);
+  if (divisor <= 0 || l <= 0 || w <= 0 || h <= 0) return 0;
+  const toCm = item.dimensionUnit === 'in' ? CM_PER_IN : 1;
+  return (l * toCm) * (w * toCm) * (h * toCm) / divisor;
+};
+
+export const billableWeightInKg = (item: ProductItem, divisor: number): number =>
+  Math.max(weightInKg(item), volumetricWeightInKg(item, divisor));
+
+const withLogistics = (b: ItemBreakdown, logistics: number): ItemBreakdown => {
+  const total = b.sale + b.commission + logistics;
+  return {
+    ...b,
+    logistics,
+    total,
+    unitLogistics: b.quantity > 0 ? logistics / b.quantity : 0,
+    unitTotal: b.quantity > 0 ? total / b.quantity : 0
+  };
+};
+
+// Before any adjustment: only what the item itself implies. Freight is priced for
+// the whole shipment, so the item gets its share through `freightPerKg`.
+export const priceItem = (
+  item: ProductItem,
+  options: { tariffRules: TariffRule[]; freightPerKg: number; volumetricDivisor: number }
+): ItemBreakdown => {
+  const quantity = num(item.quantity);
+  const actualWeightKg = weightInKg(item) * quantity;
+  const volumetricWeightKg = volumetricWeightInKg(item, options.volumetricDivisor) * quantity;
+  const weightKg = Math.max(actualWeightKg, volumetricWeightKg);
+  const weightLogistics = weightKg * options.freightPerKg;
+  const dutyRule = ruleForCategory(options.tariffRules, item.category);
+  const duty = unitDuty(item, dutyRule) * quantity;
+  const sale = num(item.finalPrice) * quantity;
+  const commission = num(item.commission) * quantity;
+  const logistics = weightLogistics + duty;
+
+  return withLogistics({
+    itemId: item.id,
+    quantity,
+    actualWeightKg,
+    volumetricWeightKg,
+    weightKg,
+    unitSale: num(item.finalPrice),
+    unitCommission: num(item.commission),
+    unitLogistics: 0,
+    unitTotal: 0,
+    cost: num(item.originalPrice) * quantity,
+    sale,
+    commission,
+    weightLogistics,
+    duty,
+    dutyRule,
+    logistics: 0,
+    total: 0,
+    // Venta + Comisión - (Costo - Impuesto); logistics is passed through at cost
+    profit: sale + commission - (num(item.originalPrice) - num(item.taxes)) * quantity
+  }, logistics);
+};
+
+const sum = (list: ItemBreakdown[], key: keyof ItemBreakdown) =>
+  list.reduce((acc, b) => acc + (b[key] as number), 0);
+
+export const priceInvoice = (items: ProductItem[] = [], options: PricingOptions): InvoiceBreakdown => {
+  const volumetricDivisor = num(options.shippingRate?.volumetricDivisor);
+  const shipmentKg = items.reduce((acc, item) => acc + billableWeightInKg(item, volumetricDivisor) * num(item.quantity), 0);
+  const freight = quoteFreight(options.shippingRate, shipmentKg);
+  const freightPerKg = shipmentKg > 0 ? freight.cost / shipmentKg : 0;
+
+  const base = items.map(item => priceItem(item, { tariffRules: options.tariffRules, freightPerKg, volumetricDivisor }));
+  const itemsLogistics = sum(base, 'logistics');
+  const suggestedLogistics = round2(itemsLogistics);
+  const logistics = options.logisticsCost === undefined ? suggestedLogistics : num(options.logisticsCost);
+  // Against the unrounded sum, so item totals add up to the grand total to the cent
+  const adjustment = logistics - itemsLogistics;
+
+  // Spread the adjustment in proportion to each item's own logistics, or evenly
+  // per unit when nothing has weight or duty
+  const weightOf = (b: ItemBreakdown) => (itemsLogistics > 0 ? b.logistics : b.quantity);
+  const totalWeight = base.reduce((acc, b) => acc + weightOf(b), 0);
+  const priced = Math.abs(adjustment) > 0.000001 && totalWeight > 0
+    ? base.map(b => withLogistics(b, b.logistics + adjustment * (weightOf(b) / totalWeight)))
+    : base;
+
+  const dutiesByCategory: InvoiceBreakdown['dutiesByCategory'] = [];
+  priced.forEach(b => {
+    if (!b.dutyRule || b.duty <= 0) return;
+    const entry = dutiesByCategory.find(d => d.category === b.dutyRule!.category);
+    if (entry) entry.amount += b.duty;
+    else dutiesByCategory.push({ category: b.dutyRule.category, rule: b.dutyRule, amount: b.duty });
+  });
+
+  const productSale = sum(priced, 'sale');
+  const commissions = sum(priced, 'commission');
+
+  return {
+    items: priced,
+    totalWeightKg: sum(priced, 'weightKg'),
+    productCost: sum(priced, 'cost'),
+    productSale,
+    commissions,
+    weightLogistics: sum(priced, 'weightLogistics'),
+    freight,
+    duties: sum(priced, 'duty'),
+    dutiesByCategory,
+    suggestedLogistics,
+    logistics,
+    logisticsAdjustment: logistics - suggestedLogistics,
+    grandTotal: productSale + commissions + logistics,
+    profit: sum(priced, 'profit')
+  };
+};
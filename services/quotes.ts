@@ -0,0 +1,73 @@
+import { Quote, QuoteStatus } from '../types';
+import { InvoiceBreakdown } from './pricing';
+
+export const DEFAULT_VALIDITY_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Shown instead of Abierta once the validity date has passed
+export const QUOTE_EXPIRED = 'Vencida';
+export type QuoteState = QuoteStatus | typeof QUOTE_EXPIRED;
+
+export const defaultValidUntil = (from: Date = new Date()): string =>
+  new Date(from.getTime() + DEFAULT_VALIDITY_DAYS * DAY_MS).toISOString();
+
+const localDay = (date: Date) => date.getFullYear() * 10000 + (date.getMonth() + 1) * 100 + date.getDate();
+
+// Valid through the whole validUntil day, in local time
+export const isQuoteExpired = (quote: Pick<Quote, 'status' | 'validUntil'>, now: Date = new Date()): boolean => {
+  const until = Date.parse(quote.validUntil);
+  return quote.status === QuoteStatus.OPEN && !isNaN(until) && localDay(now) > localDay(new Date(until));
+};
+
+export const quoteState = (quote: Pick<Quote, 'status' | 'validUntil'>, now: Date = new Date()): QuoteState =>
+  isQuoteExpired(quote, now) ? QUOTE_EXPIRED : quote.status;
+
+export const sortQuotes = (quotes: Quote[]): Quote[] =>
+  [...quotes].sort((a, b) => String(b.createdAt).localeCompare(String(a.createdAt)));
+
+export interface QuoteStats {
+  total: number;
+  open: number;
+  accepted: number;
+  rejected: number;
+  expired: number;
+  conversionRate: number; // % of the decided quotes (accepted, rejected or expired) that were accepted
+  quotedUsd: number;
+  acceptedUsd: number;
+}
+
+export const quoteStats = (quotes: Quote[], now: Date = new Date()): QuoteStats => {
+  const stats: QuoteStats = { total: 0, open: 0, accepted: 0, rejected: 0, expired: 0, conversionRate: 0, quotedUsd: 0, acceptedUsd: 0 };
+  quotes.forEach(quote => {
+    const state = quoteState(quote, now);
+    stats.total += 1;
+    stats.quotedUsd += quote.grandTotalUsd || 0;
+    if (state === QuoteStatus.ACCEPTED) {
+      stats.accepted += 1;
+      stats.acceptedUsd += quote.grandTotalUsd || 0;
+    } else if (state === QuoteStatus.REJECTED) stats.rejected += 1;
+    else if (state === QUOTE_EXPIRED) stats.expired += 1;
+    else stats.open += 1;
+  });
+  const decided = stats.accepted + stats.rejected + stats.expired;
+  stats.conversionRate = decided > 0 ? (stats.accepted / decided) * 100 : 0;
+  return stats;
+};
+
+// Plain text to paste in a chat or email
+export const quoteSummaryText = (quote: Quote, clientName: string, pricing: InvoiceBreakdown): string => {
+  const lines = quote.items.map((item, index) =>
+    `• ${item.quantity} x ${item.name || 'Producto'}: $${pricing.items[index].total.toFixed(2)}`
+  );
+  const totalBs = pricing.grandTotal * (quote.exchangeRate || 0);
+  return [
+    `Cotización KASSTYLE para ${clientName}`,
+    '',
+    ...lines,
+    '',
+    `Total: $${pricing.grandTotal.toFixed(2)} (Bs ${totalBs.toLocaleString('es-VE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })})`,
+    `Incluye envío y aranceles. Válida hasta el ${new Date(quote.validUntil).toLocaleDateString()}.`,
+    ...(quote.notes ? ['', quote.notes] : [])
+  ].join('\n');
+};
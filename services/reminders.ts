@@ -0,0 +1,84 @@
+import { Client, Invoice, PaymentReminder } from '../types';
+import { balanceOf, daysOverdue, dueDateOf, isOverdue, paymentTermOf } from './dueDates';
+import { invoiceLabel } from './invoiceNumbers';
+import { formatAmount } from './share';
+
+// Cola de cobranza: one entry per client with overdue invoices, the most late first,
+// plus the collection message drafted for them.
+
+export interface OverdueInvoice {
+  invoice: Invoice;
+  dueDate: Date;
+  daysOverdue: number;
+  balance: number; // USD
+}
+
+export interface ReminderQueueEntry {
+  client: Client;
+  invoices: OverdueInvoice[]; // Most overdue first
+  amountUsd: number;
+  maxDaysOverdue: number;
+  lastReminder?: PaymentReminder;
+}
+
+// Newest first
+export const sortReminders = (reminders: PaymentReminder[]): PaymentReminder[] =>
+  [...reminders].sort((a, b) => Date.parse(b.sentAt) - Date.parse(a.sentAt));
+
+export const buildReminderQueue = (
+  invoices: Invoice[],
+  clients: Client[],
+  reminders: PaymentReminder[],
+  defaultTermDays: number,
+  now: Date = new Date()
+): ReminderQueueEntry[] => {
+  const byClient = new Map<string, ReminderQueueEntry>();
+  const latest = sortReminders(reminders);
+
+  invoices.forEach(invoice => {
+    const client = clients.find(c => c.id === invoice.clientId);
+    if (!client) return;
+    const dueDate = dueDateOf(invoice, paymentTermOf(invoice, client, defaultTermDays));
+    if (!isOverdue(invoice, dueDate, now)) return;
+
+    let entry = byClient.get(client.id);
+    if (!entry) {
+      entry = { client, invoices: [], amountUsd: 0, maxDaysOverdue: 0, lastReminder: latest.find(r => r.clientId === client.id) };
+      byClient.set(client.id, entry);
+    }
+    const days = daysOverdue(dueDate, now);
+    const balance = balanceOf(invoice);
+    entry.invoices.push({ invoice, dueDate, daysOverdue: days, balance });
+    entry.amountUsd += balance;
+    entry.maxDaysOverdue = Math.max(entry.maxDaysOverdue, days);
+  });
+
+  const queue = [...byClient.values()];
+  queue.forEach(entry => entry.invoices.sort((a, b) => b.daysOverdue - a.daysOverdue));
+  return queue.sort((a, b) => b.maxDaysOverdue - a.maxDaysOverdue || b.amountUsd - a.amountUsd);
+};
+
+const dayText = (days: number) => (days === 1 ? '1 día' : `${days} días`);
+
+// Plain enough for email, with WhatsApp's *bold* on the totals
+export const reminderText = (entry: ReminderQueueEntry, todayRate: number): string => {
+  const lines = entry.invoices.map(o =>
+    `• Factura ${invoiceLabel(o.invoice)}: $${formatAmount(o.balance)} (venció el ${o.dueDate.toLocaleDateString()}, hace ${dayText(o.daysOverdue)})`
+  );
+  return [
+    `Hola ${entry.client.name}, te escribimos de *KASSTYLE*.`,
+    '',
+    entry.invoices.length === 1 ? 'Tienes un saldo vencido:' : 'Tienes estos saldos vencidos:',
+    ...lines,
+    '',
+    `*Total vencido:* $${formatAmount(entry.amountUsd)} (Bs ${formatAmount(entry.amountUsd * todayRate)} a la tasa de hoy)`,
+    '',
+    '¿Nos confirmas cuándo puedes hacer el abono? Si ya pagaste, envíanos el comprobante y lo registramos. ¡Gracias!'
+  ].join('\n');
+};
+
+export const reminderSubject = (entry: ReminderQueueEntry) =>
+  `KASSTYLE · Saldo vencido de $${formatAmount(entry.amountUsd)}`;
+
+export const mailtoLink = (email: string, subject: string, body: string) =>
+  `mailto:${encodeURIComponent(email)}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { validateSnapshot } from './schema';
+
+// An invoice row as version 1 of the app wrote it: one amountPaid number, no ledger
+const v1Invoice = (overrides: Record<string, any> = {}) => ({
+  id: 'inv-1',
+  clientId: 'c1',
+  createdAt: '2025-06-01T12:00:00.000Z',
+  updatedAt: '2025-06-02T12:00:00.000Z',
+  status: 'Abonado',
+  exchangeRate: 36.5,
+  logisticsCost: 5,
+  amountPaid: 20,
+  items: [],
+  schemaVersion: 1,
+  ...overrides
+});
+
+describe('v1 -> v2 payment ledger migration', () => {
+  it('turns amountPaid into a USD payment at the invoice rate', () => {
+    const { invoices, report } = validateSnapshot({ invoices: [v1Invoice()] }, 'cloud');
+
+    expect(invoices[0].payments).toEqual([expect.objectContaining({
+      id: 'inv-1-saldo-inicial',
+      amount: 20,
+      currency: 'USD',
+      exchangeRate: 36.5,
+      amountUsd: 20
+    })]);
+    expect(invoices[0].amountPaid).toBe(20);
+    expect(report.migrated).toBe(1);
+    expect(report.repaired).toEqual([]);
+  });
+
+  it('does not invent a rate when the invoice has none, and flags it for review', () => {
+    const { invoices, report } = validateSnapshot({ invoices: [v1Invoice({ exchangeRate: '' })] }, 'cloud');
+
+    expect(invoices[0].payments[0].exchangeRate).toBeUndefined();
+    expect(invoices[0].payments[0].amountUsd).toBe(20);
+    expect(report.repaired).toHaveLength(1);
+    expect(report.repaired[0].messages[0]).toBe('abonado de $20 migrado sin tasa de cambio: revisa la tasa de la factura');
+  });
+
+  it('still needs a rate on Bs payments', () => {
+    const payment = { id: 'p1', date: '2025-06-02T12:00:00.000Z', amount: 800, currency: 'Bs', amountUsd: 20, method: 'Pago Móvil' };
+    const { invoices, report } = validateSnapshot({ invoices: [v1Invoice({ payments: [payment], schemaVersion: 3 })] }, 'cloud');
+
+    expect(invoices[0].payments[0].exchangeRate).toBe(40.5);
+    expect(report.repaired[0].messages).toContain('pago 1 exchangeRate: faltaba, se usó 40.5');
+  });
+});
@@ -0,0 +1,626 @@
+// Versioned schema for the data coming from the cloud or the local store.
+// Every row is migrated to SCHEMA_VERSION and validated field by field; anything
+// that had to be fixed is reported instead of being coerced silently.
+
+import { Client, Invoice, ProductItem, Payment, Expense, ExchangeRate, Shipment, Quote, PaymentReminder, CreditEntry, TariffRule, ShippingRate, InvoiceStatus, QuoteStatus, ReminderChannel, CreditKind, Platform, PaymentMethod, ProductCategory, ShippingMode, ItemStage } from '../types';
+import { generateId } from './ids';
+import { toRateDate } from './exchangeRates';
+import { DEFAULT_TARIFF_RULES } from './tariffs';
+import { defaultShippingRates } from './shipping';
+import { detectCarrier } from './tracking';
+import { DEFAULT_INVOICE_PREFIX } from './invoiceNumbers';
+
+export const SCHEMA_VERSION = 3;
+
+const DEFAULT_PRICE_PER_KG = 15.43;
+
+export const DEFAULT_SETTINGS = {
+  exchangeRate: 40.5,
+  pricePerKg: DEFAULT_PRICE_PER_KG, // Only seeds the first shipping rate table
+  tariffRules: DEFAULT_TARIFF_RULES,
+  shippingRates: defaultShippingRates(DEFAULT_PRICE_PER_KG),
+  invoicePrefix: DEFAULT_INVOICE_PREFIX,
+  invoiceYearlyReset: true,
+  paymentTermDays: 15 // Días de crédito for clients and invoices without their own
+};
+export type Settings = typeof DEFAULT_SETTINGS & Record<string, any>;
+
+export type SchemaEntity = 'clients' | 'invoices' | 'expenses' | 'exchangeRates' | 'shipments' | 'quotes' | 'reminders' | 'credits' | 'settings';
+
+export interface RowIssue {
+  entity: SchemaEntity;
+  id: string;
+  label: string;
+  messages: string[];
+}
+
+export interface LoadReport {
+  source: 'local' | 'cloud';
+  schemaVersion: number;
+  checkedAt: string;
+  total: number;
+  migrated: number;
+  repaired: RowIssue[];
+  rejected: RowIssue[];
+}
+
+export interface ValidatedSnapshot {
+  clients: Client[];
+  invoices: Invoice[];
+  expenses: Expense[];
+  exchangeRates: ExchangeRate[];
+  shipments: Shipment[];
+  quotes: Quote[];
+  reminders: PaymentReminder[];
+  credits: CreditEntry[];
+  settings: Settings;
+  report: LoadReport;
+}
+
+// --- Field rules ---
+
+type FieldSpec =
+  | { kind: 'string'; optional?: boolean }
+  | { kind: 'number'; fallback: number; min?: number; optional?: boolean }
+  | { kind: 'boolean'; fallback: boolean }
+  | { kind: 'enum'; values: readonly string[]; fallback: string; optional?: boolean }
+  | { kind: 'date'; optional?: boolean };
+
+type Spec = Record<string, FieldSpec>;
+
+const isBlank = (v: any) => v === undefined || v === null || v === '';
+
+// Mutates `out[field]` to a valid value and returns a message when it had to change it
+const checkField = (out: Record<string, any>, field: string, spec: FieldSpec): string | null => {
+  const raw = out[field];
+
+  switch (spec.kind) {
+    case 'string': {
+      if (isBlank(raw)) {
+        if (spec.optional) return null;
+        out[field] = '';
+        return raw === '' ? null : `${field}: vacío`;
+      }
+      if (typeof raw === 'string') return null;
+      out[field] = String(raw);
+      return `${field}: ${JSON.stringify(raw)} convertido a texto`;
+    }
+    case 'number': {
+      if (typeof raw === 'number' && !isNaN(raw)) {
+        if (spec.min !== undefined && raw < spec.min) {
+          out[field] = spec.fallback;
+          return `${field}: ${raw} fuera de rango, se usó ${spec.fallback}`;
+        }
+        return null;
+      }
+      if (isBlank(raw)) {
+        if (spec.optional) return null;
+        out[field] = spec.fallback;
+        return `${field}: faltaba, se usó ${spec.fallback}`;
+      }
+      const parsed = parseFloat(String(raw).replace(',', '.'));
+      if (isNaN(parsed) || (spec.min !== undefined && parsed < spec.min)) {
+        out[field] = spec.fallback;
+        return `${field}: ${JSON.stringify(raw)} no es un número válido, se usó ${spec.fallback}`;
+      }
+      out[field] = parsed;
+      return `${field}: ${JSON.stringify(raw)} convertido a ${parsed}`;
+    }
+    case 'boolean': {
+      if (typeof raw === 'boolean') return null;
+      if (isBlank(raw)) {
+        out[field] = spec.fallback;
+        return null;
+      }
+      out[field] = raw === true || raw === 'true' || raw === 1 || raw === '1';
+      return `${field}: ${JSON.stringify(raw)} convertido a ${out[field]}`;
+    }
+    case 'enum': {
+      if (spec.values.includes(raw)) return null;
+      if (isBlank(raw) && spec.optional) return null;
+      out[field] = spec.fallback;
+      return isBlank(raw)
+        ? `${field}: faltaba, se usó "${spec.fallback}"`
+        : `${field}: "${raw}" no es válido, se usó "${spec.fallback}"`;
+    }
+    case 'date': {
+      if (isBlank(raw)) {
+        if (spec.optional) return null;
+        out[field] = new Date().toISOString();
+        return `${field}: faltaba, se usó la fecha actual`;
+      }
+      const time = Date.parse(String(raw));
+      if (isNaN(time)) {
+        out[field] = new Date().toISOString();
+        return `${field}: "${raw}" no es una fecha, se usó la fecha actual`;
+      }
+      const iso = new Date(time).toISOString();
+      if (iso !== raw) out[field] = iso;
+      return null;
+    }
+  }
+};
+
+const applySpec = (record: Record<string, any>, spec: Spec, prefix = ''): string[] =>
+  Object.entries(spec)
+    .map(([field, fieldSpec]) => checkField(record, field, fieldSpec))
+    .filter((m): m is string => m !== null)
+    .map(m => prefix + m);
+
+const CLIENT_SPEC: Spec = {
+  name: { kind: 'string' },
+  email: { kind: 'string' },
+  phone: { kind: 'string' },
+  address: { kind: 'string' },
+  notes: { kind: 'string', optional: true },
+  paymentTermDays: { kind: 'number', fallback: DEFAULT_SETTINGS.paymentTermDays, min: 0, optional: true },
+  updatedAt: { kind: 'date', optional: true }
+};
+
+const ITEM_SPEC: Spec = {
+  name: { kind: 'string' },
+  quantity: { kind: 'number', fallback: 1, min: 0 },
+  weight: { kind: 'number', fallback: 0, min: 0 },
+  weightUnit: { kind: 'enum', values: ['lb', 'kg'], fallback: 'kg' },
+  platform: { kind: 'enum', values: Object.values(Platform), fallback: Platform.OTHER },
+  trackingNumber: { kind: 'string', optional: true },
+  originalPrice: { kind: 'number', fallback: 0 },
+  taxes: { kind: 'number', fallback: 0 },
+  discounts: { kind: 'number', fallback: 0 },
+  finalPrice: { kind: 'number', fallback: 0 },
+  commission: { kind: 'number', fallback: 0 },
+  category: { kind: 'enum', values: Object.values(ProductCategory), fallback: ProductCategory.GENERAL },
+  length: { kind: 'number', fallback: 0, min: 0, optional: true },
+  width: { kind: 'number', fallback: 0, min: 0, optional: true },
+  height: { kind: 'number', fallback: 0, min: 0, optional: true },
+  dimensionUnit: { kind: 'enum', values: ['cm', 'in'], fallback: 'cm', optional: true },
+  shipmentId: { kind: 'string', optional: true }
+};
+
+const PAYMENT_SPEC: Spec = {
+  date: { kind: 'date' },
+  amount: { kind: 'number', fallback: 0 },
+  currency: { kind: 'enum', values: ['USD', 'Bs'], fallback: 'USD' },
+  // Required for Bs payments only (see checkInvoice)
+  exchangeRate: { kind: 'number', fallback: DEFAULT_SETTINGS.exchangeRate, min: 0.0001, optional: true },
+  amountUsd: { kind: 'number', fallback: 0 },
+  method: { kind: 'enum', values: Object.values(PaymentMethod), fallback: PaymentMethod.OTHER },
+  reference: { kind: 'string', optional: true },
+  notes: { kind: 'string', optional: true }
+};
+
+const INVOICE_SPEC: Spec = {
+  clientId: { kind: 'string' },
+  createdAt: { kind: 'date' },
+  updatedAt: { kind: 'date' },
+  status: { kind: 'enum', values: Object.values(InvoiceStatus), fallback: InvoiceStatus.DRAFT },
+  invoiceNumber: { kind: 'string', optional: true },
+  exchangeRate: { kind: 'number', fallback: DEFAULT_SETTINGS.exchangeRate, min: 0.0001 },
+  logisticsCost: { kind: 'number', fallback: 0 },
+  shippingRateId: { kind: 'string', optional: true },
+  amountPaid: { kind: 'number', fallback: 0 },
+  shareToken: { kind: 'string', optional: true },
+  paymentTermDays: { kind: 'number', fallback: DEFAULT_SETTINGS.paymentTermDays, min: 0, optional: true }
+};
+
+const QUOTE_SPEC: Spec = {
+  clientId: { kind: 'string' },
+  createdAt: { kind: 'date' },
+  updatedAt: { kind: 'date' },
+  validUntil: { kind: 'date' },
+  status: { kind: 'enum', values: Object.values(QuoteStatus), fallback: QuoteStatus.OPEN },
+  exchangeRate: { kind: 'number', fallback: DEFAULT_SETTINGS.exchangeRate, min: 0.0001 },
+  logisticsCost: { kind: 'number', fallback: 0 },
+  shippingRateId: { kind: 'string', optional: true },
+  notes: { kind: 'string', optional: true },
+  grandTotalUsd: { kind: 'number', fallback: 0 },
+  invoiceId: { kind: 'string', optional: true },
+  acceptedAt: { kind: 'date', optional: true }
+};
+
+const REMINDER_SPEC: Spec = {
+  clientId: { kind: 'string' },
+  sentAt: { kind: 'date' },
+  channel: { kind: 'enum', values: Object.values(ReminderChannel), fallback: ReminderChannel.MANUAL },
+  amountUsd: { kind: 'number', fallback: 0 },
+  message: { kind: 'string' }
+};
+
+const CREDIT_SPEC: Spec = {
+  clientId: { kind: 'string' },
+  date: { kind: 'date' },
+  kind: { kind: 'enum', values: Object.values(CreditKind), fallback: CreditKind.REFUND },
+  amount: { kind: 'number', fallback: 0, min: 0 },
+  currency: { kind: 'enum', values: ['USD', 'Bs'], fallback: 'USD' },
+  exchangeRate: { kind: 'number', fallback: DEFAULT_SETTINGS.exchangeRate, min: 0.0001 },
+  amountUsd: { kind: 'number', fallback: 0, min: 0 },
+  method: { kind: 'enum', values: Object.values(PaymentMethod), fallback: PaymentMethod.OTHER, optional: true },
+  invoiceId: { kind: 'string', optional: true },
+  notes: { kind: 'string', optional: true }
+};
+
+const EXPENSE_SPEC: Spec = {
+  description: { kind: 'string' },
+  amount: { kind: 'number', fallback: 0 },
+  category: { kind: 'enum', values: ['Material', 'Servicio', 'Transporte', 'Otro'], fallback: 'Otro' },
+  date: { kind: 'date' },
+  updatedAt: { kind: 'date', optional: true }
+};
+
+const EXCHANGE_RATE_SPEC: Spec = {
+  source: { kind: 'string' },
+  updatedAt: { kind: 'date', optional: true }
+};
+
+const TARIFF_RULE_SPEC: Spec = {
+  category: { kind: 'enum', values: Object.values(ProductCategory), fallback: ProductCategory.GENERAL },
+  type: { kind: 'enum', values: ['percent', 'fixed'], fallback: 'percent' },
+  value: { kind: 'number', fallback: 0, min: 0 },
+  minimum: { kind: 'number', fallback: 0, min: 0 },
+  base: { kind: 'enum', values: ['taxable', 'original', 'final'], fallback: 'taxable' }
+};
+
+const SHIPMENT_SPEC: Spec = {
+  guideNumber: { kind: 'string' },
+  carrier: { kind: 'string' },
+  shipDate: { kind: 'date' },
+  arrivalDate: { kind: 'date', optional: true },
+  totalWeightKg: { kind: 'number', fallback: 0, min: 0 },
+  freightCost: { kind: 'number', fallback: 0, min: 0 },
+  notes: { kind: 'string', optional: true },
+  updatedAt: { kind: 'date', optional: true }
+};
+
+const SHIPPING_RATE_SPEC: Spec = {
+  name: { kind: 'string' },
+  carrier: { kind: 'string' },
+  mode: { kind: 'enum', values: Object.values(ShippingMode), fallback: ShippingMode.AIR },
+  unit: { kind: 'enum', values: ['kg', 'lb'], fallback: 'kg' },
+  minimum: { kind: 'number', fallback: 0, min: 0 },
+  volumetricDivisor: { kind: 'number', fallback: 0, min: 0 }
+};
+
+const SETTINGS_SPEC: Spec = {
+  exchangeRate: { kind: 'number', fallback: DEFAULT_SETTINGS.exchangeRate, min: 0.0001 },
+  pricePerKg: { kind: 'number', fallback: DEFAULT_SETTINGS.pricePerKg, min: 0 },
+  invoicePrefix: { kind: 'string' },
+  invoiceYearlyReset: { kind: 'boolean', fallback: DEFAULT_SETTINGS.invoiceYearlyReset },
+  paymentTermDays: { kind: 'number', fallback: DEFAULT_SETTINGS.paymentTermDays, min: 0 }
+};
+
+// --- Migrations ---
+// MIGRATIONS[n] upgrades a record from version n to n + 1. Rows written before
+// versioning existed have no schemaVersion and count as version 0.
+
+// `review` collects what a step could not migrate on its own; it ends up in the LoadReport
+type Migration = (entity: SchemaEntity, record: Record<string, any>, review: string[]) => Record<string, any>;
+
+const MIGRATIONS: Record<number, Migration> = {
+  // v0 -> v1: defaults the app used to patch in on every read
+  0: (entity, record) => {
+    if (entity !== 'invoices' || !Array.isArray(record.items)) return record;
+    return {
+      ...record,
+      items: record.items.map((item: Record<string, any>) => ({
+        ...item,
+        // Shein's usual tax before the field existed
+        taxes: item.taxes === undefined ? 3.99 : item.taxes,
+        weightUnit: item.weightUnit || 'kg'
+      }))
+    };
+  },
+
+  // v1 -> v2: the single amountPaid number becomes the first entry of the payment ledger.
+  // The id is derived from the invoice so every device migrates to the same payment.
+  1: (entity, record, review) => {
+    // The sheet returns [] for the new, still empty payments column
+    if (entity !== 'invoices' || (Array.isArray(record.payments) && record.payments.length > 0)) return record;
+    const paid = parseFloat(String(record.amountPaid ?? 0).replace(',', '.')) || 0;
+    // The payment is in USD, so it needs no rate; one is only copied when the invoice had it
+    const rate = parseFloat(String(record.exchangeRate ?? '').replace(',', '.')) || undefined;
+    if (paid > 0 && !rate) review.push(`abonado de $${paid} migrado sin tasa de cambio: revisa la tasa de la factura`);
+    return {
+      ...record,
+      payments: paid > 0 ? [{
+        id: `${record.id}-saldo-inicial`,
+        date: record.updatedAt || record.createdAt || new Date().toISOString(),
+        amount: paid,
+        currency: 'USD',
+        exchangeRate: rate,
+        amountUsd: paid,
+        method: PaymentMethod.OTHER,
+        notes: 'Abonado registrado antes del historial de pagos'
+      }] : []
+    };
+  },
+
+  // v2 -> v3: the isElectronics flag becomes a customs category
+  2: (entity, record) => {
+    if (entity !== 'invoices' || !Array.isArray(record.items)) return record;
+    return {
+      ...record,
+      items: record.items.map((item: Record<string, any>) => {
+        if (!item || typeof item !== 'object') return item;
+        const { isElectronics, ...rest } = item;
+        const electronic = isElectronics === true || isElectronics === 'true';
+        return { ...rest, category: rest.category || (electronic ? ProductCategory.ELECTRONICS : ProductCategory.GENERAL) };
+      })
+    };
+  }
+};
+
+const migrate = (entity: SchemaEntity, record: Record<string, any>): { record: Record<string, any>; migrated: boolean; review: string[] } => {
+  let version = typeof record.schemaVersion === 'number' ? record.schemaVersion : 0;
+  let current = record;
+  const start = version;
+  const review: string[] = [];
+  while (version < SCHEMA_VERSION) {
+    const step = MIGRATIONS[version];
+    if (step) current = step(entity, current, review);
+    version += 1;
+  }
+  return { record: { ...current, schemaVersion: SCHEMA_VERSION }, migrated: start < SCHEMA_VERSION, review };
+};
+
+// --- Entry points ---
+
+interface RowResult<T> {
+  value: T | null;
+  migrated: boolean;
+  messages: string[];
+}
+
+// Thrown by a row check when the row can't be repaired and must not be loaded
+class RowRejected extends Error {}
+
+const validateRow = <T>(
+  entity: SchemaEntity,
+  raw: any,
+  check: (record: Record<string, any>) => string[]
+): RowResult<T> => {
+  if (!raw || typeof raw !== 'object') {
+    return { value: null, migrated: false, messages: ['la fila no es un objeto'] };
+  }
+  if (isBlank(raw.id)) {
+    return { value: null, migrated: false, messages: ['falta el id'] };
+  }
+
+  const { record, migrated, review } = migrate(entity, { ...raw, id: String(raw.id) });
+  try {
+    const messages = [...review, ...check(record)];
+    return { value: record as T, migrated, messages };
+  } catch (error) {
+    if (error instanceof RowRejected) return { value: null, migrated, messages: [error.message] };
+    throw error;
+  }
+};
+
+const STAGES = Object.values(ItemStage) as string[];
+
+// Timeline entries with an unknown stage or no readable date are dropped
+const checkStages = (stages: any, prefix: string, messages: string[]): any[] | undefined => {
+  if (!Array.isArray(stages)) {
+    messages.push(`${prefix}stages: no es una lista, se descartó`);
+    return undefined;
+  }
+  const valid = stages.filter(e => e && STAGES.includes(e.stage) && !isNaN(Date.parse(String(e.date))));
+  if (valid.length < stages.length) messages.push(`${prefix}stages: ${stages.length - valid.length} etapas inválidas descartadas`);
+  return valid.sort((a, b) => STAGES.indexOf(a.stage) - STAGES.indexOf(b.stage));
+};
+
+// Shared by invoices and quotes
+const checkItems = (record: Record<string, any>, messages: string[]) => {
+  if (!Array.isArray(record.items)) {
+    if (!isBlank(record.items)) messages.push('items: no es una lista, se vació');
+    record.items = [];
+  }
+  record.items = record.items.map((item: any, index: number) => {
+    const out: Record<string, any> = item && typeof item === 'object' ? { ...item } : {};
+    if (isBlank(out.id)) {
+      out.id = generateId();
+      messages.push(`producto ${index + 1}: sin id, se generó uno`);
+    }
+    messages.push(...applySpec(out, ITEM_SPEC, `producto ${index + 1} `));
+    // Derived from the number, which also fills it in for items saved before detection existed
+    const carrier = detectCarrier(out.trackingNumber);
+    if (carrier) out.trackingCarrier = carrier;
+    else delete out.trackingCarrier;
+    if (!isBlank(out.stages)) out.stages = checkStages(out.stages, `producto ${index + 1} `, messages);
+    return out as ProductItem;
+  });
+};
+
+const checkInvoice = (settings: Settings) => (record: Record<string, any>): string[] => {
+  const spec = { ...INVOICE_SPEC, exchangeRate: { kind: 'number', fallback: settings.exchangeRate, min: 0.0001 } as FieldSpec };
+  const messages = applySpec(record, spec);
+  checkItems(record, messages);
+
+  // Rebuilt on the next save while shared, so a bad copy is just dropped
+  if (isBlank(record.publicView) || typeof record.publicView !== 'object' || Array.isArray(record.publicView)) {
+    if (!isBlank(record.publicView)) messages.push('publicView: inválido, se descartó');
+    delete record.publicView;
+  }
+
+  if (!Array.isArray(record.payments)) {
+    if (!isBlank(record.payments)) messages.push('payments: no es una lista, se vació');
+    record.payments = [];
+  }
+  record.payments = record.payments
+    .filter((p: any, index: number) => {
+      const ok = p && typeof p === 'object';
+      if (!ok) messages.push(`pago ${index + 1}: inválido, se descartó`);
+      return ok;
+    })
+    .map((p: any, index: number) => {
+      const out: Record<string, any> = { ...p };
+      if (isBlank(out.id)) {
+        out.id = generateId();
+        messages.push(`pago ${index + 1}: sin id, se generó uno`);
+      }
+      messages.push(...applySpec(out, PAYMENT_SPEC, `pago ${index + 1} `));
+      if (out.currency === 'Bs' && isBlank(out.exchangeRate)) {
+        out.exchangeRate = DEFAULT_SETTINGS.exchangeRate;
+        messages.push(`pago ${index + 1} exchangeRate: faltaba, se usó ${DEFAULT_SETTINGS.exchangeRate}`);
+      }
+      return out as Payment;
+    });
+  // amountPaid is derived from the ledger from v2 on
+  record.amountPaid = record.payments.reduce((acc: number, p: Payment) => acc + p.amountUsd, 0);
+  return messages;
+};
+
+const checkQuote = (settings: Settings) => (record: Record<string, any>): string[] => {
+  const spec = { ...QUOTE_SPEC, exchangeRate: { kind: 'number', fallback: settings.exchangeRate, min: 0.0001 } as FieldSpec };
+  const messages = applySpec(record, spec);
+  checkItems(record, messages);
+  return messages;
+};
+
+const checkReminder = (record: Record<string, any>): string[] => {
+  const messages = applySpec(record, REMINDER_SPEC);
+  if (!Array.isArray(record.invoiceIds)) {
+    if (!isBlank(record.invoiceIds)) messages.push('invoiceIds: no es una lista, se vació');
+    record.invoiceIds = [];
+  }
+  record.invoiceIds = record.invoiceIds.filter((id: any) => !isBlank(id)).map(String);
+  return messages;
+};
+
+// A wrong rate would silently misprice everything converted with it: reject instead of defaulting
+const checkExchangeRate = (record: Record<string, any>): string[] => {
+  const messages = applySpec(record, EXCHANGE_RATE_SPEC);
+
+  const date = isBlank(record.date) ? '' : toRateDate(String(record.date));
+  if (!date) throw new RowRejected(`date: "${record.date ?? ''}" no es una fecha`);
+  if (date !== record.date) record.date = date;
+
+  const rate = typeof record.rate === 'number' ? record.rate : parseFloat(String(record.rate ?? '').replace(',', '.'));
+  if (isNaN(rate) || rate <= 0) throw new RowRejected(`rate: "${record.rate ?? ''}" no es una tasa válida`);
+  if (rate !== record.rate) {
+    messages.push(`rate: ${JSON.stringify(record.rate)} convertido a ${rate}`);
+    record.rate = rate;
+  }
+
+  return messages;
+};
+
+// Lists kept in settings may come back from the sheet as JSON text
+const parseList = (value: any): any[] | null => {
+  if (typeof value === 'string') {
+    try { value = JSON.parse(value); } catch (e) { return null; }
+  }
+  return Array.isArray(value) ? value : null;
+};
+
+const checkShippingRates = (value: any, pricePerKg: number, messages: string[]): ShippingRate[] => {
+  const list = parseList(value);
+  if (!list || list.length === 0) {
+    // First run with rate tables: the flat price per kg becomes the default table
+    if (list === null && !isBlank(value)) messages.push('shippingRates: no es una lista, se creó la tarifa general');
+    return defaultShippingRates(pricePerKg);
+  }
+  return list
+    .filter((r: any) => r && typeof r === 'object')
+    .map((r: any, index: number) => {
+      const out: Record<string, any> = { ...r };
+      if (isBlank(out.id)) out.id = `tarifa-envio-${index + 1}`;
+      messages.push(...applySpec(out, SHIPPING_RATE_SPEC, `tarifa de envío ${index + 1} `));
+      const tiers = parseList(out.tiers) || [];
+      out.tiers = tiers
+        .filter((t: any) => t && typeof t === 'object')
+        .map((t: any) => ({
+          upTo: isBlank(t.upTo) ? null : parseFloat(String(t.upTo)) || null,
+          price: parseFloat(String(t.price ?? '').replace(',', '.')) || 0
+        }));
+      if (out.tiers.length === 0) {
+        out.tiers = [{ upTo: null, price: pricePerKg }];
+        messages.push(`tarifa de envío ${index + 1} tiers: vacía, se usó $${pricePerKg}/kg`);
+      }
+      return out as ShippingRate;
+    });
+};
+
+export const validateSettings = (raw: any): { settings: Settings; messages: string[] } => {
+  const settings: Record<string, any> = { ...DEFAULT_SETTINGS, ...(raw && typeof raw === 'object' ? raw : {}) };
+  const messages = applySpec(settings, SETTINGS_SPEC);
+
+  let rules = parseList(settings.tariffRules);
+  if (!rules) {
+    messages.push('tariffRules: no es una lista, se usaron las reglas por defecto');
+    rules = DEFAULT_TARIFF_RULES;
+  }
+  settings.tariffRules = rules
+    .filter((r: any) => r && typeof r === 'object')
+    .map((r: any, index: number) => {
+      const out: Record<string, any> = { ...r };
+      if (isBlank(out.id)) out.id = `tarifa-${index + 1}`;
+      messages.push(...applySpec(out, TARIFF_RULE_SPEC, `regla ${index + 1} `));
+      return out as TariffRule;
+    });
+
+  // Not taken from the defaults: without tables of its own the sheet's pricePerKg seeds one
+  settings.shippingRates = checkShippingRates(raw?.shippingRates, settings.pricePerKg, messages);
+
+  return { settings: settings as Settings, messages };
+};
+
+const labelFor = (entity: SchemaEntity, raw: any): string => {
+  if (!raw || typeof raw !== 'object') return String(raw);
+  if (entity === 'clients') return raw.name || raw.id || '(sin nombre)';
+  if (entity === 'expenses') return raw.description || raw.id || '(sin descripción)';
+  if (entity === 'invoices') return `Factura ${raw.invoiceNumber || String(raw.id || '').slice(0, 8)}`;
+  if (entity === 'exchangeRates') return `Tasa ${raw.date || raw.id || ''}`;
+  if (entity === 'shipments') return `Envío ${raw.guideNumber || raw.id || ''}`;
+  if (entity === 'quotes') return `Cotización ${String(raw.id || '').slice(0, 8)}`;
+  if (entity === 'reminders') return `Recordatorio ${raw.sentAt || raw.id || ''}`;
+  if (entity === 'credits') return `${raw.kind || 'Saldo a favor'} ${raw.date || raw.id || ''}`;
+  return entity;
+};
+
+export const validateSnapshot = (data: any, source: LoadReport['source']): ValidatedSnapshot => {
+  const report: LoadReport = {
+    source,
+    schemaVersion: SCHEMA_VERSION,
+    checkedAt: new Date().toISOString(),
+    total: 0,
+    migrated: 0,
+    repaired: [],
+    rejected: []
+  };
+
+  const { settings, messages: settingsMessages } = validateSettings(data?.settings);
+  if (settingsMessages.length > 0) {
+    report.repaired.push({ entity: 'settings', id: 'settings', label: 'Configuración', messages: settingsMessages });
+  }
+
+  const run = <T>(entity: SchemaEntity, rows: any, check: (r: Record<string, any>) => string[]): T[] => {
+    const list = Array.isArray(rows) ? rows : [];
+    const valid: T[] = [];
+    list.forEach(raw => {
+      report.total += 1;
+      const result = validateRow<T>(entity, raw, check);
+      const issue = { entity, id: String(raw?.id ?? ''), label: labelFor(entity, raw), messages: result.messages };
+      if (!result.value) {
+        report.rejected.push(issue);
+        return;
+      }
+      if (result.migrated) report.migrated += 1;
+      if (result.messages.length > 0) report.repaired.push(issue);
+      valid.push(result.value);
+    });
+    return valid;
+  };
+
+  return {
+    clients: run<Client>('clients', data?.clients, r => applySpec(r, CLIENT_SPEC)),
+    invoices: run<Invoice>('invoices', data?.invoices, checkInvoice(settings)),
+    expenses: run<Expense>('expenses', data?.expenses, r => applySpec(r, EXPENSE_SPEC)),
+    exchangeRates: run<ExchangeRate>('exchangeRates', data?.exchangeRates, checkExchangeRate),
+    shipments: run<Shipment>('shipments', data?.shipments, r => applySpec(r, SHIPMENT_SPEC)),
+    quotes: run<Quote>('quotes', data?.quotes, checkQuote(settings)),
+    reminders: run<PaymentReminder>('reminders', data?.reminders, checkReminder),
+    credits: run<CreditEntry>('credits', data?.credits, r => applySpec(r, CREDIT_SPEC)),
+    settings,
+    report
+  };
+};
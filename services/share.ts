@@ -0,0 +1,90 @@
+import { Client, Invoice, PublicInvoice } from '../types';
+import { InvoiceBreakdown } from './pricing';
+import { describeRule } from './tariffs';
+import { currentStage } from './itemStages';
+import { sortPayments } from './payments';
+
+// Sharing an invoice with its client: a WhatsApp-ready text and an optional public
+// read-only link. The link carries Invoice.shareToken; the server only ever answers it
+// with that invoice's publicView (GOOGLE_APPS_SCRIPT.js doGet ?view=, changeStore.js).
+
+const TOKEN_BYTES = 24;
+const VENEZUELA_CODE = '58';
+
+// 192 random bits as hex: not derived from the id, so links cannot be guessed from each other
+export const createShareToken = (): string => {
+  const bytes = new Uint8Array(TOKEN_BYTES);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const buildPublicInvoice = (invoice: Invoice, client: Pick<Client, 'name'>, pricing: InvoiceBreakdown): PublicInvoice => ({
+  invoiceNumber: invoice.invoiceNumber,
+  status: invoice.status,
+  createdAt: invoice.createdAt,
+  updatedAt: invoice.updatedAt,
+  clientName: client.name,
+  exchangeRate: invoice.exchangeRate,
+  items: (invoice.items || []).map((item, index) => {
+    const line = pricing.items[index];
+    return {
+      name: item.name,
+      platform: item.platform,
+      quantity: item.quantity,
+      unitPrice: item.finalPrice,
+      unitAddons: line.unitLogistics + line.unitCommission,
+      total: line.total,
+      trackingNumber: item.trackingNumber || undefined,
+      trackingCarrier: item.trackingCarrier,
+      stage: currentStage(item)
+    };
+  }),
+  duties: pricing.dutiesByCategory.map(d => ({ label: `${d.category} (${describeRule(d.rule)})`, amount: d.amount })),
+  grandTotalUsd: pricing.grandTotal,
+  amountPaid: invoice.amountPaid || 0,
+  payments: sortPayments(invoice.payments).map(p => ({ date: p.date, method: p.method, amountUsd: p.amountUsd }))
+});
+
+// `base` is the app's own address, e.g. location.origin + location.pathname
+export const publicInvoiceUrl = (token: string, base: string): string =>
+  `${base}?view=${encodeURIComponent(token)}`;
+
+// wa.me wants the international number in digits only. Local numbers (0414-1234567,
+// 414 1234567) are taken as Venezuelan.
+export const whatsappNumber = (phone?: string): string => {
+  let digits = String(phone || '').replace(/\D/g, '');
+  if (digits.startsWith('00')) digits = digits.slice(2);
+  if (digits.length === 11 && digits.startsWith('0')) return VENEZUELA_CODE + digits.slice(1);
+  if (digits.length === 10 && digits.startsWith('4')) return VENEZUELA_CODE + digits;
+  return digits;
+};
+
+// Without a usable number WhatsApp asks who to send it to
+export const whatsappLink = (phone: string | undefined, text: string): string => {
+  const number = whatsappNumber(phone);
+  return `https://wa.me/${number.length >= 8 ? number : ''}?text=${encodeURIComponent(text)}`;
+};
+
+// Amounts inside chat messages: 1.234,56 like the rest of the Venezuelan texts
+export const formatAmount = (value: number) =>
+  (value || 0).toLocaleString('es-VE', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// *bold* is WhatsApp markup. The balance in Bs uses today's rate, like the detail view.
+export const invoiceShareText = (view: PublicInvoice, todayRate: number, link?: string): string => {
+  const balance = Math.max(0, view.grandTotalUsd - view.amountPaid);
+  const lines = view.items.map(item => `• ${item.quantity} x ${item.name || 'Producto'}: $${formatAmount(item.total)}`);
+
+  return [
+    `*KASSTYLE* · ${view.invoiceNumber ? `Factura ${view.invoiceNumber}` : 'Resumen de factura'}`,
+    `Hola ${view.clientName}, este es el resumen de tu pedido:`,
+    '',
+    ...lines,
+    '',
+    `*Total:* $${formatAmount(view.grandTotalUsd)} (Bs ${formatAmount(view.grandTotalUsd * view.exchangeRate)})`,
+    `*Abonado:* $${formatAmount(view.amountPaid)}`,
+    balance > 0.005
+      ? `*Saldo:* $${formatAmount(balance)} (Bs ${formatAmount(balance * todayRate)} a la tasa de hoy)`
+      : '*Saldo:* Pagado ✅',
+    ...(link ? ['', `Ver detalle: ${link}`] : [])
+  ].join('\n');
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { Invoice, InvoiceStatus, Platform, ProductCategory, ProductItem, Shipment, ShippingMode, ShippingRate } from '../types';
+import { costShipment, freightByInvoice } from './shipments';
+import { priceInvoice } from './pricing';
+import { DEFAULT_TARIFF_RULES } from './tariffs';
+
+const rate: ShippingRate = {
+  id: 'rate', name: 'General', carrier: '', mode: ShippingMode.AIR, unit: 'kg',
+  tiers: [{ upTo: null, price: 10 }], minimum: 0, volumetricDivisor: 0
+};
+
+const item = (overrides: Partial<ProductItem>): ProductItem => ({
+  id: 'item', name: 'Producto', quantity: 1, weight: 1, weightUnit: 'kg', platform: Platform.SHEIN,
+  originalPrice: 10, taxes: 0, discounts: 0, finalPrice: 10, commission: 0, category: ProductCategory.GENERAL,
+  shipmentId: 'box',
+  ...overrides
+});
+
+const invoice = (id: string, items: ProductItem[], logisticsCost: number): Invoice => ({
+  id, clientId: 'c1', createdAt: '2026-03-02T12:00:00.000Z', updatedAt: '2026-03-02T12:00:00.000Z',
+  status: InvoiceStatus.PENDING, exchangeRate: 40, items, logisticsCost, payments: [],
+  grandTotalUsd: 0, amountPaid: 0, totalProductCost: 0, totalProductSale: 0, totalCommissions: 0
+});
+
+const box: Shipment = { id: 'box', guideNumber: 'G1', carrier: 'Zoom', shipDate: '2026-03-05T12:00:00.000Z', totalWeightKg: 4, freightCost: 30 };
+
+const breakdownOf = (inv: Invoice) =>
+  priceInvoice(inv.items, { shippingRate: rate, tariffRules: DEFAULT_TARIFF_RULES, logisticsCost: inv.logisticsCost });
+
+describe('costShipment', () => {
+  it('prorates the real cost by weight and compares it with the freight charged', () => {
+    const invoices = [invoice('a', [item({ id: 'a1', weight: 1 })], 10), invoice('b', [item({ id: 'b1', weight: 3 })], 30)];
+    const cost = costShipment(box, invoices, breakdownOf);
+
+    expect(cost.weightKg).toBe(4);
+    expect(cost.lines.map(l => [l.charged, l.actualCost])).toEqual([[10, 7.5], [30, 22.5]]);
+    expect(cost.charged).toBe(40);
+  });
+
+  it('counts the manual logistics adjustment as charged freight, but not the duty', () => {
+    // Suggested: 20 freight + 10 electronics duty; billed 45 instead
+    const phone = item({ id: 'phone', weight: 2, category: ProductCategory.ELECTRONICS, originalPrice: 50 });
+    const cost = costShipment(box, [invoice('a', [phone], 45)], breakdownOf);
+
+    expect(cost.charged).toBeCloseTo(35, 9);
+    expect(freightByInvoice([cost]).a.charged).toBeCloseTo(cost.charged, 9);
+  });
+
+  it('leaves out items travelling in other boxes', () => {
+    const cost = costShipment(box, [invoice('a', [item({ id: 'a1' }), item({ id: 'a2', shipmentId: 'other' })], 20)], breakdownOf);
+    expect(cost.lines.map(l => l.itemId)).toEqual(['a1']);
+    expect(cost.actualCost).toBe(30);
+  });
+});
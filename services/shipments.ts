@@ -0,0 +1,78 @@
+import { Invoice, Shipment } from '../types';
+import { InvoiceBreakdown } from './pricing';
+
+// One invoice item travelling in a shipment
+export interface ShipmentLine {
+  invoiceId: string;
+  itemId: string;
+  weightKg: number; // Billable, whole line
+  charged: number; // Freight the client was charged for the line
+  actualCost: number; // Share of what the box really cost
+}
+
+export interface ShipmentCost {
+  shipment: Shipment;
+  lines: ShipmentLine[];
+  weightKg: number;
+  charged: number;
+  actualCost: number;
+}
+
+export interface FreightComparison {
+  charged: number;
+  actualCost: number;
+}
+
+export const sortShipments = (shipments: Shipment[]): Shipment[] =>
+  [...shipments].sort((a, b) => String(b.shipDate).localeCompare(String(a.shipDate)));
+
+// The real freight cost is prorated by billable weight over the items assigned to
+// the box, or evenly per unit when none of them has a weight.
+export const costShipment = (
+  shipment: Shipment,
+  invoices: Invoice[],
+  breakdownOf: (invoice: Invoice) => InvoiceBreakdown
+): ShipmentCost => {
+  const assigned: { invoiceId: string; itemId: string; quantity: number; weightKg: number; charged: number }[] = [];
+  invoices.forEach(invoice => {
+    const items = invoice.items || [];
+    if (!items.some(i => i.shipmentId === shipment.id)) return;
+    const pricing = breakdownOf(invoice);
+    items.forEach((item, index) => {
+      if (item.shipmentId !== shipment.id) return;
+      const line = pricing.items[index];
+      // Freight billed on the line: its logistics, manual adjustment included, without the duty
+      assigned.push({ invoiceId: invoice.id, itemId: item.id, quantity: line.quantity, weightKg: line.weightKg, charged: line.logistics - line.duty });
+    });
+  });
+
+  const totalKg = assigned.reduce((acc, l) => acc + l.weightKg, 0);
+  const totalUnits = assigned.reduce((acc, l) => acc + l.quantity, 0);
+  const cost = Number(shipment.freightCost) || 0;
+  const lines: ShipmentLine[] = assigned.map(l => ({
+    invoiceId: l.invoiceId,
+    itemId: l.itemId,
+    weightKg: l.weightKg,
+    charged: l.charged,
+    actualCost: totalKg > 0 ? cost * l.weightKg / totalKg : totalUnits > 0 ? cost * l.quantity / totalUnits : 0
+  }));
+
+  return {
+    shipment,
+    lines,
+    weightKg: totalKg,
+    charged: lines.reduce((acc, l) => acc + l.charged, 0),
+    actualCost: lines.reduce((acc, l) => acc + l.actualCost, 0)
+  };
+};
+
+// Charged versus real freight per invoice, over every shipment its items travelled in
+export const freightByInvoice = (costs: ShipmentCost[]): Record<string, FreightComparison> => {
+  const result: Record<string, FreightComparison> = {};
+  costs.forEach(c => c.lines.forEach(line => {
+    const entry = result[line.invoiceId] || (result[line.invoiceId] = { charged: 0, actualCost: 0 });
+    entry.charged += line.charged;
+    entry.actualCost += line.actualCost;
+  }));
+  return result;
+};
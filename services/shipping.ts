@@ -0,0 +1,50 @@
+import { ShippingMode, ShippingRate } from '../types';
+
+export const LB_PER_KG = 2.20462;
+
+// Usual air cargo factor: cm³ per billable kg
+export const DEFAULT_VOLUMETRIC_DIVISOR = 5000;
+
+// Before rate tables existed every invoice paid the flat settings price per kg
+export const defaultShippingRates = (pricePerKg: number): ShippingRate[] => [{
+  id: 'tarifa-general',
+  name: 'General',
+  carrier: '',
+  mode: ShippingMode.AIR,
+  unit: 'kg',
+  tiers: [{ upTo: null, price: pricePerKg }],
+  minimum: 0,
+  volumetricDivisor: DEFAULT_VOLUMETRIC_DIVISOR
+}];
+
+export const findShippingRate = (rates: ShippingRate[], id?: string): ShippingRate | undefined =>
+  rates.find(r => r.id === id) || rates[0];
+
+// Bands ordered by their upper limit, the open-ended one last
+export const sortTiers = (tiers: ShippingRate['tiers']) =>
+  [...tiers].sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity));
+
+export interface FreightQuote {
+  rate?: ShippingRate;
+  weight: number; // Billable, in rate.unit
+  unitPrice: number; // Price per rate.unit of the band that weight falls in
+  cost: number;
+  minimumApplied: boolean;
+}
+
+// The whole shipment is priced at the band its total weight falls in
+export const quoteFreight = (rate: ShippingRate | undefined, weightKg: number): FreightQuote => {
+  if (!rate || weightKg <= 0) return { rate, weight: 0, unitPrice: 0, cost: 0, minimumApplied: false };
+
+  const weight = rate.unit === 'lb' ? weightKg * LB_PER_KG : weightKg;
+  const tiers = sortTiers(rate.tiers);
+  const tier = tiers.find(t => t.upTo === null || weight <= t.upTo) || tiers[tiers.length - 1];
+  const unitPrice = tier ? tier.price : 0;
+  const byWeight = weight * unitPrice;
+  const minimumApplied = rate.minimum > byWeight;
+
+  return { rate, weight, unitPrice, cost: minimumApplied ? rate.minimum : byWeight, minimumApplied };
+};
+
+export const describeShippingRate = (rate: ShippingRate): string =>
+  [rate.carrier, rate.name, rate.mode].filter(Boolean).join(' · ');
@@ -0,0 +1,121 @@
+import { CreditEntry, CreditKind, Invoice, InvoiceStatus, PaymentMethod } from '../types';
+import { invoiceLabel } from './invoiceNumbers';
+import { cashPaidUsd, clientCredit, creditSign, isCreditPayment } from './credits';
+
+// Estado de cuenta: a client's invoices (charges) and abonos (credits) in date order
+// with the balance after each one. Borradores are not issued, so they never count.
+// Saldo a favor movements are listed too; abonos paid from that credit are not, since
+// the money was already counted when it came in.
+
+export interface StatementEntry {
+  date: string;
+  kind: 'invoice' | 'payment' | 'credit';
+  invoiceId?: string; // Missing for anticipos and devoluciones
+  description: string;
+  charge: number; // USD
+  credit: number; // USD
+  balance: number; // Owed after this entry
+}
+
+export interface StatementRange {
+  from?: Date; // Inclusive; entries before it only feed the opening balance
+  to?: Date;   // Inclusive
+}
+
+export interface ClientStatement {
+  openingBalance: number;
+  entries: StatementEntry[];
+  charged: number; // Within the range
+  paid: number;    // Within the range
+  closingBalance: number;
+}
+
+const time = (date: string) => {
+  const t = Date.parse(date);
+  return isNaN(t) ? 0 : t;
+};
+
+const inRange = (t: number, range: StatementRange) =>
+  (!range.from || t >= range.from.getTime()) && (!range.to || t <= range.to.getTime());
+
+const issuedFor = (invoices: Invoice[], clientId: string) =>
+  invoices.filter(inv => inv.clientId === clientId && inv.status !== InvoiceStatus.DRAFT);
+
+const paymentDescription = (method: PaymentMethod, reference: string | undefined, label: string) =>
+  `Abono ${method}${reference ? ` · Ref ${reference}` : ''} a ${label}`;
+
+const creditDescription = (entry: CreditEntry, invoices: Invoice[]) => {
+  const invoice = entry.invoiceId ? invoices.find(i => i.id === entry.invoiceId) : undefined;
+  const parts = [
+    entry.kind === CreditKind.PAYOUT ? 'Devolución de saldo a favor' : entry.kind,
+    entry.method,
+    invoice ? `de ${invoiceLabel(invoice)}` : undefined,
+    entry.notes
+  ];
+  return parts.filter(Boolean).join(' · ');
+};
+
+export const buildStatement = (
+  invoices: Invoice[],
+  clientId: string,
+  range: StatementRange = {},
+  credits: CreditEntry[] = []
+): ClientStatement => {
+  const all: Omit<StatementEntry, 'balance'>[] = [];
+  issuedFor(invoices, clientId).forEach(inv => {
+    const label = invoiceLabel(inv);
+    all.push({ date: inv.createdAt, kind: 'invoice', invoiceId: inv.id, description: `Factura ${label}`, charge: inv.grandTotalUsd || 0, credit: 0 });
+    (inv.payments || []).filter(p => !isCreditPayment(p)).forEach(p => all.push({
+      date: p.date, kind: 'payment', invoiceId: inv.id, description: paymentDescription(p.method, p.reference, label), charge: 0, credit: p.amountUsd || 0
+    }));
+  });
+  credits.filter(c => c.clientId === clientId).forEach(c => {
+    const amount = c.amountUsd || 0;
+    all.push({
+      date: c.date,
+      kind: 'credit',
+      invoiceId: c.invoiceId,
+      description: creditDescription(c, invoices),
+      charge: creditSign(c.kind) < 0 ? amount : 0,
+      credit: creditSign(c.kind) > 0 ? amount : 0
+    });
+  });
+  // Same instant: the invoice goes first so a same-day abono never shows a credit balance
+  const rank = (entry: Omit<StatementEntry, 'balance'>) => (entry.kind === 'invoice' ? 0 : 1);
+  all.sort((a, b) => time(a.date) - time(b.date) || rank(a) - rank(b));
+
+  let openingBalance = 0;
+  let balance = 0;
+  let charged = 0;
+  let paid = 0;
+  const entries: StatementEntry[] = [];
+  all.forEach(entry => {
+    const t = time(entry.date);
+    if (range.to && t > range.to.getTime()) return;
+    balance += entry.charge - entry.credit;
+    if (!inRange(t, range)) {
+      openingBalance = balance;
+      return;
+    }
+    charged += entry.charge;
+    paid += entry.credit;
+    entries.push({ ...entry, balance });
+  });
+
+  return { openingBalance, entries, charged, paid, closingBalance: balance };
+};
+
+// Everything the client has been invoiced and has paid (net of devoluciones), what is
+// still unpaid on their invoices and the saldo a favor they hold. Kept apart because an
+// overpaid invoice doesn't settle another one until the credit is applied to it.
+export const clientBalance = (invoices: Invoice[], clientId: string, credits: CreditEntry[] = []) => {
+  const issued = issuedFor(invoices, clientId);
+  const movements = credits.filter(c => c.clientId === clientId && c.kind !== CreditKind.REFUND);
+  return {
+    bought: issued.reduce((acc, inv) => acc + (inv.grandTotalUsd || 0), 0),
+    paid: issued.reduce((acc, inv) => acc + cashPaidUsd(inv.payments), 0)
+      + movements.reduce((acc, c) => acc + creditSign(c.kind) * (c.amountUsd || 0), 0),
+    owed: issued.reduce((acc, inv) => acc + Math.max(0, (inv.grandTotalUsd || 0) - (inv.amountPaid || 0)), 0),
+    credit: clientCredit(invoices, credits, clientId)
+  };
+};
@@ -0,0 +1,188 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Client, Invoice, InvoiceStatus, Platform, ProductCategory } from '../types';
+import { StorageBackend, createMemoryBackend } from './backends';
+import { createExchangeRate } from './exchangeRates';
+
+// Each "device" is a fresh copy of the StorageService module, all syncing to one in-memory cloud.
+// Node has no IndexedDB, so the local store falls back to memory as well.
+const openDevice = async (backend: StorageBackend) => {
+  vi.resetModules();
+  const { StorageService } = await import('./storage');
+  StorageService.useBackend(backend);
+  await StorageService.init();
+  return StorageService;
+};
+
+const client = (overrides: Partial<Client> = {}): Client => ({
+  id: 'c1',
+  name: 'Maria Perez',
+  phone: '0414-1234567',
+  email: '',
+  address: 'Caracas',
+  ...overrides
+});
+
+const invoice = (overrides: Partial<Invoice> = {}): Invoice => ({
+  id: 'inv-1',
+  clientId: 'c1',
+  createdAt: '2026-03-02T12:00:00.000Z',
+  updatedAt: '2026-03-02T12:00:00.000Z',
+  status: InvoiceStatus.PENDING,
+  exchangeRate: 40,
+  items: [{
+    id: 'item', name: 'Vestido', quantity: 1, weight: 1, weightUnit: 'kg', platform: Platform.SHEIN,
+    originalPrice: 10, taxes: 0, discounts: 0, finalPrice: 12, commission: 0, category: ProductCategory.GENERAL
+  }],
+  logisticsCost: 0,
+  grandTotalUsd: 0,
+  amountPaid: 0,
+  totalProductCost: 0,
+  totalProductSale: 0,
+  totalCommissions: 0,
+  payments: [],
+  ...overrides
+});
+
+// A device whose first load is slow: the snapshot is taken before anything saved meanwhile
+// reaches the cloud. finishLoad() delivers those saves, then lets the load complete.
+const openDuringLoad = async (backend: StorageBackend) => {
+  let loadStarted: () => void = () => {};
+  let release: () => void = () => {};
+  const started = new Promise<void>(resolve => { loadStarted = resolve; });
+  const gate = new Promise<void>(resolve => { release = resolve; });
+  const slow: StorageBackend = {
+    ...backend,
+    load: async () => {
+      const snapshot = await backend.load();
+      loadStarted();
+      await gate;
+      return snapshot;
+    }
+  };
+
+  vi.resetModules();
+  const { StorageService } = await import('./storage');
+  StorageService.useBackend(slow);
+  const loading = StorageService.init();
+  await started;
+  const finishLoad = async () => {
+    await StorageService.retrySync();
+    release();
+    await loading;
+  };
+  return { device: StorageService, finishLoad };
+};
+
+let backend: StorageBackend;
+
+beforeEach(() => {
+  backend = createMemoryBackend({ clients: [client({ updatedAt: '2026-01-01T00:00:00.000Z' })] });
+});
+
+describe('sync round trip against the memory backend', () => {
+  it('loads what the cloud holds', async () => {
+    const device = await openDevice(backend);
+    expect(device.getClients().map(c => c.name)).toEqual(['Maria Perez']);
+    expect(device.getSyncStatus().pending).toBe(0);
+  });
+
+  it('pushes local changes and another device loads them', async () => {
+    const a = await openDevice(backend);
+    await a.saveClient(client({ id: 'c2', name: 'Ana Gomez' }));
+    await a.saveInvoice(invoice({ clientId: 'c2' }));
+    await a.deleteClient('c1');
+    await a.retrySync();
+    expect(a.getSyncStatus().pending).toBe(0);
+
+    const b = await openDevice(backend);
+    expect(b.getClients().map(c => c.name)).toEqual(['Ana Gomez']);
+    expect(b.getInvoices().map(i => i.clientId)).toEqual(['c2']);
+  });
+
+  it('takes the invoice number the cloud assigns', async () => {
+    const device = await openDevice(backend);
+    await device.saveInvoice(invoice());
+    await device.retrySync();
+
+    expect(device.getInvoices()[0].invoiceNumber).toBe('FAC-2026-00001');
+    expect((await backend.load()).invoices[0].invoiceNumber).toBe('FAC-2026-00001');
+  });
+
+  it('keeps an edit the cloud refused as a conflict instead of overwriting', async () => {
+    const a = await openDevice(backend);
+    const b = await openDevice(backend);
+
+    await b.saveClient(client({ name: 'Maria (B)' }));
+    await b.retrySync();
+    // a still has the version it loaded before b's edit
+    await a.saveClient(client({ name: 'Maria (A)' }));
+    await a.retrySync();
+
+    expect(a.getConflicts()).toHaveLength(1);
+    expect(a.getConflicts()[0].remote?.name).toBe('Maria (B)');
+    expect((await backend.load()).clients[0].name).toBe('Maria (B)');
+  });
+
+  it('renames the client on shared links', async () => {
+    const device = await openDevice(backend);
+    await device.saveInvoice(invoice());
+    const token = (await device.shareInvoice('inv-1'))!.shareToken!;
+    await device.saveClient(client({ name: 'Maria Perez de Lopez' }));
+    await device.retrySync();
+
+    expect(device.getInvoices()[0].publicView?.clientName).toBe('Maria Perez de Lopez');
+    expect((await backend.fetchSharedInvoice(token))?.clientName).toBe('Maria Perez de Lopez');
+  });
+
+  it('updates shared links with the client a conflict resolves to', async () => {
+    // a shares an invoice, then renames its client after b already did
+    const conflictOnSharedClient = async () => {
+      const cloud = createMemoryBackend({ clients: [client({ updatedAt: '2026-01-01T00:00:00.000Z' })] });
+      const a = await openDevice(cloud);
+      await a.saveInvoice(invoice());
+      await a.shareInvoice('inv-1');
+      await a.retrySync();
+      const b = await openDevice(cloud);
+      await b.saveClient(client({ name: 'Maria (B)' }));
+      await b.retrySync();
+      await a.saveClient(client({ name: 'Maria (A)' }));
+      await a.retrySync();
+      return { device: a, conflict: a.getConflicts().find(c => c.entity === 'clients')! };
+    };
+
+    const kept = await conflictOnSharedClient();
+    await kept.device.resolveConflict('clients', 'c1', kept.conflict.remote);
+    expect(kept.device.getInvoices()[0].publicView?.clientName).toBe('Maria (B)');
+
+    const merged = await conflictOnSharedClient();
+    await merged.device.resolveConflict('clients', 'c1', { ...merged.conflict.local, name: 'Maria Perez' });
+    expect(merged.device.getInvoices()[0].publicView?.clientName).toBe('Maria Perez');
+  });
+
+  it('keeps records saved while the cloud copy is loading', async () => {
+    const { device, finishLoad } = await openDuringLoad(backend);
+    await device.saveClient(client({ id: 'c2', name: 'Ana Gomez' }));
+    await finishLoad();
+
+    expect(device.getClients().map(c => c.name)).toEqual(['Maria Perez', 'Ana Gomez']);
+    expect((await backend.load()).clients.map(c => c.name)).toEqual(['Maria Perez', 'Ana Gomez']);
+  });
+
+  it('keeps exchange rates saved while the cloud copy is loading', async () => {
+    const { device, finishLoad } = await openDuringLoad(backend);
+    await device.saveExchangeRates([createExchangeRate('2026-03-02T12:00:00.000Z', 41.2, 'Manual')]);
+    await finishLoad();
+
+    expect(device.getExchangeRates().map(r => r.rate)).toEqual([41.2]);
+    expect((await backend.load()).exchangeRates?.map(r => r.rate)).toEqual([41.2]);
+  });
+
+  it('keeps the invoice numbering changed while the cloud copy is loading', async () => {
+    const { device, finishLoad } = await openDuringLoad(backend);
+    await device.setInvoiceNumbering({ prefix: 'KS-', yearlyReset: false });
+    await finishLoad();
+
+    expect(device.getInvoiceNumbering()).toEqual({ prefix: 'KS-', yearlyReset: false });
+    expect((await backend.load()).settings).toMatchObject({ invoicePrefix: 'KS-', invoiceYearlyReset: false });
+  });
+});
@@ -1,8 +1,23 @@
-import { Client, Invoice, InvoiceStatus, ProductItem, Expense } from '../types';
+import { Client, Invoice, PublicInvoice, InvoiceStatus, ProductItem, Expense, Payment, PaymentMethod, ExchangeRate, Shipment, Quote, QuoteStatus, PaymentReminder, CreditEntry, TariffRule, ShippingRate } from '../types';
+import { LocalStore, CollectionName } from './localStore';
+import { Outbox, OutboxEntity, OutboxEntry, OutboxStatus } from './outbox';
+import { generateId } from './ids';
+import { RecordChange, ChangeSetResponse, SyncConflict, buildChangeSet } from './changeSet';
+import { AccessKeyError, StorageBackend, createConfiguredBackend, setAccessKey } from './backends';
+import { SCHEMA_VERSION, DEFAULT_SETTINGS, Settings, LoadReport, ValidatedSnapshot, validateSnapshot } from './schema';
+import { createPayment, deriveStatus, totalPaidUsd } from './payments';
+import { createExchangeRate, findRateForDate, sortRates } from './exchangeRates';
+import { InvoiceBreakdown, priceInvoice } from './pricing';
+import { findShippingRate } from './shipping';
+import { FreightComparison, ShipmentCost, costShipment, freightByInvoice, sortShipments } from './shipments';
+import { InvoiceNumbering } from './invoiceNumbers';
+import { sortQuotes } from './quotes';
+import { buildPublicInvoice, createShareToken } from './share';
+import { dueDateOf, paymentTermOf } from './dueDates';
+import { sortReminders } from './reminders';
+import { clientCredit, sortCredits } from './credits';
 
-const SCRIPT_URL = 'https://script.google.com/macros/s/AKfycbxBpoEQS4ZHx97WST_rOaN5cTE8smy3R4u8dLQ4OTkbOBHg6qvLMDWVksc1dxenKgCfag/exec';
-
-const DEFAULT_SETTINGS = { exchangeRate: 40.5, pricePerKg: 15.43 };
+let _backend: StorageBackend = createConfiguredBackend();
 
 const safeParseFloat = (val: any): number => {
   if (typeof val === 'number') return val;
@@ -12,17 +27,27 @@ const safeParseFloat = (val: any): number => {
   return isNaN(num) ? 0 : num;
 };
 
-const generateId = (): string => {
-  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
-    return crypto.randomUUID();
-  }
-  return Date.now().toString(36) + Math.random().toString(36).substring(2);
-};
-
 let _clients: Client[] = [];
 let _invoices: Invoice[] = [];
 let _expenses: Expense[] = [];
-let _settings = { ...DEFAULT_SETTINGS };
+let _exchangeRates: ExchangeRate[] = [];
+let _shipments: Shipment[] = [];
+let _quotes: Quote[] = [];
+let _reminders: PaymentReminder[] = [];
+let _credits: CreditEntry[] = [];
+let _settings: Settings = { ...DEFAULT_SETTINGS };
+let _loadReport: LoadReport | null = null;
+// The backend refused the last load or push for a missing or wrong access key
+let _accessDenied = false;
+
+// updatedAt of the cloud copy each local record was last based on ("entity:id" -> ISO date)
+let _baseVersions: Record<string, string> = {};
+let _conflicts: SyncConflict[] = [];
+
+// Records edited while the cloud copy is loading ("entity:id" -> last change); null otherwise
+let _editsDuringLoad: Map<string, { entity: OutboxEntity; id: string; op: 'upsert' | 'delete' }> | null = null;
+
+const versionKey = (entity: string, id: string) => `${entity}:${id}`;
 
 type Listener = () => void;
 let listeners: Listener[] = [];
@@ -31,27 +56,294 @@ const notifyListeners = () => {
   listeners.forEach(l => l());
 };
 
-const pushToCloud = async () => {
-  const payload = {
-    clients: _clients,
-    invoices: _invoices,
-    expenses: _expenses.map(e => ({
-        ...e,
-        amount: safeParseFloat(e.amount),
-        date: e.date || new Date().toISOString()
-    })),
-    settings: _settings
-  };
+// --- Local persistence ---
+
+let hydratePromise: Promise<void> | null = null;
 
+const hydrateFromLocal = async () => {
   try {
-    await fetch(SCRIPT_URL, {
-      method: 'POST',
-      mode: 'no-cors', 
-      headers: { 'Content-Type': 'text/plain;charset=utf-8' },
-      body: JSON.stringify(payload)
-    });
+    const [clients, invoices, expenses, exchangeRates, shipments, quotes, reminders, credits, settings, baseVersions, conflicts] = await Promise.all([
+      LocalStore.getAll<Client>('clients'),
+      LocalStore.getAll<Invoice>('invoices'),
+      LocalStore.getAll<Expense>('expenses'),
+      LocalStore.getAll<ExchangeRate>('exchangeRates'),
+      LocalStore.getAll<Shipment>('shipments'),
+      LocalStore.getAll<Quote>('quotes'),
+      LocalStore.getAll<PaymentReminder>('reminders'),
+      LocalStore.getAll<CreditEntry>('credits'),
+      LocalStore.getMeta<Settings>('settings'),
+      LocalStore.getMeta<Record<string, string>>('baseVersions'),
+      LocalStore.getMeta<SyncConflict[]>('conflicts')
+    ]);
+    // Data saved by older app versions is migrated on the way in as well
+    const validated = validateSnapshot({ clients, invoices, expenses, exchangeRates, shipments, quotes, reminders, credits, settings }, 'local');
+    _clients = validated.clients;
+    _invoices = validated.invoices;
+    _expenses = validated.expenses;
+    _exchangeRates = validated.exchangeRates;
+    _shipments = validated.shipments;
+    _quotes = validated.quotes;
+    _reminders = validated.reminders;
+    _credits = validated.credits;
+    _settings = validated.settings;
+    _loadReport = validated.report;
+    _baseVersions = baseVersions || {};
+    _conflicts = conflicts || [];
+    notifyListeners();
+  } catch (error) {
+    console.error('❌ Error leyendo datos locales:', error);
+  }
+};
+
+const persistRecord = (collection: CollectionName, record: { id: string }) => {
+  LocalStore.put(collection, record).catch(err => console.error('❌ Error guardando local:', err));
+};
+
+const removeRecord = (collection: CollectionName, id: string) => {
+  LocalStore.remove(collection, id).catch(err => console.error('❌ Error borrando local:', err));
+};
+
+const persistSettings = () => {
+  LocalStore.setMeta('settings', _settings).catch(err => console.error('❌ Error guardando local:', err));
+};
+
+const persistSyncMeta = () => {
+  Promise.all([
+    LocalStore.setMeta('baseVersions', _baseVersions),
+    LocalStore.setMeta('conflicts', _conflicts)
+  ]).catch(err => console.error('❌ Error guardando local:', err));
+};
+
+const breakdownOf = (invoice: Pick<Invoice, 'items' | 'logisticsCost' | 'shippingRateId'>): InvoiceBreakdown =>
+  priceInvoice(invoice.items || [], {
+    shippingRate: findShippingRate(_settings.shippingRates, invoice.shippingRateId),
+    tariffRules: _settings.tariffRules,
+    logisticsCost: safeParseFloat(invoice.logisticsCost)
+  });
+
+// Shared invoices carry the client-facing copy their public link shows, kept in step on every save
+const withPublicView = (invoice: Invoice): Invoice => {
+  if (!invoice.shareToken) return { ...invoice, publicView: undefined };
+  const client = _clients.find(c => c.id === invoice.clientId) || { name: '' };
+  return { ...invoice, publicView: buildPublicInvoice(invoice, client, breakdownOf(invoice)) };
+};
+
+const upsertById = <T extends { id: string }>(list: T[], record: T): T[] => {
+  const index = list.findIndex(r => r.id === record.id);
+  return index >= 0 ? list.map((r, i) => (i === index ? record : r)) : [...list, record];
+};
+
+// Writes a record (or its deletion when null) into memory and the local store
+const applyLocal = (entity: CollectionName, id: string, record: Record<string, any> | null) => {
+  switch (entity) {
+    case 'clients':
+      _clients = record ? upsertById(_clients, record as Client) : _clients.filter(c => c.id !== id);
+      break;
+    case 'invoices':
+      _invoices = record ? upsertById(_invoices, record as Invoice) : _invoices.filter(i => i.id !== id);
+      break;
+    case 'expenses':
+      _expenses = record ? upsertById(_expenses, record as Expense) : _expenses.filter(e => e.id !== id);
+      break;
+    case 'exchangeRates':
+      _exchangeRates = record ? upsertById(_exchangeRates, record as ExchangeRate) : _exchangeRates.filter(r => r.id !== id);
+      break;
+    case 'shipments':
+      _shipments = record ? upsertById(_shipments, record as Shipment) : _shipments.filter(s => s.id !== id);
+      break;
+    case 'quotes':
+      _quotes = record ? upsertById(_quotes, record as Quote) : _quotes.filter(q => q.id !== id);
+      break;
+    case 'reminders':
+      _reminders = record ? upsertById(_reminders, record as PaymentReminder) : _reminders.filter(r => r.id !== id);
+      break;
+    case 'credits':
+      _credits = record ? upsertById(_credits, record as CreditEntry) : _credits.filter(c => c.id !== id);
+      break;
+  }
+  if (record) persistRecord(entity, record as { id: string });
+  else removeRecord(entity, id);
+};
+
+const persistAllLocal = async () => {
+  try {
+    await Promise.all([
+      LocalStore.replaceAll('clients', _clients),
+      LocalStore.replaceAll('invoices', _invoices),
+      LocalStore.replaceAll('expenses', _expenses),
+      LocalStore.replaceAll('exchangeRates', _exchangeRates),
+      LocalStore.replaceAll('shipments', _shipments),
+      LocalStore.replaceAll('quotes', _quotes),
+      LocalStore.replaceAll('reminders', _reminders),
+      LocalStore.replaceAll('credits', _credits),
+      LocalStore.setMeta('settings', _settings)
+    ]);
   } catch (error) {
-    console.error('❌ Error guardando en nube:', error);
+    console.error('❌ Error guardando local:', error);
+  }
+};
+
+const findRecord = (entity: OutboxEntity, id: string): Record<string, any> | undefined => {
+  switch (entity) {
+    case 'clients': return _clients.find(c => c.id === id);
+    case 'invoices': return _invoices.find(i => i.id === id);
+    case 'expenses': {
+      const e = _expenses.find(x => x.id === id);
+      return e && { ...e, date: e.date || new Date().toISOString() };
+    }
+    case 'exchangeRates': return _exchangeRates.find(r => r.id === id);
+    case 'shipments': return _shipments.find(s => s.id === id);
+    case 'quotes': return _quotes.find(q => q.id === id);
+    case 'reminders': return _reminders.find(r => r.id === id);
+    case 'credits': return _credits.find(c => c.id === id);
+    case 'settings':
+      return id in _settings ? { key: id, value: (_settings as Record<string, any>)[id] } : undefined;
+  }
+};
+
+// Turns queued outbox entries into the per-record change set the Sheet applies
+const toRecordChange = (entry: OutboxEntry): RecordChange | null => {
+  const baseUpdatedAt = _baseVersions[versionKey(entry.entity, entry.recordId)];
+  if (entry.op === 'delete') {
+    return { entity: entry.entity, op: 'delete', id: entry.recordId, updatedAt: entry.queuedAt, baseUpdatedAt };
+  }
+  const record = findRecord(entry.entity, entry.recordId);
+  if (!record) return null;
+  return {
+    entity: entry.entity,
+    op: 'upsert',
+    id: entry.recordId,
+    updatedAt: record.updatedAt || entry.queuedAt,
+    baseUpdatedAt,
+    record
+  };
+};
+
+// Accepted changes become the new base; refused ones wait for the user in _conflicts
+const applyPushResult = (changes: RecordChange[], result: ChangeSetResponse) => {
+  const refused = new Map((result.conflicts || []).map(c => [versionKey(c.entity, c.id), c]));
+
+  changes.forEach(change => {
+    const key = versionKey(change.entity, change.id);
+    const conflict = refused.get(key);
+    if (conflict) {
+      _conflicts = [
+        ..._conflicts.filter(c => versionKey(c.entity, c.id) !== key),
+        {
+          entity: change.entity,
+          id: change.id,
+          local: change.op === 'delete' ? null : change.record || null,
+          remote: conflict.record,
+          detectedAt: new Date().toISOString()
+        }
+      ];
+    } else if (change.op === 'delete') {
+      delete _baseVersions[key];
+    } else {
+      _baseVersions[key] = change.updatedAt;
+    }
+  });
+
+  // The server keeps updatedAt when it numbers an invoice, so the base version still holds
+  let numbered = false;
+  Object.entries(result.invoiceNumbers || {}).forEach(([id, invoiceNumber]) => {
+    const invoice = _invoices.find(i => i.id === id);
+    if (!invoice || invoice.invoiceNumber === invoiceNumber) return;
+    applyLocal('invoices', id, { ...invoice, invoiceNumber });
+    numbered = true;
+  });
+
+  persistSyncMeta();
+  if (refused.size > 0 || numbered) notifyListeners();
+};
+
+const rebuildBaseVersions = () => {
+  _baseVersions = {};
+  const track = (entity: string, records: { id: string; updatedAt?: string }[]) => {
+    records.forEach(r => {
+      if (r.updatedAt) _baseVersions[versionKey(entity, r.id)] = String(r.updatedAt);
+    });
+  };
+  track('clients', _clients);
+  track('invoices', _invoices);
+  track('expenses', _expenses);
+  track('exchangeRates', _exchangeRates);
+  track('shipments', _shipments);
+  track('quotes', _quotes);
+  track('reminders', _reminders);
+  track('credits', _credits);
+};
+
+// The loaded snapshot predates edits made meanwhile, sent or still queued: for those records
+// the local copy wins. Returns the base versions those records had before the load.
+const keepLocalEdits = (validated: ValidatedSnapshot): Record<string, string | undefined> => {
+  const edits = new Map(_editsDuringLoad || []);
+  Outbox.getEntries().forEach(e => edits.set(versionKey(e.entity, e.recordId), { entity: e.entity, id: e.recordId, op: e.op }));
+
+  const bases: Record<string, string | undefined> = {};
+  edits.forEach(({ entity, id, op }, key) => {
+    const mine = findRecord(entity, id);
+    if (entity === 'settings') {
+      if (mine) validated.settings = { ...validated.settings, [id]: mine.value };
+    } else {
+      const list = validated[entity] as { id: string }[];
+      if (op === 'delete') (validated as Record<string, any>)[entity] = list.filter(r => r.id !== id);
+      else if (mine) (validated as Record<string, any>)[entity] = upsertById(list, mine as { id: string });
+    }
+    bases[key] = _baseVersions[key];
+  });
+  return bases;
+};
+
+const trackAccess = (error: unknown): never => {
+  if (error instanceof AccessKeyError) {
+    _accessDenied = true;
+    notifyListeners();
+  }
+  throw error;
+};
+
+// Outbox sender: only the records that changed travel to the backend.
+// An upsert whose record is missing here is held back, never reported as sent.
+const pushToCloud = async (entries: OutboxEntry[]): Promise<OutboxEntry[]> => {
+  const held: OutboxEntry[] = [];
+  const changes: RecordChange[] = [];
+  entries.forEach(entry => {
+    const change = toRecordChange(entry);
+    if (change) changes.push(change);
+    else held.push(entry);
+  });
+  if (held.length > 0) console.warn('⚠️ Cambios sin registro local, quedan en cola:', held);
+  if (changes.length === 0) return held;
+
+  const result = await _backend.pushChanges(buildChangeSet(changes)).catch(trackAccess);
+  _accessDenied = false;
+  if (result.status !== 'success') throw new Error(result.message || 'Respuesta inválida del servidor');
+  applyPushResult(changes, result);
+  return held;
+};
+
+Outbox.setSender(pushToCloud);
+Outbox.subscribe(() => notifyListeners());
+
+// Records the change durably, then tries to deliver it in the background
+const queueChange = async (entity: OutboxEntity, recordId: string, op: 'upsert' | 'delete') => {
+  _editsDuringLoad?.set(versionKey(entity, recordId), { entity, id: recordId, op });
+  await Outbox.enqueue(entity, recordId, op);
+  Outbox.flush();
+};
+
+// The public copy of a shared invoice carries the client's name: a rename saves it again
+const refreshSharedViews = async (clientId: string) => {
+  const client = _clients.find(c => c.id === clientId);
+  if (!client) return;
+  const stale = _invoices.filter(inv => inv.clientId === clientId && inv.shareToken && inv.publicView?.clientName !== client.name);
+  if (stale.length === 0) return;
+  const now = new Date().toISOString();
+  stale.forEach(inv => applyLocal('invoices', inv.id, withPublicView({ ...inv, updatedAt: now })));
+  notifyListeners();
+  for (const inv of stale) {
+    await queueChange('invoices', inv.id, 'upsert');
   }
 };
 
@@ -63,28 +355,120 @@ export const StorageService = {
     };
   },
 
+  // Loads the on-device copy once; safe to call repeatedly
+  hydrate: (): Promise<void> => {
+    if (!hydratePromise) hydratePromise = hydrateFromLocal();
+    return hydratePromise;
+  },
+
   init: async () => {
+    await StorageService.hydrate();
+    await Outbox.load();
+
+    if (Outbox.pendingCount() > 0) {
+      // Upload local edits first; pulling now would overwrite them
+      await Outbox.flush();
+      if (Outbox.pendingCount() > 0) return;
+    }
+
+    // The app is usable while this loads: edits made meanwhile must survive the replace below
+    _editsDuringLoad = new Map();
     try {
-      const response = await fetch(SCRIPT_URL);
-      const data = await response.json();
-      
-      _clients = Array.isArray(data.clients) ? data.clients : [];
-      _invoices = Array.isArray(data.invoices) ? data.invoices : [];
-      
-      if (Array.isArray(data.expenses)) {
-        _expenses = data.expenses.map((e: any) => ({
-            ...e,
-            amount: safeParseFloat(e.amount)
-        }));
-      } else {
-        _expenses = [];
+      const data = await _backend.load().catch(trackAccess);
+      _accessDenied = false;
+      const validated = validateSnapshot(data, 'cloud');
+      if (validated.report.repaired.length > 0 || validated.report.rejected.length > 0) {
+        console.warn('⚠️ Datos de la nube corregidos al cargar:', validated.report);
       }
+      const localBases = keepLocalEdits(validated);
 
-      _settings = data.settings || DEFAULT_SETTINGS;
+      _clients = validated.clients;
+      _invoices = validated.invoices;
+      _expenses = validated.expenses;
+      _exchangeRates = validated.exchangeRates;
+      _shipments = validated.shipments;
+      _quotes = validated.quotes;
+      _reminders = validated.reminders;
+      _credits = validated.credits;
+      _settings = validated.settings;
+      _loadReport = validated.report;
+      rebuildBaseVersions();
+      Object.entries(localBases).forEach(([key, base]) => {
+        if (base) _baseVersions[key] = base;
+        else delete _baseVersions[key];
+      });
+      _editsDuringLoad = null;
+      persistSyncMeta();
       
       notifyListeners();
+      await persistAllLocal();
     } catch (error) {
       console.error('❌ Fallo carga inicial:', error);
+    } finally {
+      _editsDuringLoad = null;
+    }
+  },
+
+  // Swap the sync target (e.g. an in-memory backend in tests); call before init()
+  useBackend: (backend: StorageBackend) => {
+    _backend = backend;
+  },
+
+  getBackendName: (): string => _backend.name,
+
+  // True when the backend asks for the access key before syncing
+  needsAccessKey: (): boolean => _accessDenied,
+
+  // Saves the key on this device and syncs again with it
+  setAccessKey: (key: string): Promise<void> => {
+    setAccessKey(key);
+    _accessDenied = false;
+    notifyListeners();
+    return StorageService.init();
+  },
+
+  // Rows repaired or rejected by schema validation in the last load
+  getLoadReport: (): LoadReport | null => _loadReport,
+
+  // Changes saved on this device that the cloud has not confirmed yet
+  getSyncStatus: (): OutboxStatus => Outbox.getStatus(),
+
+  // Retries pending changes right away instead of waiting for the backoff timer
+  retrySync: (): Promise<void> => Outbox.flush(),
+
+  // Edits the cloud refused because another device changed the record first
+  getConflicts: (): SyncConflict[] => [..._conflicts],
+
+  // `resolved` is the version to keep (null keeps it deleted). Anything other than
+  // the cloud copy is pushed again, now based on the cloud's current version.
+  resolveConflict: async (entity: OutboxEntity, id: string, resolved: Record<string, any> | null) => {
+    const key = versionKey(entity, id);
+    const conflict = _conflicts.find(c => versionKey(c.entity, c.id) === key);
+    if (!conflict || entity === 'settings') return;
+
+    _conflicts = _conflicts.filter(c => c !== conflict);
+    if (conflict.remote?.updatedAt) _baseVersions[key] = String(conflict.remote.updatedAt);
+    else delete _baseVersions[key];
+    persistSyncMeta();
+
+    const keepsRemote = JSON.stringify(resolved) === JSON.stringify(conflict.remote);
+    if (keepsRemote) {
+      applyLocal(entity, id, conflict.remote);
+      notifyListeners();
+      if (entity === 'clients' && conflict.remote) await refreshSharedViews(id);
+      return;
+    }
+
+    if (resolved) {
+      const record = { ...resolved, id, updatedAt: new Date().toISOString() };
+      applyLocal(entity, id, entity === 'invoices' ? withPublicView(record as Invoice) : record);
+      notifyListeners();
+      await queueChange(entity, id, 'upsert');
+      if (entity === 'clients') await refreshSharedViews(id);
+    } else {
+      applyLocal(entity, id, null);
+      notifyListeners();
+      await queueChange(entity, id, 'delete');
     }
   },
 
@@ -92,161 +476,399 @@ export const StorageService = {
   
   saveClient: async (client: Client) => {
     const index = _clients.findIndex(c => c.id === client.id);
+    const stamped = { ...client, updatedAt: new Date().toISOString(), schemaVersion: SCHEMA_VERSION };
     if (index >= 0) {
-      _clients[index] = client;
+      _clients[index] = stamped;
     } else {
-      _clients.push({ ...client, id: client.id || generateId() });
+      _clients.push({ ...stamped, id: client.id || generateId() });
     }
+    const saved = _clients[index >= 0 ? index : _clients.length - 1];
+    persistRecord('clients', saved);
     notifyListeners();
-    await pushToCloud();
+    await queueChange('clients', saved.id, 'upsert');
+    await refreshSharedViews(saved.id);
   },
 
   deleteClient: async (id: string) => {
     _clients = _clients.filter(c => c.id !== id);
+    removeRecord('clients', id);
     notifyListeners();
-    await pushToCloud();
+    await queueChange('clients', id, 'delete');
   },
 
+  // Rows are validated on load (see schema.ts); only the derived totals are computed here
   getInvoices: (): Invoice[] => {
      return _invoices.map(inv => {
-         const items = (inv.items || []).map(item => ({
-             ...item,
-             weight: safeParseFloat(item.weight),
-             quantity: safeParseFloat(item.quantity),
-             originalPrice: safeParseFloat(item.originalPrice),
-             taxes: safeParseFloat(item.taxes !== undefined ? item.taxes : 3.99), // Fallback to default
-             discounts: safeParseFloat(item.discounts || 0),
-             finalPrice: safeParseFloat(item.finalPrice),
-             commission: safeParseFloat(item.commission),
-             weightUnit: item.weightUnit || 'kg',
-             isElectronics: !!item.isElectronics 
-         }));
-
-         const logisticsCost = safeParseFloat(inv.logisticsCost);
-         const exchangeRate = safeParseFloat(inv.exchangeRate) || _settings.exchangeRate || 1;
-         const amountPaid = safeParseFloat(inv.amountPaid); 
-
-         const totalProductCost = items.reduce((acc, item) => acc + (item.originalPrice * item.quantity), 0);
-         const totalProductSale = items.reduce((acc, item) => acc + (item.finalPrice * item.quantity), 0);
-         const totalCommissions = items.reduce((acc, item) => acc + (item.commission * item.quantity), 0);
-         
-         const grandTotalUsd = totalProductSale + logisticsCost + totalCommissions;
+         const pricing = breakdownOf(inv);
+         const payments = inv.payments || [];
 
          return {
              ...inv,
-             items,
-             exchangeRate,
-             totalProductCost,
-             totalProductSale,
-             totalCommissions,
-             logisticsCost, 
-             grandTotalUsd,
-             amountPaid, 
-             status: inv.status || InvoiceStatus.DRAFT
+             items: inv.items || [],
+             payments,
+             totalProductCost: pricing.productCost,
+             totalProductSale: pricing.productSale,
+             totalCommissions: pricing.commissions,
+             grandTotalUsd: pricing.grandTotal,
+             amountPaid: totalPaidUsd(payments)
          };
      });
   },
 
+  // Per-item and per-invoice amounts (logistics, duty, profit) priced with current settings
+  getInvoiceBreakdown: (invoice: Pick<Invoice, 'items' | 'logisticsCost' | 'shippingRateId'>): InvoiceBreakdown => breakdownOf(invoice),
+
   saveInvoice: async (invoice: Invoice) => {
     const index = _invoices.findIndex(i => i.id === invoice.id);
     
-    const items = invoice.items || [];
+    const payments = invoice.payments || [];
     const logisticsCost = safeParseFloat(invoice.logisticsCost);
-    const amountPaid = safeParseFloat(invoice.amountPaid);
-    
-    const totalProductCost = items.reduce((acc, item) => acc + ((item.originalPrice || 0) * (item.quantity || 0)), 0);
-    const totalProductSale = items.reduce((acc, item) => acc + ((item.finalPrice || 0) * (item.quantity || 0)), 0);
-    const totalCommissions = items.reduce((acc, item) => acc + ((item.commission || 0) * (item.quantity || 0)), 0);
+    const amountPaid = totalPaidUsd(payments);
+    const pricing = breakdownOf({ items: invoice.items, logisticsCost, shippingRateId: invoice.shippingRateId });
 
-    const finalInvoice: Invoice = {
+    const finalInvoice: Invoice = withPublicView({
       ...invoice,
+      // Only the server assigns numbers; the form never carries them
+      invoiceNumber: index >= 0 ? _invoices[index].invoiceNumber : undefined,
+      items: invoice.items || [],
       logisticsCost, 
+      payments,
       amountPaid, 
+      status: deriveStatus(invoice.status, pricing.grandTotal, amountPaid),
       updatedAt: new Date().toISOString(),
-      totalProductCost,
-      totalProductSale,
-      totalCommissions,
-      grandTotalUsd: totalProductSale + logisticsCost + totalCommissions
-    };
+      schemaVersion: SCHEMA_VERSION,
+      totalProductCost: pricing.productCost,
+      totalProductSale: pricing.productSale,
+      totalCommissions: pricing.commissions,
+      grandTotalUsd: pricing.grandTotal
+    });
 
     if (index >= 0) {
       _invoices[index] = finalInvoice;
     } else {
       _invoices.push({ ...finalInvoice, id: invoice.id || generateId(), createdAt: new Date().toISOString() });
     }
+    const saved = _invoices[index >= 0 ? index : _invoices.length - 1];
+    persistRecord('invoices', saved);
     
     notifyListeners();
-    await pushToCloud();
+    await queueChange('invoices', saved.id, 'upsert');
   },
 
+  // Pendiente/Abonado/Pagado follow the payment ledger; marking an invoice Pagado or
+  // Entregado with a balance left records the settling payment.
   updateInvoiceStatus: async (id: string, status: InvoiceStatus) => {
     const index = _invoices.findIndex(i => i.id === id);
     if (index >= 0) {
-        const inv = _invoices[index];
-        let newAmountPaid = inv.amountPaid;
+        const inv = StorageService.getInvoices().find(i => i.id === id)!;
+        let payments = inv.payments;
+        const remaining = inv.grandTotalUsd - inv.amountPaid;
 
-        if (status === InvoiceStatus.PAID || status === InvoiceStatus.DELIVERED) {
-            newAmountPaid = inv.grandTotalUsd;
-        } else if (status === InvoiceStatus.PENDING) {
-            newAmountPaid = 0;
+        if ((status === InvoiceStatus.PAID || status === InvoiceStatus.DELIVERED) && remaining > 0.005) {
+            payments = [...payments, createPayment({
+                amount: parseFloat(remaining.toFixed(2)),
+                currency: 'USD',
+                exchangeRate: StorageService.getRateForDate(new Date().toISOString()),
+                method: PaymentMethod.OTHER,
+                notes: `Saldo liquidado al marcar como ${status}`
+            })];
         }
+        const amountPaid = totalPaidUsd(payments);
         
-        _invoices[index] = { 
-            ...inv, 
-            status, 
-            amountPaid: newAmountPaid,
+        _invoices[index] = withPublicView({ 
+            ..._invoices[index], 
+            status: deriveStatus(status, inv.grandTotalUsd, amountPaid), 
+            payments,
+            amountPaid,
             updatedAt: new Date().toISOString() 
-        };
+        });
+        persistRecord('invoices', _invoices[index]);
         
         notifyListeners();
-        await pushToCloud();
+        await queueChange('invoices', id, 'upsert');
     }
   },
 
+  addPayment: async (invoiceId: string, payment: Payment) => {
+    const inv = _invoices.find(i => i.id === invoiceId);
+    if (!inv) return;
+    await StorageService.saveInvoice({ ...inv, payments: [...(inv.payments || []), payment] });
+  },
+
+  deletePayment: async (invoiceId: string, paymentId: string) => {
+    const inv = _invoices.find(i => i.id === invoiceId);
+    if (!inv) return;
+    await StorageService.saveInvoice({ ...inv, payments: (inv.payments || []).filter(p => p.id !== paymentId) });
+  },
+
+  // Gives the invoice a public link (kept if it already has one); it works once synced
+  shareInvoice: async (id: string): Promise<Invoice | undefined> => {
+    const inv = _invoices.find(i => i.id === id);
+    if (!inv) return undefined;
+    if (!inv.shareToken) await StorageService.saveInvoice({ ...inv, shareToken: createShareToken() });
+    return _invoices.find(i => i.id === id);
+  },
+
+  // The old link stops working; sharing again hands out a new one
+  unshareInvoice: async (id: string) => {
+    const inv = _invoices.find(i => i.id === id);
+    if (!inv || !inv.shareToken) return;
+    await StorageService.saveInvoice({ ...inv, shareToken: undefined });
+  },
+
+  // For the public page: asks the backend directly, without loading or syncing anything
+  fetchSharedInvoice: (token: string): Promise<PublicInvoice | null> => _backend.fetchSharedInvoice(token),
+
   deleteInvoice: async (id: string) => {
     _invoices = _invoices.filter(i => i.id !== id);
+    removeRecord('invoices', id);
     notifyListeners();
-    await pushToCloud();
+    await queueChange('invoices', id, 'delete');
   },
 
   getExpenses: (): Expense[] => {
-    return _expenses.map(e => ({
-        ...e,
-        amount: safeParseFloat(e.amount)
-    })).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    return [..._expenses].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
   },
 
   saveExpense: async (expense: Expense) => {
     const index = _expenses.findIndex(e => e.id === expense.id);
+    const stamped = { ...expense, updatedAt: new Date().toISOString(), schemaVersion: SCHEMA_VERSION };
     if (index >= 0) {
-        _expenses[index] = expense;
+        _expenses[index] = stamped;
     } else {
-        const newExpense = { ...expense, id: expense.id || generateId() };
+        const newExpense = { ...stamped, id: expense.id || generateId() };
         _expenses.push(newExpense);
     }
+    const saved = _expenses[index >= 0 ? index : _expenses.length - 1];
+    persistRecord('expenses', saved);
     notifyListeners();
-    await pushToCloud();
+    await queueChange('expenses', saved.id, 'upsert');
   },
 
   deleteExpense: async (id: string) => {
     _expenses = _expenses.filter(e => e.id !== id);
+    removeRecord('expenses', id);
     notifyListeners();
-    await pushToCloud();
+    await queueChange('expenses', id, 'delete');
   },
 
-  getExchangeRate: (): number => safeParseFloat(_settings.exchangeRate) || 40.5,
+  // Today's rate
+  getExchangeRate: (): number => StorageService.getRateForDate(new Date()),
 
+  // Sets today's rate: recorded in the history, and kept as the setting older app versions read
   setExchangeRate: async (rate: number) => {
     _settings.exchangeRate = rate;
+    persistSettings();
+    await StorageService.saveExchangeRates([createExchangeRate(new Date().toISOString(), rate, 'Manual')]);
+    await queueChange('settings', 'exchangeRate', 'upsert');
+  },
+
+  getExchangeRates: (): ExchangeRate[] => sortRates(_exchangeRates),
+
+  // Rate in effect on a date (an invoice's createdAt, a payment date...). Before the
+  // first entry of the history, the configured rate is the best guess.
+  getRateForDate: (date: string | Date): number => {
+    const entry = findRateForDate(_exchangeRates, date);
+    return entry ? entry.rate : (_settings.exchangeRate || DEFAULT_SETTINGS.exchangeRate);
+  },
+
+  // Upserts by date, so importing the same file twice changes nothing
+  saveExchangeRates: async (rates: ExchangeRate[]) => {
+    const now = new Date().toISOString();
+    rates.forEach(rate => {
+      applyLocal('exchangeRates', rate.id, { ...rate, updatedAt: now, schemaVersion: SCHEMA_VERSION });
+    });
+    notifyListeners();
+    for (const rate of rates) {
+      await queueChange('exchangeRates', rate.id, 'upsert');
+    }
+  },
+
+  deleteExchangeRate: async (id: string) => {
+    applyLocal('exchangeRates', id, null);
+    notifyListeners();
+    await queueChange('exchangeRates', id, 'delete');
+  },
+
+  getShipments: (): Shipment[] => sortShipments(_shipments),
+
+  saveShipment: async (shipment: Shipment) => {
+    applyLocal('shipments', shipment.id, { ...shipment, updatedAt: new Date().toISOString(), schemaVersion: SCHEMA_VERSION });
+    notifyListeners();
+    await queueChange('shipments', shipment.id, 'upsert');
+  },
+
+  // Items that travelled in it go back to unassigned
+  deleteShipment: async (id: string) => {
+    await StorageService.setShipmentItems(id, []);
+    applyLocal('shipments', id, null);
+    notifyListeners();
+    await queueChange('shipments', id, 'delete');
+  },
+
+  // `itemIds` is the full content of the box: listed items move into it (out of any
+  // other box), items no longer listed are unassigned
+  setShipmentItems: async (shipmentId: string, itemIds: string[]) => {
+    const wanted = new Set(itemIds);
+    const now = new Date().toISOString();
+    const changed: string[] = [];
+    _invoices.forEach(inv => {
+      let touched = false;
+      const items = (inv.items || []).map(item => {
+        const shipmentIdNow = wanted.has(item.id) ? shipmentId : item.shipmentId === shipmentId ? undefined : item.shipmentId;
+        if (shipmentIdNow === item.shipmentId) return item;
+        touched = true;
+        return { ...item, shipmentId: shipmentIdNow };
+      });
+      if (!touched) return;
+      // Same path as saveInvoice, so a shared link shows the items where they are now
+      applyLocal('invoices', inv.id, withPublicView({ ...inv, items, updatedAt: now, schemaVersion: SCHEMA_VERSION }));
+      changed.push(inv.id);
+    });
+    if (changed.length === 0) return;
+    notifyListeners();
+    for (const id of changed) {
+      await queueChange('invoices', id, 'upsert');
+    }
+  },
+
+  getShipmentCost: (shipment: Shipment): ShipmentCost => costShipment(shipment, _invoices, breakdownOf),
+
+  // Freight charged on an invoice versus its share of the real cost of the boxes its
+  // items travelled in; null until some item is assigned to a shipment
+  getInvoiceFreightCost: (invoiceId: string): FreightComparison | null => {
+    const invoice = _invoices.find(i => i.id === invoiceId);
+    const ids = new Set((invoice?.items || []).map(i => i.shipmentId).filter(Boolean));
+    if (ids.size === 0) return null;
+    const costs = _shipments.filter(s => ids.has(s.id)).map(s => costShipment(s, _invoices, breakdownOf));
+    return freightByInvoice(costs)[invoiceId] || null;
+  },
+
+  getQuotes: (): Quote[] => sortQuotes(_quotes),
+
+  saveQuote: async (quote: Quote) => {
+    const logisticsCost = safeParseFloat(quote.logisticsCost);
+    const pricing = breakdownOf({ items: quote.items, logisticsCost, shippingRateId: quote.shippingRateId });
+    applyLocal('quotes', quote.id, {
+      ...quote,
+      items: quote.items || [],
+      logisticsCost,
+      grandTotalUsd: pricing.grandTotal,
+      updatedAt: new Date().toISOString(),
+      schemaVersion: SCHEMA_VERSION
+    });
+    notifyListeners();
+    await queueChange('quotes', quote.id, 'upsert');
+  },
+
+  deleteQuote: async (id: string) => {
+    applyLocal('quotes', id, null);
+    notifyListeners();
+    await queueChange('quotes', id, 'delete');
+  },
+
+  // Accepting a quote makes it a Pendiente invoice at today's rate (numbered by the
+  // server on sync); the quote keeps a link to it
+  convertQuoteToInvoice: async (quoteId: string): Promise<Invoice | null> => {
+    const quote = _quotes.find(q => q.id === quoteId);
+    if (!quote || quote.invoiceId) return null;
+
+    const now = new Date().toISOString();
+    const invoiceId = generateId();
+    await StorageService.saveInvoice({
+      id: invoiceId,
+      clientId: quote.clientId,
+      createdAt: now,
+      updatedAt: now,
+      status: InvoiceStatus.PENDING,
+      exchangeRate: StorageService.getRateForDate(now),
+      items: quote.items.map(item => ({ ...item, id: generateId() })),
+      logisticsCost: quote.logisticsCost,
+      shippingRateId: quote.shippingRateId,
+      payments: [],
+      amountPaid: 0,
+      totalProductCost: 0,
+      totalProductSale: 0,
+      totalCommissions: 0,
+      grandTotalUsd: 0
+    });
+    await StorageService.saveQuote({ ...quote, status: QuoteStatus.ACCEPTED, invoiceId, acceptedAt: now });
+    return _invoices.find(i => i.id === invoiceId) || null;
+  },
+
+  getReminders: (): PaymentReminder[] => sortReminders(_reminders),
+
+  // Reminders are a log: written once when sent, never edited
+  logReminder: async (reminder: Omit<PaymentReminder, 'id' | 'updatedAt' | 'schemaVersion'>) => {
+    const id = generateId();
+    applyLocal('reminders', id, { ...reminder, id, updatedAt: new Date().toISOString(), schemaVersion: SCHEMA_VERSION });
+    notifyListeners();
+    await queueChange('reminders', id, 'upsert');
+  },
+
+  getCredits: (): CreditEntry[] => sortCredits(_credits),
+
+  saveCredit: async (entry: CreditEntry) => {
+    applyLocal('credits', entry.id, { ...entry, updatedAt: new Date().toISOString(), schemaVersion: SCHEMA_VERSION });
+    notifyListeners();
+    await queueChange('credits', entry.id, 'upsert');
+  },
+
+  deleteCredit: async (id: string) => {
+    applyLocal('credits', id, null);
+    notifyListeners();
+    await queueChange('credits', id, 'delete');
+  },
+
+  // Saldo a favor the client can still use or be paid back
+  getClientCredit: (clientId: string): number => clientCredit(_invoices, _credits, clientId),
+
+  getDefaultPaymentTerm: (): number => _settings.paymentTermDays,
+
+  setDefaultPaymentTerm: async (days: number) => {
+    _settings.paymentTermDays = days;
+    persistSettings();
+    notifyListeners();
+    await queueChange('settings', 'paymentTermDays', 'upsert');
+  },
+
+  // Días de crédito in effect: the invoice's own, its client's or the default
+  getPaymentTerm: (invoice: Pick<Invoice, 'clientId' | 'paymentTermDays'>): number =>
+    paymentTermOf(invoice, _clients.find(c => c.id === invoice.clientId), _settings.paymentTermDays),
+
+  getDueDate: (invoice: Pick<Invoice, 'clientId' | 'createdAt' | 'paymentTermDays'>): Date =>
+    dueDateOf(invoice, StorageService.getPaymentTerm(invoice)),
+
+  getShippingRates: (): ShippingRate[] => [..._settings.shippingRates],
+
+  setShippingRates: async (rates: ShippingRate[]) => {
+    _settings.shippingRates = rates;
+    persistSettings();
+    notifyListeners();
+    await queueChange('settings', 'shippingRates', 'upsert');
+  },
+
+  getTariffRules: (): TariffRule[] => [..._settings.tariffRules],
+
+  setTariffRules: async (rules: TariffRule[]) => {
+    _settings.tariffRules = rules;
+    persistSettings();
     notifyListeners();
-    await pushToCloud();
+    await queueChange('settings', 'tariffRules', 'upsert');
   },
 
-  getPricePerKg: (): number => safeParseFloat(_settings.pricePerKg) || 15.43,
+  getInvoiceNumbering: (): InvoiceNumbering => ({
+    prefix: _settings.invoicePrefix,
+    yearlyReset: _settings.invoiceYearlyReset
+  }),
 
-  setPricePerKg: async (price: number) => {
-    _settings.pricePerKg = price;
+  // Takes effect on the next invoice the server numbers; issued numbers never change
+  setInvoiceNumbering: async (numbering: InvoiceNumbering) => {
+    _settings.invoicePrefix = numbering.prefix;
+    _settings.invoiceYearlyReset = numbering.yearlyReset;
+    persistSettings();
     notifyListeners();
-    await pushToCloud();
+    await queueChange('settings', 'invoicePrefix', 'upsert');
+    await queueChange('settings', 'invoiceYearlyReset', 'upsert');
   }
 };
\ No newline at end of file
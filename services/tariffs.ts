@@ -0,0 +1,42 @@
+import { ProductCategory, ProductItem, TariffRule } from '../types';
+
+export const TARIFF_BASE_LABELS: Record<TariffRule['base'], string> = {
+  taxable: 'Costo - impuesto - descuento',
+  original: 'Costo original',
+  final: 'Precio de venta'
+};
+
+// What the app charged before rules were configurable: 20% on electronics
+export const DEFAULT_TARIFF_RULES: TariffRule[] = [
+  { id: 'tarifa-electronica', category: ProductCategory.ELECTRONICS, type: 'percent', value: 20, minimum: 0, base: 'taxable' }
+];
+
+export const ruleForCategory = (rules: TariffRule[], category?: ProductCategory): TariffRule | undefined =>
+  rules.find(r => r.category === (category || ProductCategory.GENERAL));
+
+const num = (v: any): number => {
+  const n = typeof v === 'number' ? v : parseFloat(v);
+  return isNaN(n) ? 0 : n;
+};
+
+const baseAmount = (item: ProductItem, base: TariffRule['base']): number => {
+  switch (base) {
+    case 'original': return num(item.originalPrice);
+    case 'final': return num(item.finalPrice);
+    default: return num(item.originalPrice) - num(item.taxes) - num(item.discounts);
+  }
+};
+
+// Duty for one unit of the item; the minimum only applies to items the rule charges
+export const unitDuty = (item: ProductItem, rule?: TariffRule): number => {
+  if (!rule) return 0;
+  const charged = rule.type === 'fixed'
+    ? num(rule.value)
+    : Math.max(0, baseAmount(item, rule.base)) * num(rule.value) / 100;
+  return Math.max(charged, num(rule.minimum));
+};
+
+export const describeRule = (rule: TariffRule): string => {
+  const amount = rule.type === 'fixed' ? `$${rule.value} c/u` : `${rule.value}%`;
+  return rule.minimum > 0 ? `${amount} (mín. $${rule.minimum})` : amount;
+};
@@ -0,0 +1,42 @@
+import { TrackingCarrier } from '../types';
+
+interface CarrierFormat {
+  carrier: TrackingCarrier;
+  pattern: RegExp;
+  url: (tracking: string) => string;
+}
+
+// First match wins: the specific formats go before the purely numeric ones they
+// overlap with (USPS 22 digits vs FedEx, DHL 10 digits vs everything else)
+const FORMATS: CarrierFormat[] = [
+  { carrier: 'UPS', pattern: /^1Z[0-9A-Z]{16}$/, url: t => `https://www.ups.com/track?tracknum=${t}` },
+  { carrier: 'Amazon', pattern: /^TBA\d{12}$/, url: t => `https://track.amazon.com/tracking/${t}` },
+  { carrier: 'YunExpress', pattern: /^YT\d{16}$/, url: t => `https://www.yuntrack.com/parcelTracking?id=${t}` },
+  { carrier: 'Cainiao', pattern: /^(LP\d{14,16}|CN[A-Z0-9]{12,20}|[A-Z]{2}\d{9}CN)$/, url: t => `https://global.cainiao.com/newDetail.htm?mailNoList=${t}` },
+  { carrier: 'USPS', pattern: /^(9[1-5]\d{20}|420\d{5}9[1-5]\d{20}|[A-Z]{2}\d{9}US)$/, url: t => `https://tools.usps.com/go/TrackConfirmAction?tLabels=${t}` },
+  { carrier: 'DHL', pattern: /^(\d{10}|JJD\d{18}|GM\d{16,18})$/, url: t => `https://www.dhl.com/global-en/home/tracking.html?tracking-id=${t}` },
+  { carrier: 'FedEx', pattern: /^(\d{12}|\d{15}|\d{20}|96\d{20})$/, url: t => `https://www.fedex.com/fedextrack/?trknbr=${t}` }
+];
+
+export const TRACKING_CARRIERS: TrackingCarrier[] = FORMATS.map(f => f.carrier);
+
+// As printed on labels, tracking numbers come with spaces or dashes
+export const normalizeTracking = (value?: string): string =>
+  String(value || '').toUpperCase().replace(/[\s-]/g, '');
+
+export const detectCarrier = (value?: string): TrackingCarrier | undefined => {
+  const tracking = normalizeTracking(value);
+  return tracking ? FORMATS.find(f => f.pattern.test(tracking))?.carrier : undefined;
+};
+
+export const trackingUrl = (value?: string, carrier?: TrackingCarrier): string | undefined => {
+  const tracking = normalizeTracking(value);
+  const format = FORMATS.find(f => f.carrier === (carrier || detectCarrier(tracking)));
+  return tracking && format ? format.url(encodeURIComponent(tracking)) : undefined;
+};
+
+// Substring match on the normalized number, so partial or spaced queries work
+export const matchesTracking = (value: string | undefined, query: string): boolean => {
+  const q = normalizeTracking(query);
+  return q.length > 0 && normalizeTracking(value).includes(q);
+};
@@ -15,6 +15,97 @@ export enum Platform {
   OTHER = 'Otro'
 }
 
+// Customs category of a product: picks the tariff rule applied to it
+export enum ProductCategory {
+  GENERAL = 'General',
+  ELECTRONICS = 'Electrónica',
+  COSMETICS = 'Cosméticos',
+  SHOES = 'Calzado',
+  LIQUIDS = 'Líquidos'
+}
+
+// Duty charged per unit of a category. Kept in settings (key `tariffRules`).
+export interface TariffRule {
+  id: string;
+  category: ProductCategory;
+  type: 'percent' | 'fixed';
+  value: number; // Percentage (20 = 20%) or USD per unit
+  minimum: number; // USD per unit, 0 = none
+  base: 'taxable' | 'original' | 'final'; // What a percentage applies to
+}
+
+export enum ShippingMode {
+  AIR = 'Aéreo',
+  SEA = 'Marítimo'
+}
+
+// Weight band: `price` per weight unit while the billable weight is up to `upTo` (null = no limit)
+export interface ShippingRateTier {
+  upTo: number | null;
+  price: number;
+}
+
+// A courier's price list for one route. Kept in settings (key `shippingRates`).
+export interface ShippingRate {
+  id: string;
+  name: string;
+  carrier: string;
+  mode: ShippingMode;
+  unit: 'kg' | 'lb';
+  tiers: ShippingRateTier[];
+  minimum: number; // USD per shipment
+  volumetricDivisor: number; // cm³ per kg, 0 = not billed by volume
+}
+
+export enum PaymentMethod {
+  PAGO_MOVIL = 'Pago Móvil',
+  ZELLE = 'Zelle',
+  TRANSFER = 'Transferencia',
+  CASH_USD = 'Efectivo $',
+  CASH_BS = 'Efectivo Bs',
+  BINANCE = 'Binance',
+  OTHER = 'Otro',
+  CREDIT = 'Saldo a favor' // Paid from the client's credit wallet, not new money; see services/credits.ts
+}
+
+export type Currency = 'USD' | 'Bs';
+
+export enum ReminderChannel {
+  WHATSAPP = 'WhatsApp',
+  EMAIL = 'Correo',
+  MANUAL = 'Copiado' // Text copied and pasted somewhere else
+}
+
+// One abono. Bs payments keep the rate used so amountUsd never changes afterwards.
+export interface Payment {
+  id: string;
+  date: string;
+  amount: number; // In `currency`
+  currency: Currency;
+  exchangeRate?: number; // Bs per USD used for the conversion; USD payments may lack it
+  amountUsd: number;
+  method: PaymentMethod;
+  reference?: string;
+  notes?: string;
+}
+
+export type TrackingCarrier = 'USPS' | 'UPS' | 'FedEx' | 'DHL' | 'Amazon' | 'YunExpress' | 'Cainiao';
+
+// Where an item is between the store and the client, in order
+export enum ItemStage {
+  PURCHASED = 'Comprado',
+  TO_MIAMI = 'En tránsito a Miami',
+  WAREHOUSE = 'Recibido en almacén',
+  TO_VENEZUELA = 'Enviado a Venezuela',
+  AT_OFFICE = 'En oficina',
+  DELIVERED = 'Entregado'
+}
+
+export interface ItemStageEvent {
+  stage: ItemStage;
+  date: string;
+}
+
 export interface ProductItem {
   id: string;
   name: string;
@@ -23,12 +114,20 @@ export interface ProductItem {
   weightUnit: 'lb' | 'kg'; 
   platform: Platform;
   trackingNumber?: string;
+  trackingCarrier?: TrackingCarrier; // Detected from trackingNumber, see services/tracking.ts
   originalPrice: number; 
   taxes: number; // New field
   discounts: number; // New field
   finalPrice: number; 
   commission: number; 
-  isElectronics?: boolean;
+  category: ProductCategory;
+  // Package size per unit; couriers bill the greater of actual and volumetric weight
+  length?: number;
+  width?: number;
+  height?: number;
+  dimensionUnit?: 'cm' | 'in';
+  shipmentId?: string; // Consolidated box it travels in, see Shipment
+  stages?: ItemStageEvent[]; // Timeline, oldest first; the last entry is the current stage
 }
 
 export interface Client {
@@ -38,6 +137,9 @@ export interface Client {
   phone: string;
   address: string;
   notes?: string;
+  paymentTermDays?: number; // Días de crédito; the global default when missing
+  updatedAt?: string;
+  schemaVersion?: number;
 }
 
 export interface Invoice {
@@ -46,14 +148,76 @@ export interface Invoice {
   createdAt: string; 
   updatedAt: string;
   status: InvoiceStatus;
+  invoiceNumber?: string; // Assigned by the server when the invoice leaves Borrador, see services/invoiceNumbers.ts
   exchangeRate: number; 
   items: ProductItem[];
   logisticsCost: number; 
-  amountPaid: number; 
+  shippingRateId?: string; // ShippingRate used for the freight; the default one when missing
+  paymentTermDays?: number; // Overrides the client's term; see services/dueDates.ts
+  payments: Payment[];
+  amountPaid: number; // Derived: sum of payments[].amountUsd
   totalProductCost: number; 
   totalProductSale: number; 
   totalCommissions: number; 
   grandTotalUsd: number; 
+  shareToken?: string; // Unguessable key of the public read-only link, see services/share.ts
+  publicView?: PublicInvoice; // What that link shows; rebuilt on every save while shared
+  schemaVersion?: number;
+}
+
+export interface PublicInvoiceItem {
+  name: string;
+  platform: Platform;
+  quantity: number;
+  unitPrice: number;
+  unitAddons: number; // Shipping, duty and service per unit, as one figure
+  total: number;
+  trackingNumber?: string;
+  trackingCarrier?: TrackingCarrier;
+  stage: ItemStage;
+}
+
+// The client-facing copy of an invoice: no costs, commissions or internal notes.
+// The server hands it out by shareToken and fills in the current number and status.
+export interface PublicInvoice {
+  invoiceNumber?: string;
+  status: InvoiceStatus;
+  createdAt: string;
+  updatedAt: string;
+  clientName: string;
+  exchangeRate: number;
+  items: PublicInvoiceItem[];
+  duties: { label: string; amount: number }[];
+  grandTotalUsd: number;
+  amountPaid: number;
+  payments: { date: string; method: PaymentMethod; amountUsd: number }[];
+}
+
+// Acceptance is the conversion: an accepted quote points to the invoice made from it.
+// Expiry is not stored, it follows from validUntil (see services/quotes.ts).
+export enum QuoteStatus {
+  OPEN = 'Abierta',
+  ACCEPTED = 'Aceptada',
+  REJECTED = 'Rechazada'
+}
+
+// "¿Cuánto me sale?": priced like an invoice but without payments or tracking
+export interface Quote {
+  id: string;
+  clientId: string;
+  createdAt: string;
+  updatedAt: string;
+  validUntil: string;
+  status: QuoteStatus;
+  exchangeRate: number;
+  items: ProductItem[];
+  logisticsCost: number;
+  shippingRateId?: string;
+  notes?: string;
+  grandTotalUsd: number; // Derived when saved
+  invoiceId?: string; // Invoice it was converted into
+  acceptedAt?: string;
+  schemaVersion?: number;
 }
 
 export interface Expense {
@@ -62,6 +226,71 @@ export interface Expense {
   amount: number;
   category: 'Material' | 'Servicio' | 'Transporte' | 'Otro';
   date: string; 
+  updatedAt?: string;
+  schemaVersion?: number;
+}
+
+// Bs per USD in effect from `date` (YYYY-MM-DD) until the next entry.
+// One entry per day: the id is derived from the date, see services/exchangeRates.ts
+export interface ExchangeRate {
+  id: string;
+  date: string;
+  rate: number;
+  source: string; // BCV, Paralelo, Manual...
+  updatedAt?: string;
+  schemaVersion?: number;
+}
+
+// A consolidated box/guide from Miami. Items from many invoices point to it through
+// ProductItem.shipmentId, and its real freight cost is prorated back to them.
+export interface Shipment {
+  id: string;
+  guideNumber: string;
+  carrier: string;
+  shipDate: string;
+  arrivalDate?: string;
+  totalWeightKg: number; // As weighed by the carrier
+  freightCost: number; // USD actually paid for the box
+  notes?: string;
+  updatedAt?: string;
+  schemaVersion?: number;
+}
+
+export enum CreditKind {
+  PREPAYMENT = 'Anticipo', // Money received before there is an invoice for it
+  REFUND = 'Nota de crédito', // Cancelled or returned product credited to the client
+  PAYOUT = 'Devolución' // Credit paid back to the client; takes credit out
+}
+
+// A movement of a client's saldo a favor that is not an abono on an invoice.
+// Overpaid invoices add credit on their own, without an entry.
+export interface CreditEntry {
+  id: string;
+  clientId: string;
+  date: string;
+  kind: CreditKind;
+  amount: number; // In `currency`
+  currency: Currency;
+  exchangeRate: number;
+  amountUsd: number; // Always positive; PAYOUT subtracts it
+  method?: PaymentMethod; // How the money came in or went out
+  invoiceId?: string; // Invoice a nota de crédito refers to
+  notes?: string;
+  updatedAt?: string;
+  schemaVersion?: number;
+}
+
+// A collection message that went out, kept as the log of who was chased and when
+export interface PaymentReminder {
+  id: string;
+  clientId: string;
+  invoiceIds: string[]; // The overdue invoices it listed
+  sentAt: string;
+  channel: ReminderChannel;
+  amountUsd: number; // Overdue balance at the time
+  message: string;
+  updatedAt?: string;
+  schemaVersion?: number;
 }
 
 export interface FinancialStats {
@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.STORAGE_BACKEND': JSON.stringify(env.STORAGE_BACKEND || ''),
+        'process.env.STORAGE_URL': JSON.stringify(env.STORAGE_URL || '')
       },
       resolve: {
         alias: {